@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { unlinkAccount } from "@/lib/accounts";
+import { auth } from "@/lib/auth";
+import { deleteAccountExports } from "@/lib/mbox";
+import { clearSearchIndex } from "@/lib/search";
+
+// DELETE - Unlink an account and drop everything stored for it. Nothing
+// changes in the Gmail mailbox itself.
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ accountId: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = session.user.email;
+    const { accountId } = await params;
+
+    if (!(await unlinkAccount(userId, accountId))) {
+      return NextResponse.json(
+        { error: "The account you signed in with can't be unlinked" },
+        { status: 400 }
+      );
+    }
+    await clearSearchIndex({ userId, accountId });
+    await deleteAccountExports({ userId, accountId });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Failed to unlink account:", error);
+    return NextResponse.json(
+      { error: "Failed to unlink account" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { LINK_STATE_COOKIE, linkAccount } from "@/lib/accounts";
+import { auth } from "@/lib/auth";
+
+// GET - Google sends the user back here after the consent screen. Errors
+// go back to the dashboard as ?linkError= for the account menu to show.
+export async function GET(request: NextRequest) {
+  const session = await auth();
+
+  if (!session?.user?.email) {
+    return NextResponse.redirect(new URL("/login", request.url));
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const code = searchParams.get("code");
+  const state = searchParams.get("state");
+  const dashboard = new URL("/dashboard", request.url);
+
+  if (searchParams.get("error")) {
+    // Cancelled on the consent screen
+    dashboard.searchParams.set("linkError", "Linking was cancelled");
+  } else if (!code || !state || state !== request.cookies.get(LINK_STATE_COOKIE)?.value) {
+    dashboard.searchParams.set("linkError", "Linking expired, please try again");
+  } else {
+    try {
+      await linkAccount(session.user.email, request.nextUrl.origin, code);
+    } catch (error) {
+      console.error("Failed to link account:", error);
+      dashboard.searchParams.set(
+        "linkError",
+        error instanceof Error ? error.message : "Failed to link account"
+      );
+    }
+  }
+
+  const response = NextResponse.redirect(dashboard);
+  response.cookies.delete({ name: LINK_STATE_COOKIE, path: "/api/accounts/link" });
+  return response;
+}
@@ -0,0 +1,25 @@
+import { randomBytes } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { buildLinkUrl, LINK_STATE_COOKIE } from "@/lib/accounts";
+import { auth } from "@/lib/auth";
+
+// GET - Start linking another Google account: off to Google's consent screen
+export async function GET(request: NextRequest) {
+  const session = await auth();
+
+  if (!session?.user?.email) {
+    return NextResponse.redirect(new URL("/login", request.url));
+  }
+
+  const state = randomBytes(16).toString("hex");
+  const response = NextResponse.redirect(buildLinkUrl(request.nextUrl.origin, state));
+  response.cookies.set(LINK_STATE_COOKIE, state, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: request.nextUrl.protocol === "https:",
+    path: "/api/accounts/link",
+    maxAge: 10 * 60,
+  });
+
+  return response;
+}
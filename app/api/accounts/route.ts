@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { listLinkedAccounts } from "@/lib/accounts";
+import { auth } from "@/lib/auth";
+
+// GET - Google accounts linked to the signed-in user, primary first
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const accounts = await listLinkedAccounts(session.user.email);
+    return NextResponse.json({ accounts });
+  } catch (error) {
+    console.error("Failed to get accounts:", error);
+    return NextResponse.json(
+      { error: "Failed to get accounts" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { readJsonBody } from "@/lib/api-errors";
+import { auth } from "@/lib/auth";
+import { draftOutOfOffice, getErrorMessage } from "@/lib/gemini";
+import { NextRequest, NextResponse } from "next/server";
+
+export async function POST(request: NextRequest) {
+  const session = await auth();
+
+  if (!session?.accessToken) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = await readJsonBody<{
+      prompt?: string;
+      start?: string;
+      end?: string;
+    }>(request);
+    if (!body) {
+      return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+    }
+    const { prompt, start, end } = body;
+
+    if (!prompt?.trim()) {
+      return NextResponse.json({ error: "Describe the message you want" }, { status: 400 });
+    }
+
+    const draft = await draftOutOfOffice(prompt.trim(), {
+      start,
+      end,
+      senderName: session.user?.name || undefined,
+    });
+    return NextResponse.json({ draft });
+  } catch (error) {
+    console.error("AI draft error:", error);
+    return NextResponse.json(
+      {
+        error: getErrorMessage(error),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/db";
+import { publishMailboxEvent } from "@/lib/events";
 import { classifyEmailsBatch, getErrorMessage, type EmailForAI } from "@/lib/gemini";
 
 // GET - Get classifications for email IDs
@@ -41,6 +42,9 @@ export async function GET(request: Request) {
   }
 }
 
+// An email to classify, with the account it belongs to (the primary if omitted)
+type ClassifyEmail = EmailForAI & { accountId?: string };
+
 // POST - Batch classify emails via AI
 export async function POST(request: Request) {
   try {
@@ -50,7 +54,7 @@ export async function POST(request: Request) {
     }
 
     const { emails, existingEmailIds } = (await request.json()) as {
-      emails: EmailForAI[];
+      emails: ClassifyEmail[];
       existingEmailIds?: string[];
     };
 
@@ -83,17 +87,24 @@ export async function POST(request: Request) {
 
     // Classify new emails with AI
     const results = await classifyEmailsBatch(newEmails, existingEmailIds);
+    const userId = session.user.email;
+    const accountIds = new Map(newEmails.map((e) => [e.id, e.accountId || userId]));
 
     // Save to database
     const savedClassifications = await Promise.all(
       results.map((result) =>
         prisma.emailClassification.upsert({
           where: {
-            emailId: result.id,
+            userId_accountId_emailId: {
+              userId,
+              accountId: accountIds.get(result.id) || userId,
+              emailId: result.id,
+            },
           },
           create: {
             emailId: result.id,
-            userId: session.user!.email!,
+            userId,
+            accountId: accountIds.get(result.id) || userId,
             category: result.category,
             priority: result.priority,
             isRedundant: result.isRedundant,
@@ -114,6 +125,12 @@ export async function POST(request: Request) {
       )
     );
 
+    // Share the new results with the user's other open tabs
+    publishMailboxEvent(session.user.email, {
+      type: "classifications",
+      classifications: Object.fromEntries(savedClassifications.map((c) => [c.emailId, c])),
+    });
+
     // Combine with existing classifications
     const allClassifications = [...existingClassifications, ...savedClassifications];
     const classificationMap: Record<string, typeof allClassifications[0]> = {};
@@ -139,8 +156,9 @@ export async function PUT(request: Request) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    const { emailId, category, priority } = (await request.json()) as {
+    const { emailId, accountId, category, priority } = (await request.json()) as {
       emailId: string;
+      accountId?: string;
       category?: string;
       priority?: string;
     };
@@ -149,11 +167,15 @@ export async function PUT(request: Request) {
       return NextResponse.json({ error: "Missing email ID" }, { status: 400 });
     }
 
+    const userId = session.user.email;
     const classification = await prisma.emailClassification.upsert({
-      where: { emailId },
+      where: {
+        userId_accountId_emailId: { userId, accountId: accountId || userId, emailId },
+      },
       create: {
         emailId,
-        userId: session.user.email,
+        userId,
+        accountId: accountId || userId,
         category: category || "other",
         priority: priority || "medium",
         isManual: true,
@@ -165,6 +187,11 @@ export async function PUT(request: Request) {
       },
     });
 
+    publishMailboxEvent(session.user.email, {
+      type: "classifications",
+      classifications: { [emailId]: classification },
+    });
+
     return NextResponse.json({ classification });
   } catch (error) {
     console.error("Failed to update classification:", error);
@@ -1,10 +1,14 @@
 import { NextResponse } from "next/server";
+import { getAccount } from "@/lib/accounts";
+import { gmailErrorResponse, readJsonBody } from "@/lib/api-errors";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/db";
+import { isImportedMessageId } from "@/lib/mailbox";
+import { pushEmailTag } from "@/lib/tags";
 
-// GET - Get tags for email
+// GET - Get tags for email (in ?accountId=, the primary account by default)
 export async function GET(
-  _request: Request,
+  request: Request,
   { params }: { params: Promise<{ emailId: string }> }
 ) {
   try {
@@ -14,9 +18,11 @@ export async function GET(
     }
 
     const { emailId } = await params;
+    const accountId =
+      new URL(request.url).searchParams.get("accountId") || session.user.email;
 
     const emailTags = await prisma.emailTag.findMany({
-      where: { emailId },
+      where: { emailId, accountId },
     });
 
     // Get the actual tag details
@@ -50,7 +56,11 @@ export async function POST(
     }
 
     const { emailId } = await params;
-    const { tagId } = (await request.json()) as { tagId: string };
+    const body = await readJsonBody<{ tagId?: string }>(request);
+    if (!body) {
+      return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+    }
+    const { tagId } = body;
 
     if (!tagId) {
       return NextResponse.json({ error: "Tag ID required" }, { status: 400 });
@@ -77,17 +87,24 @@ export async function POST(
       return NextResponse.json({ emailTag: existing });
     }
 
+    // Label the message in Gmail first when the tag is synced. Imported mail
+    // isn't in Gmail, so its tags stay local.
+    if (tag.syncToGmail && !isImportedMessageId(emailId)) {
+      const account = await getAccount(session, tag.accountId);
+      if (!account) {
+        return NextResponse.json({ error: "Account not linked" }, { status: 404 });
+      }
+      await pushEmailTag(account.accessToken, tag, emailId, true);
+    }
+
     const emailTag = await prisma.emailTag.create({
-      data: { emailId, tagId },
+      data: { emailId, tagId, accountId: tag.accountId },
     });
 
     return NextResponse.json({ emailTag }, { status: 201 });
   } catch (error) {
     console.error("Failed to add tag to email:", error);
-    return NextResponse.json(
-      { error: "Failed to add tag to email" },
-      { status: 500 }
-    );
+    return gmailErrorResponse(error, "Failed to add tag to email");
   }
 }
 
@@ -122,6 +139,14 @@ export async function DELETE(
       return NextResponse.json({ error: "Tag not found" }, { status: 404 });
     }
 
+    if (tag.syncToGmail && !isImportedMessageId(emailId)) {
+      const account = await getAccount(session, tag.accountId);
+      if (!account) {
+        return NextResponse.json({ error: "Account not linked" }, { status: 404 });
+      }
+      await pushEmailTag(account.accessToken, tag, emailId, false);
+    }
+
     await prisma.emailTag.deleteMany({
       where: { emailId, tagId },
     });
@@ -129,9 +154,6 @@ export async function DELETE(
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("Failed to remove tag from email:", error);
-    return NextResponse.json(
-      { error: "Failed to remove tag from email" },
-      { status: 500 }
-    );
+    return gmailErrorResponse(error, "Failed to remove tag from email");
   }
 }
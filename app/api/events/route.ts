@@ -0,0 +1,92 @@
+import { getAllAccounts } from "@/lib/accounts";
+import { auth } from "@/lib/auth";
+import { subscribeToMailbox } from "@/lib/events";
+import { syncMailbox } from "@/lib/mailbox";
+import { NextRequest, NextResponse } from "next/server";
+
+// Comment lines stop proxies from closing a quiet stream
+const HEARTBEAT_INTERVAL_MS = 25000;
+// Without push notifications, check Gmail this often while a tab is connected
+const SYNC_INTERVAL_MS = 30000;
+// Streams are closed after a while; EventSource reconnects with a fresh session
+const STREAM_MAX_AGE_MS = 10 * 60 * 1000;
+
+// GET - Server-Sent Events stream of mailbox changes for the signed-in user,
+// across all of their accounts. Each message is one JSON-encoded MailboxEvent.
+export async function GET(request: NextRequest) {
+  const session = await auth();
+
+  if (!session?.accessToken || !session.user?.email) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const userId = session.user.email;
+  // Tokens outlive the stream, so they are looked up once per connection
+  const accounts = process.env.GMAIL_PUBSUB_TOPIC ? [] : await getAllAccounts(session);
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+
+      const send = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+
+      const unsubscribe = subscribeToMailbox(userId, (event) => {
+        send(`data: ${JSON.stringify(event)}\n\n`);
+      });
+
+      const heartbeat = setInterval(() => send(": keep-alive\n\n"), HEARTBEAT_INTERVAL_MS);
+
+      // With a Pub/Sub topic configured, push notifications drive the syncs
+      const sync = process.env.GMAIL_PUBSUB_TOPIC
+        ? null
+        : setInterval(() => {
+            for (const account of accounts) {
+              syncMailbox(account.accessToken, account).catch((error) =>
+                console.error("Mailbox sync error:", error)
+              );
+            }
+          }, SYNC_INTERVAL_MS);
+
+      const maxAge = setTimeout(() => cleanup(), STREAM_MAX_AGE_MS);
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        unsubscribe();
+        clearInterval(heartbeat);
+        if (sync) clearInterval(sync);
+        clearTimeout(maxAge);
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      };
+
+      request.signal.addEventListener("abort", () => cleanup());
+
+      // How long the browser waits before reconnecting
+      send("retry: 3000\n\n");
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -11,7 +11,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { responseType, responseData, context, rating, issue } = body;
+    const { responseType, responseData, context, rating, issue, accountId } = body;
 
     // Validate required fields
     if (!responseType || !responseData || !rating) {
@@ -32,6 +32,7 @@ export async function POST(request: NextRequest) {
     const feedback = await prisma.aIFeedback.create({
       data: {
         userId: session.user.email,
+        accountId: accountId || null,
         responseType,
         responseData: JSON.stringify(responseData),
         context: context || null,
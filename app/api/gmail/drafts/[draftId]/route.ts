@@ -0,0 +1,104 @@
+import { getRequestAccount } from "@/lib/accounts";
+import { gmailErrorResponse, readJsonBody } from "@/lib/api-errors";
+import { auth } from "@/lib/auth";
+import {
+  getDraft,
+  updateDraft,
+  deleteDraft,
+  composeRequestToMessage,
+  type ComposeRequest,
+} from "@/lib/gmail";
+import { NextRequest, NextResponse } from "next/server";
+
+// GET - Load a draft to continue editing it
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ draftId: string }> }
+) {
+  const session = await auth();
+
+  if (!session?.accessToken) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { draftId } = await params;
+
+  try {
+    const account = await getRequestAccount(session, request);
+    if (!account) {
+      return NextResponse.json({ error: "Account not linked" }, { status: 404 });
+    }
+
+    const data = await getDraft(account.accessToken, draftId);
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error("Gmail API error:", error);
+    return gmailErrorResponse(error, "Failed to fetch draft");
+  }
+}
+
+// PUT - Replace the draft's contents (autosave)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ draftId: string }> }
+) {
+  const session = await auth();
+
+  if (!session?.accessToken) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { draftId } = await params;
+  const body = await readJsonBody<ComposeRequest>(request);
+  if (!body) {
+    return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+  }
+
+  try {
+    const account = await getRequestAccount(session, request);
+    if (!account) {
+      return NextResponse.json({ error: "Account not linked" }, { status: 404 });
+    }
+
+    const message = await composeRequestToMessage(account.accessToken, body);
+    const draft = await updateDraft(account.accessToken, draftId, message);
+
+    // Carried-over attachments now live in the draft's new message; read
+    // back where Gmail put them
+    const attachments = body.forwardedAttachments?.length
+      ? (await getDraft(account.accessToken, draft.id)).message.attachments
+      : undefined;
+
+    return NextResponse.json({ id: draft.id, messageId: draft.message.id, attachments });
+  } catch (error) {
+    console.error("Gmail API error:", error);
+    return gmailErrorResponse(error, "Failed to save draft");
+  }
+}
+
+// DELETE - Discard a draft
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ draftId: string }> }
+) {
+  const session = await auth();
+
+  if (!session?.accessToken) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { draftId } = await params;
+
+  try {
+    const account = await getRequestAccount(session, request);
+    if (!account) {
+      return NextResponse.json({ error: "Account not linked" }, { status: 404 });
+    }
+
+    await deleteDraft(account.accessToken, draftId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Gmail API error:", error);
+    return gmailErrorResponse(error, "Failed to delete draft");
+  }
+}
@@ -0,0 +1,37 @@
+import { getRequestAccount } from "@/lib/accounts";
+import { gmailErrorResponse } from "@/lib/api-errors";
+import { auth } from "@/lib/auth";
+import { queueSend, undoSendTime } from "@/lib/scheduled-send";
+import { NextRequest, NextResponse } from "next/server";
+
+// POST - Send a saved draft as-is once the default undo window has passed,
+// the same as queuing it through /api/gmail/scheduled without a sendAt
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ draftId: string }> }
+) {
+  const session = await auth();
+
+  if (!session?.accessToken) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { draftId } = await params;
+
+  try {
+    const account = await getRequestAccount(session, request);
+    if (!account) {
+      return NextResponse.json({ error: "Account not linked" }, { status: 404 });
+    }
+
+    const result = await queueSend(account.accessToken, account, draftId, undoSendTime());
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json({ scheduled: result.scheduled }, { status: 201 });
+  } catch (error) {
+    console.error("Gmail API error:", error);
+    return gmailErrorResponse(error, "Failed to send draft");
+  }
+}
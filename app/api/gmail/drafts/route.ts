@@ -0,0 +1,82 @@
+import { getRequestAccount, getRequestAccounts, listAcrossAccounts } from "@/lib/accounts";
+import { gmailErrorResponse, readJsonBody } from "@/lib/api-errors";
+import { auth } from "@/lib/auth";
+import {
+  listDrafts,
+  createDraft,
+  getDraft,
+  composeRequestToMessage,
+  type ComposeRequest,
+} from "@/lib/gmail";
+import { withoutQueued } from "@/lib/scheduled-send";
+import { NextRequest, NextResponse } from "next/server";
+
+// GET - List drafts in the same shape as /api/gmail/messages, from one
+// account (?accountId=) or all of them
+export async function GET(request: NextRequest) {
+  const session = await auth();
+
+  if (!session?.accessToken) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const query = searchParams.get("q") || undefined;
+  const maxResults = parseInt(searchParams.get("maxResults") || "50", 10);
+  const pageToken = searchParams.get("pageToken") || undefined;
+
+  try {
+    const accounts = await getRequestAccounts(session, request);
+    if (!accounts) {
+      return NextResponse.json({ error: "Account not linked" }, { status: 404 });
+    }
+
+    const data = await listAcrossAccounts(accounts, pageToken, async (account, token) => {
+      const page = await listDrafts(account.accessToken, query, maxResults, token);
+      return { ...page, messages: await withoutQueued(account, page.messages) };
+    });
+
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error("Gmail API error:", error);
+    return gmailErrorResponse(error, "Failed to fetch drafts");
+  }
+}
+
+// POST - Create a draft (first autosave of a compose session)
+export async function POST(request: NextRequest) {
+  const session = await auth();
+
+  if (!session?.accessToken) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await readJsonBody<ComposeRequest>(request);
+  if (!body) {
+    return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+  }
+
+  try {
+    const account = await getRequestAccount(session, request);
+    if (!account) {
+      return NextResponse.json({ error: "Account not linked" }, { status: 404 });
+    }
+
+    const message = await composeRequestToMessage(account.accessToken, body);
+    const draft = await createDraft(account.accessToken, message);
+
+    // Carried-over attachments now live in the draft's message; read back
+    // where Gmail put them
+    const attachments = body.forwardedAttachments?.length
+      ? (await getDraft(account.accessToken, draft.id)).message.attachments
+      : undefined;
+
+    return NextResponse.json(
+      { id: draft.id, messageId: draft.message.id, attachments },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Gmail API error:", error);
+    return gmailErrorResponse(error, "Failed to save draft");
+  }
+}
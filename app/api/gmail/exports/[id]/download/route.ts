@@ -0,0 +1,43 @@
+import { createReadStream } from "fs";
+import { Readable } from "stream";
+import { auth } from "@/lib/auth";
+import { exportFileName, getExportFile } from "@/lib/mbox";
+import { NextRequest, NextResponse } from "next/server";
+
+// GET - Download a finished export. The file is streamed from disk, as
+// exports of a whole category can run to gigabytes.
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const file = await getExportFile(session.user.email, id);
+
+    if (!file) {
+      return NextResponse.json({ error: "Export not found or expired" }, { status: 404 });
+    }
+
+    const filename = exportFileName(file.export);
+    return new NextResponse(
+      Readable.toWeb(createReadStream(file.path)) as ReadableStream<Uint8Array>,
+      {
+        headers: {
+          "Content-Type": "application/mbox",
+          "Content-Length": String(file.size),
+          "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(filename)}`,
+          "Cache-Control": "private, no-store",
+        },
+      }
+    );
+  } catch (error) {
+    console.error("Error downloading export:", error);
+    return NextResponse.json({ error: "Failed to download export" }, { status: 500 });
+  }
+}
@@ -0,0 +1,29 @@
+import { auth } from "@/lib/auth";
+import { deleteExport } from "@/lib/mbox";
+import { NextRequest, NextResponse } from "next/server";
+
+// DELETE - Cancel an export, or delete its file once done
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const deleted = await deleteExport(session.user.email, id);
+
+    if (!deleted) {
+      return NextResponse.json({ error: "Export not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting export:", error);
+    return NextResponse.json({ error: "Failed to delete export" }, { status: 500 });
+  }
+}
@@ -0,0 +1,66 @@
+import { getRequestAccount } from "@/lib/accounts";
+import { readJsonBody } from "@/lib/api-errors";
+import { auth } from "@/lib/auth";
+import { createExport, listExports } from "@/lib/mbox";
+import { NextRequest, NextResponse } from "next/server";
+
+// GET - Exports queued, running and ready to download, for progress
+export async function GET() {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const exports = await listExports(session.user.email);
+    return NextResponse.json({ exports });
+  } catch (error) {
+    console.error("Error fetching exports:", error);
+    return NextResponse.json({ error: "Failed to fetch exports" }, { status: 500 });
+  }
+}
+
+// POST - Export the messages matching a Gmail query, category and/or tag
+// to an mbox file. Runs in the background; poll GET for progress.
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.accessToken || !session.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await readJsonBody<{
+      query?: string;
+      category?: string;
+      tag?: string;
+    }>(request);
+    if (!body) {
+      return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+    }
+    const selection = {
+      query: body.query?.trim() || undefined,
+      category: body.category?.trim().toLowerCase() || undefined,
+      tag: body.tag?.trim().toLowerCase() || undefined,
+    };
+
+    if (!selection.query && !selection.category && !selection.tag) {
+      return NextResponse.json(
+        { error: "Choose a search, category or tag to export" },
+        { status: 400 }
+      );
+    }
+
+    const account = await getRequestAccount(session, request);
+    if (!account) {
+      return NextResponse.json({ error: "Account not linked" }, { status: 404 });
+    }
+
+    const created = await createExport(account, selection);
+    return NextResponse.json({ export: created }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating export:", error);
+    return NextResponse.json({ error: "Failed to start export" }, { status: 500 });
+  }
+}
@@ -0,0 +1,37 @@
+import { getRequestAccount } from "@/lib/accounts";
+import { gmailErrorResponse } from "@/lib/api-errors";
+import { auth } from "@/lib/auth";
+import { deleteDashboardFilter } from "@/lib/filters";
+import { NextRequest, NextResponse } from "next/server";
+
+// DELETE - Remove a dashboard-created filter from Gmail
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await auth();
+
+  if (!session?.accessToken || !session.user?.email) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+
+  try {
+    const account = await getRequestAccount(session, request);
+    if (!account) {
+      return NextResponse.json({ error: "Account not linked" }, { status: 404 });
+    }
+
+    const deleted = await deleteDashboardFilter(account.accessToken, account, id);
+
+    if (!deleted) {
+      return NextResponse.json({ error: "Filter not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Gmail API error:", error);
+    return gmailErrorResponse(error, "Failed to delete filter");
+  }
+}
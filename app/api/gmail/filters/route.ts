@@ -0,0 +1,88 @@
+import { getRequestAccount } from "@/lib/accounts";
+import { gmailErrorResponse, readJsonBody } from "@/lib/api-errors";
+import { auth } from "@/lib/auth";
+import { createDashboardFilter, listDashboardFilters } from "@/lib/filters";
+import { isFilterAction } from "@/lib/gmail";
+import { NextRequest, NextResponse } from "next/server";
+
+// GET - Gmail filters created from the dashboard for an account
+export async function GET(request: NextRequest) {
+  const session = await auth();
+
+  if (!session?.accessToken || !session.user?.email) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const account = await getRequestAccount(session, request);
+    if (!account) {
+      return NextResponse.json({ error: "Account not linked" }, { status: 404 });
+    }
+
+    const filters = await listDashboardFilters(account.accessToken, account);
+
+    return NextResponse.json({
+      filters: filters.map((filter) => ({
+        ...filter,
+        actions: JSON.parse(filter.actions),
+      })),
+    });
+  } catch (error) {
+    console.error("Gmail API error:", error);
+    return gmailErrorResponse(error, "Failed to fetch filters");
+  }
+}
+
+// POST - Create a Gmail filter from a suggested search
+export async function POST(request: NextRequest) {
+  const session = await auth();
+
+  if (!session?.accessToken || !session.user?.email) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await readJsonBody<{
+    name?: string;
+    query?: string;
+    actions?: unknown[];
+    labelName?: string;
+  }>(request);
+  if (!body) {
+    return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+  }
+  const { name, query, actions, labelName } = body;
+
+  if (!query?.trim()) {
+    return NextResponse.json({ error: "A search query is required" }, { status: 400 });
+  }
+
+  if (!Array.isArray(actions) || actions.length === 0 || !actions.every(isFilterAction)) {
+    return NextResponse.json({ error: "Choose at least one valid action" }, { status: 400 });
+  }
+
+  if (actions.includes("label") && !labelName?.trim()) {
+    return NextResponse.json({ error: "A label name is required" }, { status: 400 });
+  }
+
+  try {
+    const account = await getRequestAccount(session, request);
+    if (!account) {
+      return NextResponse.json({ error: "Account not linked" }, { status: 404 });
+    }
+
+    const filter = await createDashboardFilter(account.accessToken, account, {
+      name: name?.trim() || query.trim(),
+      query: query.trim(),
+      actions,
+      labelName,
+    });
+
+    return NextResponse.json(
+      { filter: { ...filter, actions: JSON.parse(filter.actions) } },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Gmail API error:", error);
+    return gmailErrorResponse(error, "Failed to create filter");
+  }
+}
@@ -0,0 +1,43 @@
+import { getRequestAccount } from "@/lib/accounts";
+import { auth } from "@/lib/auth";
+import { MAX_IMPORT_BYTES, MboxImportError, importMbox } from "@/lib/mbox";
+import { NextRequest, NextResponse } from "next/server";
+
+// POST - Import an mbox file, sent as the raw request body, into the local
+// mirror. Imported messages are listed under in:imported.
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.accessToken || !session.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!request.body) {
+      return NextResponse.json({ error: "No file provided" }, { status: 400 });
+    }
+
+    // Checked again while reading, for uploads that don't declare a length
+    if (Number(request.headers.get("content-length")) > MAX_IMPORT_BYTES) {
+      return NextResponse.json({ error: "The file is too large to import" }, { status: 413 });
+    }
+
+    const account = await getRequestAccount(session, request);
+    if (!account) {
+      return NextResponse.json({ error: "Account not linked" }, { status: 404 });
+    }
+
+    const result = await importMbox(account, request.body);
+    if (result.imported === 0) {
+      return NextResponse.json({ error: "No messages found in this file" }, { status: 400 });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof MboxImportError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Error importing mailbox:", error);
+    return NextResponse.json({ error: "Failed to import mailbox" }, { status: 500 });
+  }
+}
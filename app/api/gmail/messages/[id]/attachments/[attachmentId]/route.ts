@@ -0,0 +1,108 @@
+import { getRequestAccount } from "@/lib/accounts";
+import { gmailErrorResponse } from "@/lib/api-errors";
+import { auth } from "@/lib/auth";
+import { getAttachment, getAttachmentData } from "@/lib/gmail";
+import { isGmailApiError } from "@/lib/gmail-client";
+import { NextRequest, NextResponse } from "next/server";
+
+// Types we are willing to render in the browser. Everything else (including
+// SVG and HTML, which can run script) is always served as a download.
+const INLINE_MIME_TYPES = [
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+  "application/pdf",
+];
+
+// A type from the query string must look like one before it becomes a
+// response header
+const MIME_TYPE = /^[\w.+-]+\/[\w.+-]+$/;
+
+// Base64 characters decoded per stream chunk - a multiple of 4 so chunks
+// never split a base64 quantum
+const CHUNK_SIZE = 64 * 1024;
+
+// GET - An attachment's contents. Gmail returns the whole attachment in one
+// response, so it is buffered here and sent on in chunks.
+// Query: ?partId=<partId>&type=<mimeType>&name=<filename>&inline=1
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; attachmentId: string }> }
+) {
+  const session = await auth();
+
+  if (!session?.accessToken) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id, attachmentId } = await params;
+  const searchParams = request.nextUrl.searchParams;
+  const partId = searchParams.get("partId") || undefined;
+  const mimeType = searchParams.get("type");
+  const filename = searchParams.get("name");
+  const wantsInline = searchParams.get("inline") === "1";
+
+  try {
+    const account = await getRequestAccount(session, request);
+    if (!account) {
+      return NextResponse.json({ error: "Account not linked" }, { status: 404 });
+    }
+
+    // With the name and type from the message already loaded, the data is
+    // fetched by ID alone. Gmail reissues attachment IDs, so one that no
+    // longer works falls back to looking the part up on the message.
+    let result: {
+      attachment: { mimeType: string; filename: string };
+      data: string;
+    } | null = null;
+    if (mimeType && MIME_TYPE.test(mimeType) && filename && !attachmentId.startsWith("part-")) {
+      try {
+        const data = await getAttachmentData(account.accessToken, id, attachmentId);
+        result = { attachment: { mimeType, filename }, data };
+      } catch (error) {
+        if (!isGmailApiError(error, "not_found") && !isGmailApiError(error, "invalid_request")) {
+          throw error;
+        }
+      }
+    }
+
+    result ??= await getAttachment(account.accessToken, id, attachmentId, partId);
+
+    if (!result) {
+      return NextResponse.json(
+        { error: "Attachment not found" },
+        { status: 404 }
+      );
+    }
+
+    const { attachment, data } = result;
+    const base64 = data.replace(/-/g, "+").replace(/_/g, "/");
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (let i = 0; i < base64.length; i += CHUNK_SIZE) {
+          controller.enqueue(
+            new Uint8Array(Buffer.from(base64.slice(i, i + CHUNK_SIZE), "base64"))
+          );
+        }
+        controller.close();
+      },
+    });
+
+    const isInline =
+      wantsInline && INLINE_MIME_TYPES.includes(attachment.mimeType);
+
+    return new NextResponse(stream, {
+      headers: {
+        "Content-Type": attachment.mimeType,
+        "Content-Disposition": `${isInline ? "inline" : "attachment"}; filename*=UTF-8''${encodeURIComponent(attachment.filename)}`,
+        "X-Content-Type-Options": "nosniff",
+        "Cache-Control": "private, max-age=3600",
+      },
+    });
+  } catch (error) {
+    console.error("Gmail API error:", error);
+    return gmailErrorResponse(error, "Failed to fetch attachment");
+  }
+}
@@ -0,0 +1,51 @@
+import { getRequestAccount } from "@/lib/accounts";
+import { gmailErrorResponse } from "@/lib/api-errors";
+import { auth } from "@/lib/auth";
+import { getRawMessage } from "@/lib/gmail";
+import { decodeCharset, parseRawMessage } from "@/lib/mime";
+import { NextRequest, NextResponse } from "next/server";
+
+// GET - Download a message byte for byte as an .eml file, named after its
+// subject
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await auth();
+
+  if (!session?.accessToken) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+
+  try {
+    const account = await getRequestAccount(session, request);
+    if (!account) {
+      return NextResponse.json({ error: "Account not linked" }, { status: 404 });
+    }
+
+    const raw = await getRawMessage(account.accessToken, id);
+    const { headers } = parseRawMessage(decodeCharset(raw));
+    const subject = headers.find((h) => h.name.toLowerCase() === "subject")?.value;
+    // Keep the name safe for every file system
+    const name = (subject || id)
+      .replace(/[\\/:*?"<>|]+/g, "_")
+      .replace(/\s+/g, " ")
+      .trim()
+      .slice(0, 100);
+    const filename = `${name || id}.eml`;
+
+    return new NextResponse(new Uint8Array(raw), {
+      headers: {
+        "Content-Type": "message/rfc822",
+        "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(filename)}`,
+        "X-Content-Type-Options": "nosniff",
+        "Cache-Control": "private, max-age=3600",
+      },
+    });
+  } catch (error) {
+    console.error("Gmail API error:", error);
+    return gmailErrorResponse(error, "Failed to download message");
+  }
+}
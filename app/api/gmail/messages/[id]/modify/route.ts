@@ -0,0 +1,52 @@
+import { getRequestAccount } from "@/lib/accounts";
+import { gmailErrorResponse, readJsonBody } from "@/lib/api-errors";
+import { auth } from "@/lib/auth";
+import { modifyMessage } from "@/lib/gmail";
+import { NextRequest, NextResponse } from "next/server";
+
+// POST - Add/remove labels on a single message (read, unread, archive)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await auth();
+
+  if (!session?.accessToken) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const body = await readJsonBody<{
+    addLabelIds?: string[];
+    removeLabelIds?: string[];
+  }>(request);
+  if (!body) {
+    return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+  }
+  const { addLabelIds, removeLabelIds } = body;
+
+  if (!addLabelIds?.length && !removeLabelIds?.length) {
+    return NextResponse.json(
+      { error: "addLabelIds or removeLabelIds is required" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const account = await getRequestAccount(session, request);
+    if (!account) {
+      return NextResponse.json({ error: "Account not linked" }, { status: 404 });
+    }
+
+    const data = await modifyMessage(
+      account.accessToken,
+      id,
+      addLabelIds,
+      removeLabelIds
+    );
+    return NextResponse.json({ id: data.id, labelIds: data.labelIds || [] });
+  } catch (error) {
+    console.error("Gmail API error:", error);
+    return gmailErrorResponse(error, "Failed to modify email");
+  }
+}
@@ -0,0 +1,45 @@
+import { getRequestAccount } from "@/lib/accounts";
+import { gmailErrorResponse } from "@/lib/api-errors";
+import { auth } from "@/lib/auth";
+import { getRawMessage } from "@/lib/gmail";
+import { decodeCharset, parseRawMessage } from "@/lib/mime";
+import { NextRequest, NextResponse } from "next/server";
+
+// Characters of source sent to the "Show original" view. Bigger messages are
+// cut off there; the .eml download always has all of it.
+const MAX_SOURCE_LENGTH = 1024 * 1024;
+
+// GET - Every header and the raw MIME source of a message
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await auth();
+
+  if (!session?.accessToken) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+
+  try {
+    const account = await getRequestAccount(session, request);
+    if (!account) {
+      return NextResponse.json({ error: "Account not linked" }, { status: 404 });
+    }
+
+    const raw = await getRawMessage(account.accessToken, id);
+    const source = decodeCharset(raw);
+    const { headers } = parseRawMessage(source);
+
+    return NextResponse.json({
+      headers,
+      source: source.slice(0, MAX_SOURCE_LENGTH),
+      size: raw.length,
+      truncated: source.length > MAX_SOURCE_LENGTH,
+    });
+  } catch (error) {
+    console.error("Gmail API error:", error);
+    return gmailErrorResponse(error, "Failed to fetch original message");
+  }
+}
@@ -1,5 +1,10 @@
+import { getRequestAccount } from "@/lib/accounts";
+import { gmailErrorResponse } from "@/lib/api-errors";
 import { auth } from "@/lib/auth";
 import { getFullMessage } from "@/lib/gmail";
+import { isImportedMessageId } from "@/lib/mailbox";
+import { getImportedMessage } from "@/lib/mbox";
+import { withSenderWarnings } from "@/lib/vendors";
 import { NextRequest, NextResponse } from "next/server";
 
 export async function GET(
@@ -15,16 +20,25 @@ export async function GET(
   const { id } = await params;
 
   try {
-    const data = await getFullMessage(session.accessToken, id);
+    const account = await getRequestAccount(session, request);
+    if (!account) {
+      return NextResponse.json({ error: "Account not linked" }, { status: 404 });
+    }
+
+    // Imported mail only exists in the mirror
+    if (isImportedMessageId(id)) {
+      const imported = await getImportedMessage(account, id);
+      if (!imported) {
+        return NextResponse.json({ error: "Message not found" }, { status: 404 });
+      }
+      return NextResponse.json(imported);
+    }
+
+    const message = await getFullMessage(account.accessToken, id);
+    const [data] = await withSenderWarnings(account, [message]);
     return NextResponse.json(data);
   } catch (error) {
     console.error("Gmail API error:", error);
-    return NextResponse.json(
-      {
-        error:
-          error instanceof Error ? error.message : "Failed to fetch email",
-      },
-      { status: 500 }
-    );
+    return gmailErrorResponse(error, "Failed to fetch email");
   }
 }
@@ -0,0 +1,40 @@
+import { getRequestAccount } from "@/lib/accounts";
+import { gmailErrorResponse } from "@/lib/api-errors";
+import { auth } from "@/lib/auth";
+import { unsubscribeFromMessage } from "@/lib/unsubscribe";
+import { NextRequest, NextResponse } from "next/server";
+
+// POST - Unsubscribe from the mailing list a message came from
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await auth();
+
+  if (!session?.accessToken || !session.user?.email) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+
+  try {
+    const account = await getRequestAccount(session, request);
+    if (!account) {
+      return NextResponse.json({ error: "Account not linked" }, { status: 404 });
+    }
+
+    const unsubscription = await unsubscribeFromMessage(account.accessToken, account, id);
+
+    if (!unsubscription) {
+      return NextResponse.json(
+        { error: "This email can't be unsubscribed from automatically" },
+        { status: 422 }
+      );
+    }
+
+    return NextResponse.json({ unsubscription });
+  } catch (error) {
+    console.error("Gmail API error:", error);
+    return gmailErrorResponse(error, "Failed to unsubscribe");
+  }
+}
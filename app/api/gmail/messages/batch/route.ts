@@ -0,0 +1,54 @@
+import { getRequestAccount } from "@/lib/accounts";
+import { gmailErrorResponse, readJsonBody } from "@/lib/api-errors";
+import { auth } from "@/lib/auth";
+import { applyMessageAction, isMessageAction } from "@/lib/gmail";
+import { NextRequest, NextResponse } from "next/server";
+
+// Gmail's batchModify accepts at most 1000 IDs per call
+const MAX_BATCH_SIZE = 1000;
+
+// POST - Apply an action (read, unread, archive, trash, ...) to many messages
+export async function POST(request: NextRequest) {
+  const session = await auth();
+
+  if (!session?.accessToken) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await readJsonBody<{
+    ids?: string[];
+    action?: string;
+  }>(request);
+  if (!body) {
+    return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+  }
+  const { ids, action } = body;
+
+  if (!Array.isArray(ids) || ids.length === 0) {
+    return NextResponse.json({ error: "No email IDs provided" }, { status: 400 });
+  }
+
+  if (ids.length > MAX_BATCH_SIZE) {
+    return NextResponse.json(
+      { error: `At most ${MAX_BATCH_SIZE} emails can be updated at once` },
+      { status: 400 }
+    );
+  }
+
+  if (!isMessageAction(action)) {
+    return NextResponse.json({ error: "Invalid action" }, { status: 400 });
+  }
+
+  try {
+    const account = await getRequestAccount(session, request);
+    if (!account) {
+      return NextResponse.json({ error: "Account not linked" }, { status: 404 });
+    }
+
+    await applyMessageAction(account.accessToken, ids, action);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Gmail API error:", error);
+    return gmailErrorResponse(error, "Failed to update emails");
+  }
+}
@@ -1,7 +1,14 @@
+import { getRequestAccounts, listAcrossAccounts } from "@/lib/accounts";
+import { gmailErrorResponse } from "@/lib/api-errors";
 import { auth } from "@/lib/auth";
 import { getMessagesWithDetails } from "@/lib/gmail";
-import { NextRequest, NextResponse } from "next/server";
+import { hasMailboxMirror, listMirroredMessages, seedMailbox } from "@/lib/mailbox";
+import { ensureMailboxWatch } from "@/lib/push";
+import { withoutSnoozed } from "@/lib/snooze";
+import { after, NextRequest, NextResponse } from "next/server";
 
+// GET - One account's messages with ?accountId=, otherwise the unified
+// inbox across every linked account
 export async function GET(request: NextRequest) {
   const session = await auth();
 
@@ -15,21 +22,53 @@ export async function GET(request: NextRequest) {
   const pageToken = searchParams.get("pageToken") || undefined;
 
   try {
-    const data = await getMessagesWithDetails(
-      session.accessToken,
-      query,
-      maxResults,
-      pageToken
-    );
+    const accounts = await getRequestAccounts(session, request);
+    if (!accounts) {
+      return NextResponse.json({ error: "Account not linked" }, { status: 404 });
+    }
+
+    // Keep the push subscriptions alive while the user is active
+    if (!pageToken) {
+      after(() =>
+        Promise.all(
+          accounts.map((account) =>
+            ensureMailboxWatch(account.accessToken, account).catch((error) =>
+              console.error("Gmail watch error:", error)
+            )
+          )
+        )
+      );
+    }
+
+    const data = await listAcrossAccounts(accounts, pageToken, async (account, token) => {
+      const mirrored = await listMirroredMessages(
+        account.accessToken,
+        account,
+        query,
+        maxResults,
+        token
+      );
+      if (mirrored) {
+        return { ...mirrored, messages: await withoutSnoozed(account, mirrored.messages) };
+      }
+
+      const page = await getMessagesWithDetails(account.accessToken, query, maxResults, token);
+
+      // Cold start: answer from Gmail now and build the local mirror afterwards
+      if (!(await hasMailboxMirror(account))) {
+        after(() =>
+          seedMailbox(account.accessToken, account).catch((error) =>
+            console.error("Mailbox sync error:", error)
+          )
+        );
+      }
+
+      return { ...page, messages: await withoutSnoozed(account, page.messages) };
+    });
 
     return NextResponse.json(data);
   } catch (error) {
     console.error("Gmail API error:", error);
-    return NextResponse.json(
-      {
-        error: error instanceof Error ? error.message : "Failed to fetch emails",
-      },
-      { status: 500 }
-    );
+    return gmailErrorResponse(error, "Failed to fetch emails");
   }
 }
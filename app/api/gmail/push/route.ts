@@ -0,0 +1,34 @@
+import { handlePushNotification, parsePushNotification } from "@/lib/push";
+import { NextRequest, NextResponse } from "next/server";
+
+// POST - Gmail push notification from a Pub/Sub push subscription. The
+// subscription endpoint must carry the shared secret:
+// https://<host>/api/gmail/push?token=<GMAIL_PUSH_TOKEN>
+export async function POST(request: NextRequest) {
+  const expectedToken = process.env.GMAIL_PUSH_TOKEN;
+
+  if (!expectedToken || request.nextUrl.searchParams.get("token") !== expectedToken) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const notification = parsePushNotification(await request.json().catch(() => null));
+
+  if (!notification) {
+    return NextResponse.json({ error: "Invalid push payload" }, { status: 400 });
+  }
+
+  try {
+    // Unknown addresses are still acknowledged so Pub/Sub stops redelivering
+    await handlePushNotification(notification);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    // A 5xx makes Pub/Sub retry the delivery later
+    console.error("Gmail push error:", error);
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Failed to handle push notification",
+      },
+      { status: 500 }
+    );
+  }
+}
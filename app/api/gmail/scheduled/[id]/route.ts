@@ -0,0 +1,29 @@
+import { auth } from "@/lib/auth";
+import { cancelScheduledSend } from "@/lib/scheduled-send";
+import { NextRequest, NextResponse } from "next/server";
+
+// DELETE - Undo or cancel a send. The draft is kept for editing.
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const cancelled = await cancelScheduledSend(session.user.email, id);
+
+    if (!cancelled) {
+      return NextResponse.json({ error: "This email has already been sent" }, { status: 409 });
+    }
+
+    return NextResponse.json({ draftId: cancelled.draftId });
+  } catch (error) {
+    console.error("Error cancelling scheduled send:", error);
+    return NextResponse.json({ error: "Failed to cancel send" }, { status: 500 });
+  }
+}
@@ -0,0 +1,73 @@
+import { getRequestAccount } from "@/lib/accounts";
+import { gmailErrorResponse, readJsonBody } from "@/lib/api-errors";
+import { auth } from "@/lib/auth";
+import { listScheduledSends, queueSend, undoSendTime } from "@/lib/scheduled-send";
+import { NextRequest, NextResponse } from "next/server";
+
+// GET - Messages waiting to be sent
+export async function GET() {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const scheduled = await listScheduledSends(session.user.email);
+    return NextResponse.json({ scheduled });
+  } catch (error) {
+    console.error("Error fetching scheduled sends:", error);
+    return NextResponse.json({ error: "Failed to fetch scheduled sends" }, { status: 500 });
+  }
+}
+
+// POST - Queue a saved draft for sending. Without sendAt it goes out once
+// the undo window (undoSeconds) has passed.
+export async function POST(request: NextRequest) {
+  const session = await auth();
+
+  if (!session?.accessToken || !session.user?.email) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await readJsonBody<{
+    draftId?: string;
+    sendAt?: string;
+    undoSeconds?: number;
+  }>(request);
+  if (!body) {
+    return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+  }
+  const { draftId, sendAt, undoSeconds } = body;
+
+  if (!draftId) {
+    return NextResponse.json({ error: "draftId is required" }, { status: 400 });
+  }
+
+  let when: Date;
+  if (sendAt) {
+    when = new Date(sendAt);
+    if (isNaN(when.getTime()) || when.getTime() <= Date.now()) {
+      return NextResponse.json({ error: "Send time must be in the future" }, { status: 400 });
+    }
+  } else {
+    when = undoSendTime(undoSeconds);
+  }
+
+  try {
+    const account = await getRequestAccount(session, request);
+    if (!account) {
+      return NextResponse.json({ error: "Account not linked" }, { status: 404 });
+    }
+
+    const result = await queueSend(account.accessToken, account, draftId, when);
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json({ scheduled: result.scheduled }, { status: 201 });
+  } catch (error) {
+    console.error("Gmail API error:", error);
+    return gmailErrorResponse(error, "Failed to queue email");
+  }
+}
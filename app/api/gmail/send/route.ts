@@ -0,0 +1,59 @@
+import { getRequestAccount } from "@/lib/accounts";
+import { gmailErrorResponse, readJsonBody } from "@/lib/api-errors";
+import { auth } from "@/lib/auth";
+import {
+  createDraft,
+  composeRequestToMessage,
+  deleteDraft,
+  validateOutgoingMessage,
+  type ComposeRequest,
+} from "@/lib/gmail";
+import { queueSend, undoSendTime } from "@/lib/scheduled-send";
+import { NextRequest, NextResponse } from "next/server";
+
+// POST - Send a new email, reply or forward. Like everything sent from
+// here it is saved as a draft and queued, going out once the undo window
+// (undoSeconds) has passed; DELETE /api/gmail/scheduled/[id] takes it back.
+export async function POST(request: NextRequest) {
+  const session = await auth();
+
+  if (!session?.accessToken) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await readJsonBody<ComposeRequest & { undoSeconds?: number }>(request);
+  if (!body) {
+    return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+  }
+
+  try {
+    const account = await getRequestAccount(session, request);
+    if (!account) {
+      return NextResponse.json({ error: "Account not linked" }, { status: 404 });
+    }
+
+    const message = await composeRequestToMessage(account.accessToken, body);
+
+    const validationError = validateOutgoingMessage(message);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const draft = await createDraft(account.accessToken, message);
+    const result = await queueSend(
+      account.accessToken,
+      account,
+      draft.id,
+      undoSendTime(body.undoSeconds)
+    );
+    if ("error" in result) {
+      await deleteDraft(account.accessToken, draft.id);
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json({ scheduled: result.scheduled }, { status: 201 });
+  } catch (error) {
+    console.error("Gmail API error:", error);
+    return gmailErrorResponse(error, "Failed to send email");
+  }
+}
@@ -0,0 +1,64 @@
+import { getRequestAccount } from "@/lib/accounts";
+import { gmailErrorResponse, readJsonBody } from "@/lib/api-errors";
+import { auth } from "@/lib/auth";
+import { listSendAs, updateSignature } from "@/lib/gmail";
+import { NextRequest, NextResponse } from "next/server";
+
+// GET - The addresses the account sends as, with their signatures
+export async function GET(request: NextRequest) {
+  const session = await auth();
+
+  if (!session?.accessToken) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const account = await getRequestAccount(session, request);
+    if (!account) {
+      return NextResponse.json({ error: "Account not linked" }, { status: 404 });
+    }
+
+    const sendAs = await listSendAs(account.accessToken);
+
+    return NextResponse.json({ sendAs });
+  } catch (error) {
+    console.error("Gmail API error:", error);
+    return gmailErrorResponse(error, "Failed to fetch signatures");
+  }
+}
+
+// PUT - Set the signature for one of those addresses
+export async function PUT(request: NextRequest) {
+  const session = await auth();
+
+  if (!session?.accessToken) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await readJsonBody<{
+    sendAsEmail?: string;
+    signature?: string;
+  }>(request);
+  if (!body) {
+    return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+  }
+  const { sendAsEmail, signature } = body;
+
+  if (!sendAsEmail || typeof signature !== "string") {
+    return NextResponse.json({ error: "Address and signature required" }, { status: 400 });
+  }
+
+  try {
+    const account = await getRequestAccount(session, request);
+    if (!account) {
+      return NextResponse.json({ error: "Account not linked" }, { status: 404 });
+    }
+
+    const alias = await updateSignature(account.accessToken, sendAsEmail, signature);
+
+    return NextResponse.json({ sendAs: alias });
+  } catch (error) {
+    console.error("Gmail API error:", error);
+    return gmailErrorResponse(error, "Failed to update signature");
+  }
+}
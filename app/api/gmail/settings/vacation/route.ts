@@ -0,0 +1,91 @@
+import { getRequestAccount } from "@/lib/accounts";
+import { gmailErrorResponse, readJsonBody } from "@/lib/api-errors";
+import { auth } from "@/lib/auth";
+import { getVacationSettings, updateVacationSettings, type VacationSettings } from "@/lib/gmail";
+import { htmlToText } from "@/lib/mime";
+import { NextRequest, NextResponse } from "next/server";
+
+// GET - The account's vacation responder
+export async function GET(request: NextRequest) {
+  const session = await auth();
+
+  if (!session?.accessToken) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const account = await getRequestAccount(session, request);
+    if (!account) {
+      return NextResponse.json({ error: "Account not linked" }, { status: 404 });
+    }
+
+    const vacation = await getVacationSettings(account.accessToken);
+
+    return NextResponse.json({ vacation });
+  } catch (error) {
+    console.error("Gmail API error:", error);
+    return gmailErrorResponse(error, "Failed to fetch vacation responder");
+  }
+}
+
+// PUT - Turn the vacation responder on or off and set its message
+export async function PUT(request: NextRequest) {
+  const session = await auth();
+
+  if (!session?.accessToken) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await readJsonBody<Partial<VacationSettings>>(request);
+  if (!body) {
+    return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+  }
+
+  // Both forms are written, so a plain-text reply set in Gmail survives a
+  // save from here and clients without HTML get readable text
+  const responseBodyHtml = body.responseBodyHtml || "";
+  const responseBodyPlainText = responseBodyHtml
+    ? htmlToText(responseBodyHtml)
+    : body.responseBodyPlainText || "";
+  const startTime = body.startTime ? Number(body.startTime) : undefined;
+  const endTime = body.endTime ? Number(body.endTime) : undefined;
+
+  if (
+    (startTime !== undefined && !Number.isFinite(startTime)) ||
+    (endTime !== undefined && !Number.isFinite(endTime))
+  ) {
+    return NextResponse.json({ error: "Invalid start or end date" }, { status: 400 });
+  }
+
+  if (startTime !== undefined && endTime !== undefined && endTime <= startTime) {
+    return NextResponse.json({ error: "The end date must be after the start date" }, { status: 400 });
+  }
+
+  if (body.enableAutoReply && !body.responseSubject?.trim() && !responseBodyPlainText.trim()) {
+    return NextResponse.json({ error: "Add a subject or message" }, { status: 400 });
+  }
+
+  try {
+    const account = await getRequestAccount(session, request);
+    if (!account) {
+      return NextResponse.json({ error: "Account not linked" }, { status: 404 });
+    }
+
+    // Gmail replaces the whole setting, so anything left out is cleared
+    const vacation = await updateVacationSettings(account.accessToken, {
+      enableAutoReply: !!body.enableAutoReply,
+      responseSubject: body.responseSubject?.trim() || "",
+      responseBodyHtml,
+      responseBodyPlainText,
+      restrictToContacts: !!body.restrictToContacts,
+      restrictToDomain: !!body.restrictToDomain,
+      startTime: startTime?.toString(),
+      endTime: endTime?.toString(),
+    });
+
+    return NextResponse.json({ vacation });
+  } catch (error) {
+    console.error("Gmail API error:", error);
+    return gmailErrorResponse(error, "Failed to update vacation responder");
+  }
+}
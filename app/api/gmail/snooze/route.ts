@@ -0,0 +1,88 @@
+import { getRequestAccount, getRequestAccounts } from "@/lib/accounts";
+import { gmailErrorResponse, readJsonBody } from "@/lib/api-errors";
+import { auth } from "@/lib/auth";
+import { listSnoozedEmails, snoozeEmails } from "@/lib/snooze";
+import { NextRequest, NextResponse } from "next/server";
+
+// Snoozing archives through batchModify, which takes at most 1000 IDs
+const MAX_BATCH_SIZE = 1000;
+
+// GET - Snoozed emails from one account or all of them, soonest to wake first
+export async function GET(request: NextRequest) {
+  const session = await auth();
+
+  if (!session?.accessToken || !session.user?.email) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const accounts = await getRequestAccounts(session, request);
+    if (!accounts) {
+      return NextResponse.json({ error: "Account not linked" }, { status: 404 });
+    }
+
+    const lists = await Promise.all(
+      accounts.map(async (account) =>
+        (await listSnoozedEmails(account.accessToken, account)).map((email) => ({
+          ...email,
+          accountId: account.accountId,
+        }))
+      )
+    );
+    const messages = lists
+      .flat()
+      .sort((a, b) => Date.parse(a.snoozedUntil) - Date.parse(b.snoozedUntil));
+
+    return NextResponse.json({ messages });
+  } catch (error) {
+    console.error("Gmail API error:", error);
+    return gmailErrorResponse(error, "Failed to fetch snoozed emails");
+  }
+}
+
+// POST - Snooze emails until a given time
+export async function POST(request: NextRequest) {
+  const session = await auth();
+
+  if (!session?.accessToken || !session.user?.email) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await readJsonBody<{
+    ids?: string[];
+    until?: string;
+  }>(request);
+  if (!body) {
+    return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+  }
+  const { ids, until } = body;
+
+  if (!Array.isArray(ids) || ids.length === 0) {
+    return NextResponse.json({ error: "No email IDs provided" }, { status: 400 });
+  }
+
+  if (ids.length > MAX_BATCH_SIZE) {
+    return NextResponse.json(
+      { error: `At most ${MAX_BATCH_SIZE} emails can be snoozed at once` },
+      { status: 400 }
+    );
+  }
+
+  const wakeAt = new Date(until || "");
+  if (isNaN(wakeAt.getTime()) || wakeAt.getTime() <= Date.now()) {
+    return NextResponse.json({ error: "Snooze time must be in the future" }, { status: 400 });
+  }
+
+  try {
+    const account = await getRequestAccount(session, request);
+    if (!account) {
+      return NextResponse.json({ error: "Account not linked" }, { status: 404 });
+    }
+
+    await snoozeEmails(account.accessToken, account, ids, wakeAt);
+    return NextResponse.json({ ids, snoozedUntil: wakeAt.toISOString() });
+  } catch (error) {
+    console.error("Gmail API error:", error);
+    return gmailErrorResponse(error, "Failed to snooze emails");
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+
+// GET - Position of the local mailbox mirror. Cheap to poll: it only reads
+// the database, and moves on when push notifications bring in new history.
+// Defaults to the primary account.
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = session.user.email;
+    const accountId = request.nextUrl.searchParams.get("accountId") || userId;
+    const state = await prisma.mailboxSync.findUnique({
+      where: { userId_accountId: { userId, accountId } },
+    });
+
+    return NextResponse.json({
+      historyId: state?.historyId ?? null,
+      lastSyncedAt: state?.lastSyncedAt ?? null,
+    });
+  } catch (error) {
+    console.error("Failed to get sync state:", error);
+    return NextResponse.json(
+      { error: "Failed to get sync state" },
+      { status: 500 }
+    );
+  }
+}
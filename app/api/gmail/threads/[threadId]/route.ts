@@ -0,0 +1,46 @@
+import { getRequestAccount } from "@/lib/accounts";
+import { gmailErrorResponse } from "@/lib/api-errors";
+import { auth } from "@/lib/auth";
+import { getThread } from "@/lib/gmail";
+import { isImportedMessageId } from "@/lib/mailbox";
+import { getImportedMessage } from "@/lib/mbox";
+import { withSenderWarnings } from "@/lib/vendors";
+import { NextRequest, NextResponse } from "next/server";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ threadId: string }> }
+) {
+  const session = await auth();
+
+  if (!session?.accessToken) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { threadId } = await params;
+
+  try {
+    const account = await getRequestAccount(session, request);
+    if (!account) {
+      return NextResponse.json({ error: "Account not linked" }, { status: 404 });
+    }
+
+    // Imported mail only exists in the mirror, one message per thread
+    if (isImportedMessageId(threadId)) {
+      const imported = await getImportedMessage(account, threadId);
+      if (!imported) {
+        return NextResponse.json({ error: "Thread not found" }, { status: 404 });
+      }
+      return NextResponse.json({ id: threadId, messages: [imported] });
+    }
+
+    const thread = await getThread(account.accessToken, threadId);
+    return NextResponse.json({
+      ...thread,
+      messages: await withSenderWarnings(account, thread.messages),
+    });
+  } catch (error) {
+    console.error("Gmail API error:", error);
+    return gmailErrorResponse(error, "Failed to fetch thread");
+  }
+}
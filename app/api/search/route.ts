@@ -0,0 +1,81 @@
+import { getRequestAccounts } from "@/lib/accounts";
+import { auth } from "@/lib/auth";
+import type { FormattedEmail } from "@/lib/gmail";
+import { getMirroredMessages, hasMailboxMirror } from "@/lib/mailbox";
+import { parseSearchQuery, queueSearchIndexing, searchMailbox } from "@/lib/search";
+import { NextRequest, NextResponse } from "next/server";
+
+const MAX_RESULTS = 50;
+
+// GET - Ranked full-text search over the local mirror. Understands from:,
+// subject:, category: and tag:. Mail that isn't mirrored yet can only be
+// found through Gmail search (/api/gmail/messages?q=). Searches every
+// account unless ?accountId= names one.
+export async function GET(request: NextRequest) {
+  const session = await auth();
+
+  if (!session?.accessToken || !session.user?.email) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const userId = session.user.email;
+  const searchParams = request.nextUrl.searchParams;
+  const query = searchParams.get("q")?.trim() || "";
+  const limit = Math.min(
+    parseInt(searchParams.get("limit") || "20", 10) || 20,
+    MAX_RESULTS
+  );
+
+  try {
+    // Operators only Gmail understands, like is:unread, leave nothing to
+    // look up locally
+    const parsed = parseSearchQuery(query);
+    const isEmpty =
+      parsed.terms.length === 0 && parsed.categories.length === 0 && parsed.tags.length === 0;
+    const accounts = isEmpty ? [] : await getRequestAccounts(session, request);
+    if (!accounts) {
+      return NextResponse.json({ error: "Account not linked" }, { status: 404 });
+    }
+
+    const mirrored = [];
+    for (const account of accounts) {
+      if (!(await hasMailboxMirror(account))) continue;
+      // Pick up anything synced before indexing existed or while it failed
+      queueSearchIndexing(account.accessToken, account);
+      mirrored.push(account);
+    }
+    if (mirrored.length === 0) {
+      return NextResponse.json({ results: [] });
+    }
+
+    const hits = await searchMailbox(
+      userId,
+      mirrored.map((account) => account.accountId),
+      parsed,
+      limit
+    );
+
+    const emails = new Map<string, FormattedEmail>();
+    for (const account of mirrored) {
+      const ids = hits.filter((hit) => hit.accountId === account.accountId);
+      for (const email of await getMirroredMessages(account, ids.map((hit) => hit.messageId))) {
+        emails.set(`${account.accountId}:${email.id}`, email);
+      }
+    }
+
+    return NextResponse.json({
+      results: hits.flatMap((hit) => {
+        const email = emails.get(`${hit.accountId}:${hit.messageId}`);
+        return email ? [{ email, subject: hit.subject, snippet: hit.snippet }] : [];
+      }),
+    });
+  } catch (error) {
+    console.error("Search error:", error);
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Failed to search",
+      },
+      { status: 500 }
+    );
+  }
+}
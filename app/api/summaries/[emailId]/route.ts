@@ -2,7 +2,8 @@ import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/db";
 
-// GET - Retrieve saved summary for email
+// GET - Retrieve saved summary for email (in ?accountId=, the primary
+// account by default)
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ emailId: string }> }
@@ -14,9 +15,11 @@ export async function GET(
     }
 
     const { emailId } = await params;
+    const userId = session.user.email;
+    const accountId = request.nextUrl.searchParams.get("accountId") || userId;
 
     const summary = await prisma.emailSummary.findUnique({
-      where: { emailId },
+      where: { userId_accountId_emailId: { userId, accountId, emailId } },
     });
 
     if (!summary) {
@@ -57,11 +60,13 @@ export async function POST(
     }
 
     const { emailId } = await params;
+    const userId = session.user.email;
+    const accountId = request.nextUrl.searchParams.get("accountId") || userId;
     const body = await request.json();
     const { summary, keyPoints, actionItems, sentiment } = body;
 
     const savedSummary = await prisma.emailSummary.upsert({
-      where: { emailId },
+      where: { userId_accountId_emailId: { userId, accountId, emailId } },
       update: {
         summary,
         keyPoints: JSON.stringify(keyPoints),
@@ -70,7 +75,8 @@ export async function POST(
       },
       create: {
         emailId,
-        userId: session.user.email,
+        userId,
+        accountId,
         summary,
         keyPoints: JSON.stringify(keyPoints),
         actionItems: JSON.stringify(actionItems),
@@ -112,9 +118,11 @@ export async function DELETE(
     }
 
     const { emailId } = await params;
+    const userId = session.user.email;
+    const accountId = request.nextUrl.searchParams.get("accountId") || userId;
 
     await prisma.emailSummary.delete({
-      where: { emailId },
+      where: { userId_accountId_emailId: { userId, accountId, emailId } },
     });
 
     return NextResponse.json({ success: true });
@@ -1,6 +1,9 @@
 import { NextResponse } from "next/server";
+import { getAccount } from "@/lib/accounts";
+import { gmailErrorResponse, readJsonBody } from "@/lib/api-errors";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/db";
+import { linkTagToLabel, pushTagDelete, pushTagRename, unlinkTag } from "@/lib/tags";
 
 // PUT - Update tag
 export async function PUT(
@@ -14,10 +17,15 @@ export async function PUT(
     }
 
     const { id } = await params;
-    const { name, color } = (await request.json()) as {
+    const body = await readJsonBody<{
       name?: string;
       color?: string;
-    };
+      syncToGmail?: boolean;
+    }>(request);
+    if (!body) {
+      return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+    }
+    const { name, color, syncToGmail } = body;
 
     // Verify ownership
     const existing = await prisma.userTag.findFirst({
@@ -39,7 +47,43 @@ export async function PUT(
       );
     }
 
-    const tag = await prisma.userTag.update({
+    // Check for duplicate before anything is renamed in Gmail
+    if (name) {
+      const duplicate = await prisma.userTag.findFirst({
+        where: {
+          userId: session.user.email,
+          accountId: existing.accountId,
+          name: name.toLowerCase().trim(),
+          NOT: { id },
+        },
+      });
+
+      if (duplicate) {
+        return NextResponse.json(
+          { error: "A tag with this name already exists" },
+          { status: 409 }
+        );
+      }
+    }
+
+    // Synced tags need Gmail to go along with the change
+    const account =
+      existing.syncToGmail || syncToGmail ? await getAccount(session, existing.accountId) : null;
+    if ((existing.syncToGmail || syncToGmail) && !account) {
+      return NextResponse.json({ error: "Account not linked" }, { status: 404 });
+    }
+    const accessToken = account?.accessToken ?? "";
+
+    if (syncToGmail === false && existing.syncToGmail) {
+      await unlinkTag(existing);
+    }
+
+    // Renames reach Gmail first, so a failure leaves both sides unchanged
+    if (name && syncToGmail !== false) {
+      await pushTagRename(accessToken, existing, name.toLowerCase().trim());
+    }
+
+    let tag = await prisma.userTag.update({
       where: { id },
       data: {
         ...(name && { name: name.toLowerCase().trim() }),
@@ -47,13 +91,15 @@ export async function PUT(
       },
     });
 
+    if (syncToGmail && !tag.syncToGmail) {
+      tag = await linkTagToLabel(accessToken, tag);
+    }
+
     return NextResponse.json({ tag });
   } catch (error) {
+    // Synced tags fail with Gmail's own status, e.g. 429 or an expired grant
     console.error("Failed to update tag:", error);
-    return NextResponse.json(
-      { error: "Failed to update tag" },
-      { status: 500 }
-    );
+    return gmailErrorResponse(error, "Failed to update tag");
   }
 }
 
@@ -82,6 +128,15 @@ export async function DELETE(
       return NextResponse.json({ error: "Tag not found" }, { status: 404 });
     }
 
+    // Deleting a synced tag deletes its Gmail label too
+    if (existing.syncToGmail) {
+      const account = await getAccount(session, existing.accountId);
+      if (!account) {
+        return NextResponse.json({ error: "Account not linked" }, { status: 404 });
+      }
+      await pushTagDelete(account.accessToken, existing);
+    }
+
     // Delete associated email tags first
     await prisma.emailTag.deleteMany({
       where: { tagId: id },
@@ -95,9 +150,6 @@ export async function DELETE(
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("Failed to delete tag:", error);
-    return NextResponse.json(
-      { error: "Failed to delete tag" },
-      { status: 500 }
-    );
+    return gmailErrorResponse(error, "Failed to delete tag");
   }
 }
@@ -1,17 +1,36 @@
 import { NextResponse } from "next/server";
+import { getRequestAccount, getRequestAccounts } from "@/lib/accounts";
+import { gmailErrorResponse, readJsonBody } from "@/lib/api-errors";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/db";
+import { linkTagToLabel, reconcileTagLabels } from "@/lib/tags";
 
-// GET - List user's custom tags
-export async function GET() {
+// GET - List user's custom tags, for one account (?accountId=) or all of them
+export async function GET(request: Request) {
   try {
     const session = await auth();
     if (!session?.user?.email) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
+    const accounts = await getRequestAccounts(session, request);
+    if (!accounts) {
+      return NextResponse.json({ error: "Account not linked" }, { status: 404 });
+    }
+
+    // Pick up label renames and deletions made in Gmail. A Gmail outage
+    // shouldn't hide the tags, so failures are only logged.
+    for (const account of accounts) {
+      await reconcileTagLabels(account.accessToken, account).catch((error) =>
+        console.error("Failed to sync tags with Gmail labels:", error)
+      );
+    }
+
     const tags = await prisma.userTag.findMany({
-      where: { userId: session.user.email },
+      where: {
+        userId: session.user.email,
+        accountId: { in: accounts.map((account) => account.accountId) },
+      },
       orderBy: { name: "asc" },
     });
 
@@ -25,7 +44,7 @@ export async function GET() {
   }
 }
 
-// POST - Create new tag
+// POST - Create new tag in an account (?accountId=, the primary by default)
 export async function POST(request: Request) {
   try {
     const session = await auth();
@@ -33,10 +52,15 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    const { name, color } = (await request.json()) as {
-      name: string;
-      color: string;
-    };
+    const body = await readJsonBody<{
+      name?: string;
+      color?: string;
+      syncToGmail?: boolean;
+    }>(request);
+    if (!body) {
+      return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+    }
+    const { name, color, syncToGmail } = body;
 
     if (!name || !color) {
       return NextResponse.json(
@@ -53,10 +77,16 @@ export async function POST(request: Request) {
       );
     }
 
+    const account = await getRequestAccount(session, request);
+    if (!account) {
+      return NextResponse.json({ error: "Account not linked" }, { status: 404 });
+    }
+
     // Check for duplicate
     const existing = await prisma.userTag.findFirst({
       where: {
         userId: session.user.email,
+        accountId: account.accountId,
         name: name.toLowerCase().trim(),
       },
     });
@@ -68,20 +98,22 @@ export async function POST(request: Request) {
       );
     }
 
-    const tag = await prisma.userTag.create({
+    let tag = await prisma.userTag.create({
       data: {
         userId: session.user.email,
+        accountId: account.accountId,
         name: name.toLowerCase().trim(),
         color,
       },
     });
 
+    if (syncToGmail) {
+      tag = await linkTagToLabel(account.accessToken, tag);
+    }
+
     return NextResponse.json({ tag }, { status: 201 });
   } catch (error) {
     console.error("Failed to create tag:", error);
-    return NextResponse.json(
-      { error: "Failed to create tag" },
-      { status: 500 }
-    );
+    return gmailErrorResponse(error, "Failed to create tag");
   }
 }
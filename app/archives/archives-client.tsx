@@ -0,0 +1,379 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { format, startOfQuarter, subQuarters } from "date-fns";
+import { CLASSIFICATION_CATEGORIES } from "@/components/email";
+import { Button, Skeleton } from "@/components/ui";
+import { accountUrl, useUIStore } from "@/lib/stores";
+import { cn } from "@/lib/utils";
+
+interface MailboxExport {
+  id: string;
+  accountId: string;
+  query: string | null;
+  category: string | null;
+  tag: string | null;
+  status: "pending" | "running" | "done" | "failed";
+  total: number;
+  exported: number;
+  error: string | null;
+  createdAt: string;
+}
+
+// How often progress is refreshed while an export is under way
+const PROGRESS_POLL_MS = 2000;
+
+const inputClassName = cn(
+  "w-full h-9 px-3 rounded-lg text-sm",
+  "bg-background border border-border text-foreground placeholder:text-foreground-muted",
+  "focus:outline-none focus:ring-1 focus:ring-primary"
+);
+
+// Gmail search for the quarter before the current one
+function previousQuarterQuery(): string {
+  const end = startOfQuarter(new Date());
+  const start = subQuarters(end, 1);
+  return `after:${format(start, "yyyy/MM/dd")} before:${format(end, "yyyy/MM/dd")}`;
+}
+
+function describeExport(item: MailboxExport): string {
+  return (
+    [
+      item.category && `category:${item.category}`,
+      item.tag && `tag:${item.tag}`,
+      item.query,
+    ]
+      .filter(Boolean)
+      .join(" ") || "All mail"
+  );
+}
+
+export function ArchivesClient() {
+  const [exports, setExports] = useState<MailboxExport[]>([]);
+  const [tags, setTags] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [query, setQuery] = useState("");
+  const [category, setCategory] = useState("");
+  const [tag, setTag] = useState("");
+  const [isStarting, setIsStarting] = useState(false);
+
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importResult, setImportResult] = useState<string | null>(null);
+
+  // The account picked in the dashboard; the primary one for all inboxes
+  const { activeAccountId } = useUIStore();
+
+  const loadExports = useCallback(async () => {
+    const response = await fetch("/api/gmail/exports");
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to fetch exports");
+    }
+
+    setExports(data.exports);
+  }, []);
+
+  useEffect(() => {
+    loadExports()
+      .catch((err) => setError(err instanceof Error ? err.message : "Failed to fetch exports"))
+      .finally(() => setIsLoading(false));
+  }, [loadExports]);
+
+  useEffect(() => {
+    fetch(accountUrl("/api/tags", activeAccountId))
+      .then((response) => response.json())
+      .then((data) => {
+        const names = (data.tags || []).map((t: { name: string }) => t.name);
+        setTags([...new Set<string>(names)]);
+      })
+      .catch((err) => console.error("Failed to load tags:", err));
+  }, [activeAccountId]);
+
+  // Keep progress current while anything is queued or running
+  const inProgress = exports.some((e) => e.status === "pending" || e.status === "running");
+  useEffect(() => {
+    if (!inProgress) return;
+
+    const timer = setInterval(() => {
+      loadExports().catch((err) => console.error("Failed to refresh exports:", err));
+    }, PROGRESS_POLL_MS);
+    return () => clearInterval(timer);
+  }, [inProgress, loadExports]);
+
+  const handleExport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsStarting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(accountUrl("/api/gmail/exports", activeAccountId), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ query, category, tag }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to start export");
+      }
+
+      setExports((prev) => [data.export, ...prev]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to start export");
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/gmail/exports/${id}`, { method: "DELETE" });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to delete export");
+      }
+
+      setExports((prev) => prev.filter((e) => e.id !== id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete export");
+    }
+  };
+
+  const handleImport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!importFile) return;
+    const form = e.currentTarget as HTMLFormElement;
+
+    setIsImporting(true);
+    setImportResult(null);
+    setError(null);
+
+    try {
+      // Sent as the raw body so the server can read it as it arrives
+      const response = await fetch(accountUrl("/api/gmail/imports", activeAccountId), {
+        method: "POST",
+        headers: { "Content-Type": "application/mbox" },
+        body: importFile,
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to import mailbox");
+      }
+
+      setImportResult(
+        `Imported ${data.imported} message${data.imported === 1 ? "" : "s"}` +
+          (data.skipped ? `, skipped ${data.skipped}` : "") +
+          "."
+      );
+      setImportFile(null);
+      form.reset();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to import mailbox");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-2xl mx-auto px-4 py-8">
+        <Link
+          href="/dashboard"
+          className="text-sm text-foreground-muted hover:text-foreground"
+        >
+          ← Back to dashboard
+        </Link>
+
+        <h1 className="mt-4 text-xl font-semibold text-foreground">Archives</h1>
+        <p className="mt-1 text-sm text-foreground-muted">
+          Export mail to an mbox file, or import one so older mail can be searched
+          and classified alongside your inbox.
+        </p>
+
+        {error && (
+          <div className="mt-4 bg-destructive-muted text-destructive px-4 py-3 rounded-lg text-sm">
+            {error}
+          </div>
+        )}
+
+        <h2 className="mt-8 text-sm font-semibold text-foreground">Export</h2>
+        <form
+          onSubmit={handleExport}
+          className="mt-3 space-y-3 p-4 bg-surface border border-border rounded-xl"
+        >
+          <div>
+            <label className="block text-xs text-foreground-muted mb-1">Gmail search</label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="e.g. from:invoices@acme.com after:2026/01/01"
+                className={inputClassName}
+              />
+              <Button
+                type="button"
+                variant="secondary"
+                size="sm"
+                className="h-9 shrink-0"
+                onClick={() => setQuery(previousQuarterQuery())}
+              >
+                Last quarter
+              </Button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs text-foreground-muted mb-1">Category</label>
+              <select
+                value={category}
+                onChange={(e) => setCategory(e.target.value)}
+                className={inputClassName}
+              >
+                <option value="">Any</option>
+                {CLASSIFICATION_CATEGORIES.map((c) => (
+                  <option key={c} value={c}>
+                    {c.charAt(0).toUpperCase() + c.slice(1)}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs text-foreground-muted mb-1">Tag</label>
+              <select
+                value={tag}
+                onChange={(e) => setTag(e.target.value)}
+                className={inputClassName}
+              >
+                <option value="">Any</option>
+                {tags.map((t) => (
+                  <option key={t} value={t}>
+                    {t}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between gap-3">
+            <p className="text-xs text-foreground-muted">
+              Messages must match everything chosen. Categories and tags only cover
+              mail the dashboard has classified or tagged.
+            </p>
+            <Button
+              type="submit"
+              size="sm"
+              disabled={isStarting || (!query.trim() && !category && !tag)}
+            >
+              {isStarting ? "Starting..." : "Export"}
+            </Button>
+          </div>
+        </form>
+
+        <div className="mt-4 space-y-3">
+          {isLoading ? (
+            <Skeleton className="h-16 w-full" />
+          ) : (
+            exports.map((item) => (
+              <ExportRow key={item.id} item={item} onDelete={() => handleDelete(item.id)} />
+            ))
+          )}
+        </div>
+
+        <h2 className="mt-8 text-sm font-semibold text-foreground">Import</h2>
+        <form
+          onSubmit={handleImport}
+          className="mt-3 space-y-3 p-4 bg-surface border border-border rounded-xl"
+        >
+          <p className="text-sm text-foreground-muted">
+            Load an mbox file, such as a Google Takeout export. Imported mail stays
+            in the dashboard only, and shows up when you search{" "}
+            <code className="px-1 py-0.5 bg-background-secondary rounded text-xs font-mono">
+              in:imported
+            </code>
+            .
+          </p>
+          <div className="flex items-center gap-3">
+            <input
+              type="file"
+              accept=".mbox,application/mbox,text/plain"
+              onChange={(e) => setImportFile(e.target.files?.[0] ?? null)}
+              className="flex-1 min-w-0 text-sm text-foreground-muted file:mr-3 file:px-3 file:py-1.5 file:rounded-lg file:border-0 file:bg-background-secondary file:text-foreground file:text-sm"
+            />
+            <Button type="submit" size="sm" disabled={!importFile || isImporting}>
+              {isImporting ? "Importing..." : "Import"}
+            </Button>
+          </div>
+          {importResult && <p className="text-sm text-foreground">{importResult}</p>}
+        </form>
+      </div>
+    </div>
+  );
+}
+
+function ExportRow({ item, onDelete }: { item: MailboxExport; onDelete: () => void }) {
+  const active = item.status === "pending" || item.status === "running";
+  const percent = item.total > 0 ? Math.round((item.exported / item.total) * 100) : 0;
+
+  return (
+    <div className="p-4 bg-surface border border-border rounded-xl">
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0">
+          <p className="text-sm font-mono text-foreground truncate">{describeExport(item)}</p>
+          <p className="mt-1 text-xs text-foreground-muted">
+            {item.accountId} · {format(new Date(item.createdAt), "MMM d, yyyy h:mm a")}
+          </p>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          {item.status === "done" && (
+            <a
+              href={`/api/gmail/exports/${item.id}/download`}
+              download
+              className="inline-flex h-8 items-center px-3 rounded-lg text-sm font-medium text-primary hover:bg-surface-hover transition-all duration-200"
+            >
+              Download
+            </a>
+          )}
+          <Button variant="ghost" size="sm" onClick={onDelete}>
+            {active ? "Cancel" : "Delete"}
+          </Button>
+        </div>
+      </div>
+
+      <div className="mt-3">
+        {item.status === "failed" ? (
+          <p className="text-xs text-destructive">{item.error || "Export failed"}</p>
+        ) : (
+          <>
+            <div className="h-1.5 bg-background-secondary rounded-full overflow-hidden">
+              <div
+                className={cn(
+                  "h-full rounded-full transition-all duration-500",
+                  item.status === "done" ? "bg-success" : "bg-primary"
+                )}
+                style={{ width: `${item.status === "done" ? 100 : percent}%` }}
+              />
+            </div>
+            <p className="mt-1 text-xs text-foreground-muted">
+              {item.status === "pending"
+                ? "Waiting to start"
+                : item.status === "running" && item.total === 0
+                  ? "Finding messages..."
+                  : `${item.exported} of ${item.total} messages`}
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
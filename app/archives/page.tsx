@@ -0,0 +1,13 @@
+import { auth } from "@/lib/auth";
+import { redirect } from "next/navigation";
+import { ArchivesClient } from "./archives-client";
+
+export default async function ArchivesPage() {
+  const session = await auth();
+
+  if (!session) {
+    redirect("/login");
+  }
+
+  return <ArchivesClient />;
+}
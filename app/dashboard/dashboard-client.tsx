@@ -14,9 +14,10 @@ import { useEffect } from "react";
 interface DashboardClientProps {
   userEmail?: string;
   onSignOut?: () => void;
+  linkError?: string;
 }
 
-export function DashboardClient({ userEmail, onSignOut }: DashboardClientProps) {
+export function DashboardClient({ userEmail, onSignOut, linkError }: DashboardClientProps) {
   const { activeWidget, openShortcutsModal } = useUIStore();
   const { togglePanel: toggleAIPanel } = useAIStore();
 
@@ -45,13 +46,13 @@ export function DashboardClient({ userEmail, onSignOut }: DashboardClientProps)
 
   return (
     <div className="h-screen flex flex-col bg-background">
-      <DashboardHeader userEmail={userEmail} onSignOut={onSignOut} />
+      <DashboardHeader userEmail={userEmail} onSignOut={onSignOut} linkError={linkError} />
 
       <div className="flex-1 flex overflow-hidden">
         <DashboardSidebar />
 
         <WidgetContainer>
-          {activeWidget === "email" && <EmailList />}
+          {activeWidget === "email" && <EmailList userEmail={userEmail} />}
 
           {activeWidget === "calendar" && (
             <ComingSoon title="Calendar" />
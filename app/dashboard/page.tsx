@@ -2,13 +2,19 @@ import { auth, signOut } from "@/lib/auth";
 import { redirect } from "next/navigation";
 import { DashboardClient } from "./dashboard-client";
 
-export default async function DashboardPage() {
+export default async function DashboardPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ linkError?: string }>;
+}) {
   const session = await auth();
 
   if (!session) {
     redirect("/login");
   }
 
+  const { linkError } = await searchParams;
+
   const handleSignOut = async () => {
     "use server";
     await signOut({ redirectTo: "/login" });
@@ -18,6 +24,7 @@ export default async function DashboardPage() {
     <DashboardClient
       userEmail={session.user?.email || undefined}
       onSignOut={handleSignOut}
+      linkError={linkError}
     />
   );
 }
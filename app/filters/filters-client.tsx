@@ -0,0 +1,144 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { format } from "date-fns";
+import { Button, Skeleton } from "@/components/ui";
+import { FILTER_ACTIONS, type FilterAction } from "@/lib/gmail";
+import { accountUrl, useUIStore } from "@/lib/stores";
+
+interface DashboardFilter {
+  id: string;
+  name: string;
+  query: string;
+  actions: FilterAction[];
+  labelName: string | null;
+  createdAt: string;
+}
+
+export function FiltersClient() {
+  const [filters, setFilters] = useState<DashboardFilter[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  // The account picked in the dashboard; the primary one for all inboxes
+  const { activeAccountId } = useUIStore();
+
+  useEffect(() => {
+    const loadFilters = async () => {
+      try {
+        const response = await fetch(accountUrl("/api/gmail/filters", activeAccountId));
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to fetch filters");
+        }
+
+        setFilters(data.filters);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to fetch filters");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadFilters();
+  }, [activeAccountId]);
+
+  const handleDelete = async (id: string) => {
+    setDeletingId(id);
+    setError(null);
+
+    try {
+      const response = await fetch(accountUrl(`/api/gmail/filters/${id}`, activeAccountId), {
+        method: "DELETE",
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to delete filter");
+      }
+
+      setFilters((prev) => prev.filter((f) => f.id !== id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete filter");
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  const describeActions = (filter: DashboardFilter) =>
+    filter.actions
+      .map((action) =>
+        action === "label" && filter.labelName
+          ? `${FILTER_ACTIONS.label.description} "${filter.labelName}"`
+          : FILTER_ACTIONS[action]?.description
+      )
+      .filter(Boolean)
+      .join(" · ");
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-2xl mx-auto px-4 py-8">
+        <Link
+          href="/dashboard"
+          className="text-sm text-foreground-muted hover:text-foreground"
+        >
+          ← Back to dashboard
+        </Link>
+
+        <h1 className="mt-4 text-xl font-semibold text-foreground">Filters</h1>
+        <p className="mt-1 text-sm text-foreground-muted">
+          Gmail filters created from AI suggestions. Filters you made in Gmail
+          itself aren&apos;t listed here.
+        </p>
+
+        {error && (
+          <div className="mt-4 bg-destructive-muted text-destructive px-4 py-3 rounded-lg text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="mt-6 space-y-3">
+          {isLoading ? (
+            <>
+              <Skeleton className="h-20 w-full" />
+              <Skeleton className="h-20 w-full" />
+            </>
+          ) : filters.length === 0 ? (
+            <p className="text-sm text-foreground-muted">
+              No filters yet. Ask the AI assistant to suggest filters, then pick
+              &quot;Make filter&quot; on one.
+            </p>
+          ) : (
+            filters.map((filter) => (
+              <div
+                key={filter.id}
+                className="flex items-start justify-between gap-4 p-4 bg-surface border border-border rounded-xl"
+              >
+                <div className="min-w-0">
+                  <p className="font-medium text-foreground">{filter.name}</p>
+                  <p className="mt-1 text-xs font-mono text-foreground-muted truncate">
+                    {filter.query}
+                  </p>
+                  <p className="mt-2 text-sm text-foreground">{describeActions(filter)}</p>
+                  <p className="mt-1 text-xs text-foreground-muted">
+                    Created {format(new Date(filter.createdAt), "MMM d, yyyy")}
+                  </p>
+                </div>
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => handleDelete(filter.id)}
+                  disabled={deletingId === filter.id}
+                >
+                  {deletingId === filter.id ? "Deleting..." : "Delete"}
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
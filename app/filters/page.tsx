@@ -0,0 +1,13 @@
+import { auth } from "@/lib/auth";
+import { redirect } from "next/navigation";
+import { FiltersClient } from "./filters-client";
+
+export default async function FiltersPage() {
+  const session = await auth();
+
+  if (!session) {
+    redirect("/login");
+  }
+
+  return <FiltersClient />;
+}
@@ -0,0 +1,413 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { endOfDay, format, parseISO, startOfDay } from "date-fns";
+import { Button, DateRangePicker, RichTextEditor, Skeleton, type DateRange } from "@/components/ui";
+import type { SendAsAlias, VacationSettings } from "@/lib/gmail";
+import { accountUrl, useUIStore } from "@/lib/stores";
+import { cn } from "@/lib/utils";
+
+const inputClassName = cn(
+  "w-full h-9 px-3 rounded-lg text-sm",
+  "bg-background border border-border text-foreground placeholder:text-foreground-muted",
+  "focus:outline-none focus:ring-1 focus:ring-primary"
+);
+
+// Gmail keeps times as epoch milliseconds; the picker works in local days
+function toDay(time?: string): string {
+  return time ? format(new Date(Number(time)), "yyyy-MM-dd") : "";
+}
+
+// AI drafts come back as plain text with blank lines between paragraphs
+function textToHtml(text: string): string {
+  const escape = (value: string) =>
+    value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+  return text
+    .trim()
+    .split(/\n\s*\n/)
+    .map((paragraph) => `<p>${paragraph.split("\n").map(escape).join("<br>")}</p>`)
+    .join("");
+}
+
+export function SettingsClient() {
+  const [error, setError] = useState<string | null>(null);
+
+  const [isLoadingVacation, setIsLoadingVacation] = useState(true);
+  const [enabled, setEnabled] = useState(false);
+  const [range, setRange] = useState<DateRange>({ start: "", end: "" });
+  const [subject, setSubject] = useState("");
+  const [bodyHtml, setBodyHtml] = useState("");
+  const [restrictToContacts, setRestrictToContacts] = useState(false);
+  const [restrictToDomain, setRestrictToDomain] = useState(false);
+  const [isSavingVacation, setIsSavingVacation] = useState(false);
+  const [vacationSaved, setVacationSaved] = useState(false);
+
+  const [draftPrompt, setDraftPrompt] = useState("");
+  const [isDrafting, setIsDrafting] = useState(false);
+
+  const [isLoadingSignatures, setIsLoadingSignatures] = useState(true);
+  const [aliases, setAliases] = useState<SendAsAlias[]>([]);
+  const [signatures, setSignatures] = useState<Record<string, string>>({});
+  const [savingSignature, setSavingSignature] = useState<string | null>(null);
+  const [savedSignature, setSavedSignature] = useState<string | null>(null);
+
+  // Editors ("vacation", or a send-as address) whose content from Gmail had
+  // formatting the editor couldn't keep
+  const [unsupported, setUnsupported] = useState<Set<string>>(new Set());
+
+  // The account picked in the dashboard; the primary one for all inboxes
+  const { activeAccountId } = useUIStore();
+
+  useEffect(() => {
+    setUnsupported(new Set());
+
+    const loadVacation = async () => {
+      setIsLoadingVacation(true);
+      try {
+        const response = await fetch(accountUrl("/api/gmail/settings/vacation", activeAccountId));
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to fetch vacation responder");
+        }
+
+        const vacation = data.vacation as VacationSettings;
+        setEnabled(vacation.enableAutoReply);
+        setRange({ start: toDay(vacation.startTime), end: toDay(vacation.endTime) });
+        setSubject(vacation.responseSubject || "");
+        setBodyHtml(
+          vacation.responseBodyHtml || textToHtml(vacation.responseBodyPlainText || "")
+        );
+        setRestrictToContacts(!!vacation.restrictToContacts);
+        setRestrictToDomain(!!vacation.restrictToDomain);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to fetch vacation responder");
+      } finally {
+        setIsLoadingVacation(false);
+      }
+    };
+
+    const loadSignatures = async () => {
+      setIsLoadingSignatures(true);
+      try {
+        const response = await fetch(accountUrl("/api/gmail/settings/signatures", activeAccountId));
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to fetch signatures");
+        }
+
+        const sendAs = data.sendAs as SendAsAlias[];
+        setAliases(sendAs);
+        setSignatures(
+          Object.fromEntries(sendAs.map((alias) => [alias.sendAsEmail, alias.signature || ""]))
+        );
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to fetch signatures");
+      } finally {
+        setIsLoadingSignatures(false);
+      }
+    };
+
+    loadVacation();
+    loadSignatures();
+  }, [activeAccountId]);
+
+  const markUnsupported = (key: string) => {
+    setUnsupported((prev) => new Set(prev).add(key));
+  };
+
+  // Saving replaces what's in Gmail, so formatting the editor dropped would
+  // be lost there too
+  const confirmLossySave = (key: string) =>
+    !unsupported.has(key) ||
+    window.confirm(
+      "Some formatting from Gmail, such as images or styles, can't be kept here and will be removed when you save. Save anyway?"
+    );
+
+  const handleSaveVacation = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!confirmLossySave("vacation")) return;
+    setIsSavingVacation(true);
+    setVacationSaved(false);
+    setError(null);
+
+    try {
+      const response = await fetch(accountUrl("/api/gmail/settings/vacation", activeAccountId), {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          enableAutoReply: enabled,
+          responseSubject: subject,
+          responseBodyHtml: bodyHtml,
+          restrictToContacts,
+          restrictToDomain,
+          // The whole of the first and last day, in the user's time zone
+          startTime: range.start ? String(startOfDay(parseISO(range.start)).getTime()) : undefined,
+          endTime: range.end ? String(endOfDay(parseISO(range.end)).getTime()) : undefined,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update vacation responder");
+      }
+
+      setVacationSaved(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update vacation responder");
+    } finally {
+      setIsSavingVacation(false);
+    }
+  };
+
+  const handleDraft = async () => {
+    setIsDrafting(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/ai/out-of-office", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          prompt: draftPrompt,
+          start: range.start ? format(parseISO(range.start), "EEEE, MMMM d, yyyy") : undefined,
+          end: range.end ? format(parseISO(range.end), "EEEE, MMMM d, yyyy") : undefined,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to draft message");
+      }
+
+      if (data.draft.subject) setSubject(data.draft.subject);
+      setBodyHtml(textToHtml(data.draft.body));
+      setVacationSaved(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to draft message");
+    } finally {
+      setIsDrafting(false);
+    }
+  };
+
+  const handleSaveSignature = async (sendAsEmail: string) => {
+    if (!confirmLossySave(sendAsEmail)) return;
+    setSavingSignature(sendAsEmail);
+    setSavedSignature(null);
+    setError(null);
+
+    try {
+      const response = await fetch(accountUrl("/api/gmail/settings/signatures", activeAccountId), {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ sendAsEmail, signature: signatures[sendAsEmail] || "" }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update signature");
+      }
+
+      setSavedSignature(sendAsEmail);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update signature");
+    } finally {
+      setSavingSignature(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-2xl mx-auto px-4 py-8">
+        <Link
+          href="/dashboard"
+          className="text-sm text-foreground-muted hover:text-foreground"
+        >
+          ← Back to dashboard
+        </Link>
+
+        <h1 className="mt-4 text-xl font-semibold text-foreground">Settings</h1>
+        <p className="mt-1 text-sm text-foreground-muted">
+          Your Gmail auto-reply and signatures. Changes are saved to Gmail, so they
+          apply wherever you send from.
+        </p>
+
+        {error && (
+          <div className="mt-4 bg-destructive-muted text-destructive px-4 py-3 rounded-lg text-sm">
+            {error}
+          </div>
+        )}
+
+        <h2 className="mt-8 text-sm font-semibold text-foreground">Vacation responder</h2>
+        {isLoadingVacation ? (
+          <Skeleton className="mt-3 h-64 w-full" />
+        ) : (
+          <form
+            onSubmit={handleSaveVacation}
+            className="mt-3 space-y-3 p-4 bg-surface border border-border rounded-xl"
+          >
+            <label className="flex items-center gap-2 text-sm text-foreground">
+              <input
+                type="checkbox"
+                checked={enabled}
+                onChange={() => {
+                  setEnabled(!enabled);
+                  setVacationSaved(false);
+                }}
+                className="h-4 w-4 rounded border-border"
+              />
+              Reply automatically to mail I receive
+            </label>
+
+            <DateRangePicker
+              value={range}
+              onChange={(value) => {
+                setRange(value);
+                setVacationSaved(false);
+              }}
+              startLabel="First day"
+              endLabel="Last day"
+            />
+
+            <div>
+              <label className="block text-xs text-foreground-muted mb-1">
+                Draft with AI
+              </label>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={draftPrompt}
+                  onChange={(e) => setDraftPrompt(e.target.value)}
+                  placeholder="e.g. At the trade show, urgent orders to Dana at orders@acme.com"
+                  className={inputClassName}
+                />
+                <Button
+                  type="button"
+                  variant="secondary"
+                  size="sm"
+                  className="h-9 shrink-0"
+                  disabled={!draftPrompt.trim() || isDrafting}
+                  onClick={handleDraft}
+                >
+                  {isDrafting ? "Drafting..." : "Draft"}
+                </Button>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-xs text-foreground-muted mb-1">Subject</label>
+              <input
+                type="text"
+                value={subject}
+                onChange={(e) => {
+                  setSubject(e.target.value);
+                  setVacationSaved(false);
+                }}
+                placeholder="Out of office"
+                className={inputClassName}
+              />
+            </div>
+
+            <div>
+              <label className="block text-xs text-foreground-muted mb-1">Message</label>
+              <RichTextEditor
+                value={bodyHtml}
+                onChange={(html) => {
+                  setBodyHtml(html);
+                  setVacationSaved(false);
+                }}
+                placeholder="Thanks for your email. I'm away and will reply when I'm back."
+                onUnsupportedContent={() => markUnsupported("vacation")}
+              />
+            </div>
+
+            <div className="space-y-1.5">
+              <label className="flex items-center gap-2 text-sm text-foreground">
+                <input
+                  type="checkbox"
+                  checked={restrictToContacts}
+                  onChange={() => setRestrictToContacts(!restrictToContacts)}
+                  className="h-4 w-4 rounded border-border"
+                />
+                Only reply to people in my contacts
+              </label>
+              <label className="flex items-center gap-2 text-sm text-foreground">
+                <input
+                  type="checkbox"
+                  checked={restrictToDomain}
+                  onChange={() => setRestrictToDomain(!restrictToDomain)}
+                  className="h-4 w-4 rounded border-border"
+                />
+                Only reply to people in my organization
+              </label>
+            </div>
+
+            <div className="flex items-center justify-between gap-3">
+              <p className="text-xs text-foreground-muted">
+                {vacationSaved
+                  ? "Saved."
+                  : "Gmail replies to each sender at most once every four days while this is on."}
+              </p>
+              <Button type="submit" size="sm" disabled={isSavingVacation}>
+                {isSavingVacation ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </form>
+        )}
+
+        <h2 className="mt-8 text-sm font-semibold text-foreground">Signatures</h2>
+        <div className="mt-3 space-y-3">
+          {isLoadingSignatures ? (
+            <Skeleton className="h-48 w-full" />
+          ) : (
+            aliases.map((alias) => (
+              <div
+                key={alias.sendAsEmail}
+                className="space-y-3 p-4 bg-surface border border-border rounded-xl"
+              >
+                <div className="flex items-center gap-2 min-w-0">
+                  <p className="text-sm font-medium text-foreground truncate">
+                    {alias.displayName
+                      ? `${alias.displayName} <${alias.sendAsEmail}>`
+                      : alias.sendAsEmail}
+                  </p>
+                  {alias.isDefault && (
+                    <span className="px-1.5 py-0.5 rounded text-xs text-foreground-muted bg-background-secondary shrink-0">
+                      Default
+                    </span>
+                  )}
+                </div>
+
+                <RichTextEditor
+                  value={signatures[alias.sendAsEmail] || ""}
+                  onChange={(html) => {
+                    setSignatures((prev) => ({ ...prev, [alias.sendAsEmail]: html }));
+                    setSavedSignature(null);
+                  }}
+                  placeholder="No signature"
+                  onUnsupportedContent={() => markUnsupported(alias.sendAsEmail)}
+                />
+
+                <div className="flex items-center justify-end gap-3">
+                  {savedSignature === alias.sendAsEmail && (
+                    <p className="text-xs text-foreground-muted">Saved.</p>
+                  )}
+                  <Button
+                    size="sm"
+                    disabled={savingSignature === alias.sendAsEmail}
+                    onClick={() => handleSaveSignature(alias.sendAsEmail)}
+                  >
+                    {savingSignature === alias.sendAsEmail ? "Saving..." : "Save signature"}
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
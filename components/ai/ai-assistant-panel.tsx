@@ -1,10 +1,12 @@
 "use client";
 
 import { useState, useRef, useEffect, useCallback, useMemo } from "react";
+import Link from "next/link";
 import { useAIStore, useEmailStore, type ViewingContext } from "@/lib/stores";
 import { Button, Badge } from "@/components/ui";
 import { cn } from "@/lib/utils";
 import { FeedbackButtons } from "./feedback-buttons";
+import { CreateFilterForm } from "./create-filter-form";
 
 /**
  * Formats markdown text into React components with proper styling
@@ -608,6 +610,11 @@ function ActionsTab({
   onApplyFilter: (query: string) => void;
   context: ViewingContext;
 }) {
+  // Suggestion currently being turned into a Gmail filter
+  const [filterFormIndex, setFilterFormIndex] = useState<number | null>(null);
+  const filterFormSuggestion =
+    filterFormIndex !== null ? suggestedFilters[filterFormIndex] : undefined;
+
   return (
     <div className="flex-1 overflow-y-auto p-4 space-y-4">
       {/* Context indicator - removed duplicate since we have header indicator */}
@@ -699,25 +706,45 @@ function ActionsTab({
           responseType="filters"
           responseData={{ suggestedFilters, insights }}
         >
-          <div className="flex flex-wrap gap-2">
+          <div className="space-y-2">
             {suggestedFilters.map((filter, idx) => (
-              <button
-                key={idx}
-                onClick={() => onApplyFilter(filter.query)}
-                className={cn(
-                  "px-3 py-1.5 rounded-full text-xs",
-                  "bg-primary-muted text-primary",
-                  "hover:bg-primary hover:text-primary-foreground",
-                  "transition-colors duration-200"
-                )}
-              >
-                {filter.label}
-                {filter.count > 0 && (
-                  <span className="ml-1 opacity-70">({filter.count})</span>
-                )}
-              </button>
+              <div key={idx} className="flex items-center justify-between gap-2">
+                <button
+                  onClick={() => onApplyFilter(filter.query)}
+                  className={cn(
+                    "px-3 py-1.5 rounded-full text-xs",
+                    "bg-primary-muted text-primary",
+                    "hover:bg-primary hover:text-primary-foreground",
+                    "transition-colors duration-200"
+                  )}
+                >
+                  {filter.label}
+                  {filter.count > 0 && (
+                    <span className="ml-1 opacity-70">({filter.count})</span>
+                  )}
+                </button>
+                <button
+                  onClick={() => setFilterFormIndex(idx)}
+                  className="text-xs text-foreground-muted hover:text-foreground shrink-0"
+                >
+                  Make filter
+                </button>
+              </div>
             ))}
           </div>
+          {filterFormSuggestion && (
+            <CreateFilterForm
+              key={filterFormIndex}
+              suggestion={filterFormSuggestion}
+              onCancel={() => setFilterFormIndex(null)}
+            />
+          )}
+          <Link
+            href="/filters"
+            className="block mt-3 text-xs text-primary hover:text-primary-hover"
+          >
+            Manage filters created here
+          </Link>
         </ResultsSection>
       )}
 
@@ -0,0 +1,115 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui";
+import { accountUrl, useUIStore } from "@/lib/stores";
+import { cn } from "@/lib/utils";
+import { FILTER_ACTIONS, type FilterAction } from "@/lib/gmail";
+
+interface CreateFilterFormProps {
+  suggestion: { label: string; query: string };
+  onCancel: () => void;
+}
+
+// Turns a suggested search into a Gmail filter that keeps applying to new mail
+export function CreateFilterForm({ suggestion, onCancel }: CreateFilterFormProps) {
+  const [actions, setActions] = useState<FilterAction[]>(["label"]);
+  const [labelName, setLabelName] = useState(suggestion.label);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [created, setCreated] = useState(false);
+  // Filters live in one account: the inbox being viewed, or the primary one
+  const { activeAccountId } = useUIStore();
+
+  const toggleAction = (action: FilterAction) => {
+    setActions((prev) =>
+      prev.includes(action) ? prev.filter((a) => a !== action) : [...prev, action]
+    );
+  };
+
+  const handleCreate = async () => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(accountUrl("/api/gmail/filters", activeAccountId), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: suggestion.label,
+          query: suggestion.query,
+          actions,
+          labelName,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to create filter");
+      }
+
+      setCreated(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create filter");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (created) {
+    return (
+      <div className="mt-3 p-3 rounded-lg bg-background-secondary text-sm text-foreground">
+        Filter created in Gmail.{" "}
+        <Link href="/filters" className="text-primary hover:text-primary-hover">
+          Manage filters
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-3 p-3 rounded-lg bg-background-secondary space-y-3 animate-fadeIn">
+      <p className="text-xs text-foreground-muted">
+        Mail matching <code className="font-mono text-foreground">{suggestion.query}</code>
+      </p>
+
+      <div className="space-y-1.5">
+        {(Object.keys(FILTER_ACTIONS) as FilterAction[]).map((action) => (
+          <label key={action} className="flex items-center gap-2 text-sm text-foreground">
+            <input
+              type="checkbox"
+              checked={actions.includes(action)}
+              onChange={() => toggleAction(action)}
+              className="rounded border-border"
+            />
+            {FILTER_ACTIONS[action].description}
+            {action === "label" && actions.includes("label") && (
+              <input
+                type="text"
+                value={labelName}
+                onChange={(e) => setLabelName(e.target.value)}
+                className={cn(
+                  "flex-1 min-w-0 h-7 px-2 rounded-md text-sm",
+                  "bg-surface border border-border text-foreground",
+                  "focus:outline-none focus:ring-1 focus:ring-primary"
+                )}
+              />
+            )}
+          </label>
+        ))}
+      </div>
+
+      {error && <p className="text-xs text-destructive">{error}</p>}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button size="sm" onClick={handleCreate} disabled={saving || actions.length === 0}>
+          {saving ? "Creating..." : "Create filter"}
+        </Button>
+      </div>
+    </div>
+  );
+}
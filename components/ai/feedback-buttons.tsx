@@ -8,6 +8,8 @@ interface FeedbackButtonsProps {
   responseType: "summary" | "summarize" | "chat" | "categorize" | "tasks" | "filters";
   responseData: any;
   context?: string;
+  // Linked account the rated response was about, if any
+  accountId?: string;
   className?: string;
 }
 
@@ -15,6 +17,7 @@ export function FeedbackButtons({
   responseType,
   responseData,
   context,
+  accountId,
   className,
 }: FeedbackButtonsProps) {
   const [rating, setRating] = useState<"up" | "down" | null>(null);
@@ -35,6 +38,7 @@ export function FeedbackButtons({
           responseType,
           responseData,
           context,
+          accountId,
           rating: selectedRating,
           issue,
         }),
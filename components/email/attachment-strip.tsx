@@ -0,0 +1,163 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui";
+import { cn, formatFileSize } from "@/lib/utils";
+import { accountUrl } from "@/lib/stores";
+import type { EmailAttachment } from "@/lib/gmail";
+
+interface AttachmentStripProps {
+  messageId: string;
+  accountId?: string;
+  attachments: EmailAttachment[];
+}
+
+const PREVIEWABLE_IMAGE_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"];
+
+function canPreview(attachment: EmailAttachment): boolean {
+  return (
+    PREVIEWABLE_IMAGE_TYPES.includes(attachment.mimeType) ||
+    attachment.mimeType === "application/pdf"
+  );
+}
+
+export function attachmentUrl(
+  messageId: string,
+  attachment: EmailAttachment,
+  inline = false,
+  accountId?: string
+): string {
+  // Name and type let the route fetch the data without looking the part up
+  const params = new URLSearchParams({
+    partId: attachment.partId,
+    type: attachment.mimeType,
+    name: attachment.filename,
+  });
+  if (inline) params.set("inline", "1");
+  return accountUrl(
+    `/api/gmail/messages/${messageId}/attachments/${encodeURIComponent(attachment.attachmentId)}?${params}`,
+    accountId
+  );
+}
+
+export function AttachmentStrip({ messageId, accountId, attachments }: AttachmentStripProps) {
+  const [preview, setPreview] = useState<EmailAttachment | null>(null);
+
+  if (attachments.length === 0) return null;
+
+  return (
+    <div className="mt-4">
+      <div className="text-xs font-medium text-foreground-muted uppercase tracking-wider mb-2">
+        {attachments.length} {attachments.length === 1 ? "attachment" : "attachments"}
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {attachments.map((attachment) => (
+          <div
+            key={attachment.partId || attachment.attachmentId}
+            className="flex items-center gap-2 max-w-[260px] pl-3 pr-1 py-1.5 rounded-lg border border-border bg-surface"
+          >
+            <button
+              onClick={() => canPreview(attachment) && setPreview(attachment)}
+              disabled={!canPreview(attachment)}
+              title={canPreview(attachment) ? "Preview" : attachment.filename}
+              className={cn(
+                "flex-1 min-w-0 text-left",
+                canPreview(attachment) && "hover:text-primary"
+              )}
+            >
+              <div className="text-sm text-foreground truncate">{attachment.filename}</div>
+              <div className="text-xs text-foreground-muted">
+                {formatFileSize(attachment.size)}
+              </div>
+            </button>
+            <a
+              href={attachmentUrl(messageId, attachment, false, accountId)}
+              download={attachment.filename}
+              title="Download"
+              className="flex h-8 w-8 items-center justify-center rounded-lg text-foreground-muted hover:text-foreground hover:bg-surface-hover shrink-0"
+            >
+              <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 0 0 5.25 21h13.5A2.25 2.25 0 0 0 21 18.75V16.5M16.5 12 12 16.5m0 0L7.5 12m4.5 4.5V3" />
+              </svg>
+              <span className="sr-only">Download {attachment.filename}</span>
+            </a>
+          </div>
+        ))}
+      </div>
+
+      {preview && (
+        <AttachmentPreview
+          messageId={messageId}
+          accountId={accountId}
+          attachment={preview}
+          onClose={() => setPreview(null)}
+        />
+      )}
+    </div>
+  );
+}
+
+function AttachmentPreview({
+  messageId,
+  accountId,
+  attachment,
+  onClose,
+}: {
+  messageId: string;
+  accountId?: string;
+  attachment: EmailAttachment;
+  onClose: () => void;
+}) {
+  // Close on escape without letting the detail panel close too
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") {
+        e.stopImmediatePropagation();
+        onClose();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown, true);
+    return () => window.removeEventListener("keydown", handleKeyDown, true);
+  }, [onClose]);
+
+  const src = attachmentUrl(messageId, attachment, true, accountId);
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-6">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/60 animate-fadeIn" onClick={onClose} />
+
+      <div className="relative flex flex-col w-full max-w-4xl h-full max-h-[90vh] bg-surface rounded-xl shadow-xl overflow-hidden">
+        <div className="flex items-center justify-between gap-2 px-4 py-2 border-b border-border">
+          <span className="text-sm font-medium text-foreground truncate">
+            {attachment.filename}
+          </span>
+          <div className="flex items-center gap-1">
+            <a
+              href={attachmentUrl(messageId, attachment, false, accountId)}
+              download={attachment.filename}
+              className="inline-flex h-8 items-center px-3 rounded-lg text-sm font-medium text-foreground-muted hover:text-foreground hover:bg-surface-hover transition-all duration-200"
+            >
+              Download
+            </a>
+            <Button variant="ghost" size="sm" onClick={onClose}>
+              <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M6 18 18 6M6 6l12 12" />
+              </svg>
+              <span className="sr-only">Close</span>
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex-1 flex items-center justify-center bg-background-secondary overflow-auto">
+          {attachment.mimeType === "application/pdf" ? (
+            <iframe src={src} title={attachment.filename} className="w-full h-full" />
+          ) : (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img src={src} alt={attachment.filename} className="max-w-full max-h-full object-contain" />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,591 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui";
+import {
+  accountUrl,
+  useEmailStore,
+  useUIStore,
+  type ComposeValues,
+  type ForwardedAttachment,
+} from "@/lib/stores";
+import { cn, formatFileSize } from "@/lib/utils";
+import { UNDO_SEND_SECONDS, type EmailAttachment, type OutgoingAttachment } from "@/lib/gmail";
+import { TimePicker } from "./time-picker";
+import { UndoSendToast } from "./undo-send-toast";
+
+interface ComposeAttachment extends OutgoingAttachment {
+  size: number;
+}
+
+// Wait this long after the last edit before autosaving the draft
+const AUTOSAVE_DELAY_MS = 3000;
+
+const UNDO_SEND_CHOICES = [UNDO_SEND_SECONDS.min, 10, 20, UNDO_SEND_SECONDS.max];
+
+type SaveState = "idle" | "saving" | "saved" | "failed";
+
+export function ComposeSheet() {
+  const { composeOpen, composeInitial, composeBackup, openCompose, closeCompose } =
+    useUIStore();
+  const restoredRef = useRef(false);
+
+  // Reopen a compose session that was still in progress when the page unloaded
+  useEffect(() => {
+    if (restoredRef.current) return;
+    restoredRef.current = true;
+    if (!composeOpen && composeBackup) {
+      openCompose(composeBackup);
+    }
+  }, [composeOpen, composeBackup, openCompose]);
+
+  // Opening a different draft replaces the form instead of reusing its state
+  return (
+    <>
+      <UndoSendToast />
+      {composeOpen && (
+        <ComposeForm
+          key={composeInitial?.draftId ?? "new"}
+          initial={composeInitial}
+          onClose={closeCompose}
+        />
+      )}
+    </>
+  );
+}
+
+function ComposeForm({
+  initial,
+  onClose,
+}: {
+  initial: Partial<ComposeValues> | null;
+  onClose: () => void;
+}) {
+  const {
+    accounts,
+    activeAccountId,
+    setComposeBackup,
+    undoSendSeconds,
+    setUndoSendSeconds,
+    setPendingSend,
+  } = useUIStore();
+  const { removeDraft } = useEmailStore();
+  const [values, setValues] = useState<ComposeValues>({
+    to: initial?.to ?? "",
+    cc: initial?.cc ?? "",
+    bcc: initial?.bcc ?? "",
+    subject: initial?.subject ?? "",
+    body: initial?.body ?? "",
+  });
+  // Replies and drafts stay in their own account; new mail starts from the
+  // inbox being viewed
+  const [accountId, setAccountId] = useState(
+    initial?.accountId ?? activeAccountId ?? undefined
+  );
+  const [showCcBcc, setShowCcBcc] = useState(!!(initial?.cc || initial?.bcc));
+  const [attachments, setAttachments] = useState<ComposeAttachment[]>([]);
+  const [forwardedAttachments, setForwardedAttachments] = useState(
+    initial?.forwardedAttachments ?? []
+  );
+  // Latest list for queued saves, which may run after an earlier save has
+  // moved the attachments to a new draft message
+  const forwardedRef = useRef(forwardedAttachments);
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const toInputRef = useRef<HTMLInputElement>(null);
+
+  // Draft autosave
+  const [dirty, setDirty] = useState(false);
+  const [saveState, setSaveState] = useState<SaveState>(initial?.draftId ? "saved" : "idle");
+  const [draftId, setDraftId] = useState(initial?.draftId);
+  // Saves run one at a time so the first autosave can't create two drafts
+  const saveQueueRef = useRef<Promise<unknown>>(Promise.resolve());
+  const draftIdRef = useRef(initial?.draftId);
+
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+
+  // Replies already have recipients, so start typing in the body
+  useEffect(() => {
+    if (initial?.to) {
+      bodyRef.current?.focus();
+      bodyRef.current?.setSelectionRange(0, 0);
+    } else {
+      toInputRef.current?.focus();
+    }
+  }, [initial?.to]);
+
+  const updateValue = (key: keyof ComposeValues, value: string) => {
+    setValues((prev) => ({ ...prev, [key]: value }));
+    setDirty(true);
+  };
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files) return;
+
+    const added = await Promise.all(
+      Array.from(files).map(async (file) => ({
+        filename: file.name,
+        mimeType: file.type || "application/octet-stream",
+        size: file.size,
+        data: await readFileAsBase64(file),
+      }))
+    );
+    setAttachments((prev) => [...prev, ...added]);
+    setDirty(true);
+  };
+
+  useEffect(() => {
+    forwardedRef.current = forwardedAttachments;
+  }, [forwardedAttachments]);
+
+  const requestBody = useCallback(
+    (forwarded: ForwardedAttachment[]) =>
+      JSON.stringify({
+        to: values.to,
+        cc: values.cc,
+        bcc: values.bcc,
+        subject: values.subject,
+        text: values.body,
+        // A reopened HTML draft keeps its formatting until the text changes
+        html:
+          initial?.bodyHtml && values.body === initial.body
+            ? initial.bodyHtml
+            : textToHtml(values.body),
+        attachments: attachments.map(({ filename, mimeType, data }) => ({
+          filename,
+          mimeType,
+          data,
+        })),
+        threadId: initial?.threadId,
+        inReplyTo: initial?.inReplyTo,
+        references: initial?.references,
+        forwardedAttachments: forwarded.map(({ messageId, attachment }) => ({
+          messageId,
+          attachmentId: attachment.attachmentId,
+          partId: attachment.partId,
+        })),
+      }),
+    [values, attachments, initial]
+  );
+
+  // Create or update the Gmail draft. Resolves to false if the save failed.
+  const saveDraft = useCallback((): Promise<boolean> => {
+    const save = saveQueueRef.current.then(async () => {
+      setSaveState("saving");
+      try {
+        const forwarded = forwardedRef.current;
+        const body = requestBody(forwarded);
+        const currentDraftId = draftIdRef.current;
+        const response = await fetch(
+          accountUrl(
+            currentDraftId ? `/api/gmail/drafts/${currentDraftId}` : "/api/gmail/drafts",
+            accountId
+          ),
+          {
+            method: currentDraftId ? "PUT" : "POST",
+            headers: { "Content-Type": "application/json" },
+            body,
+          }
+        );
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to save draft");
+        }
+
+        draftIdRef.current = data.id;
+        setDraftId(data.id);
+
+        // Every save gives the draft a new message and removes the old one,
+        // so carried-over attachments now live in the new message. Gmail
+        // numbers its parts as it likes, so find each by name and size.
+        if (forwarded.length > 0 && data.messageId && data.attachments) {
+          const saved: EmailAttachment[] = [...data.attachments];
+          const moved = forwardedRef.current.map((item) => {
+            if (!forwarded.includes(item)) return item;
+            const index = saved.findIndex(
+              (a) => a.filename === item.attachment.filename && a.size === item.attachment.size
+            );
+            if (index === -1) return item;
+            const [attachment] = saved.splice(index, 1);
+            return { messageId: data.messageId, attachment };
+          });
+          forwardedRef.current = moved;
+          setForwardedAttachments(moved);
+        }
+
+        setSaveState("saved");
+        return true;
+      } catch {
+        setSaveState("failed");
+        return false;
+      }
+    });
+
+    saveQueueRef.current = save;
+    return save;
+  }, [requestBody, accountId]);
+
+  // Autosave a few seconds after the last edit
+  useEffect(() => {
+    if (!dirty) return;
+
+    const timer = setTimeout(() => {
+      setDirty(false);
+      saveDraft();
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [dirty, saveDraft]);
+
+  // Keep a local copy until the message is sent or safely saved and closed.
+  // File attachments are left out - they are too large for localStorage.
+  useEffect(() => {
+    if (!dirty && !draftId) return;
+    setComposeBackup({
+      ...initial,
+      ...values,
+      bodyHtml: values.body === initial?.body ? initial?.bodyHtml : undefined,
+      forwardedAttachments,
+      draftId,
+      accountId,
+    });
+  }, [dirty, values, forwardedAttachments, draftId, accountId, initial, setComposeBackup]);
+
+  const handleClose = async () => {
+    onClose();
+    // Gmail keeps the draft; only drop the local copy once it is saved
+    const saved = dirty ? await saveDraft() : saveState !== "failed";
+    if (saved) {
+      setComposeBackup(null);
+    }
+  };
+
+  const handleDiscard = async () => {
+    onClose();
+    setComposeBackup(null);
+    const currentDraftId = draftIdRef.current;
+    if (currentDraftId) {
+      await saveQueueRef.current;
+      await fetch(accountUrl(`/api/gmail/drafts/${currentDraftId}`, accountId), {
+        method: "DELETE",
+      });
+      removeDraft(currentDraftId);
+    }
+  };
+
+  // Sending queues the draft: right away it is held for the undo window,
+  // with sendAt it waits until then. Either way it can still be taken back.
+  const handleSend = async (sendAt?: Date) => {
+    setSending(true);
+    setError(null);
+
+    try {
+      // Bring the draft up to date; the queue sends the draft as saved
+      setDirty(false);
+      const currentDraftId = (await saveDraft()) ? draftIdRef.current : undefined;
+      if (!currentDraftId) {
+        throw new Error("Failed to save the draft before sending");
+      }
+
+      const response = await fetch(accountUrl("/api/gmail/scheduled", accountId), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          draftId: currentDraftId,
+          sendAt: sendAt?.toISOString(),
+          undoSeconds: undoSendSeconds,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to send email");
+      }
+
+      removeDraft(currentDraftId);
+      setComposeBackup(null);
+      setPendingSend({
+        id: data.scheduled.id,
+        draftId: currentDraftId,
+        accountId: data.scheduled.accountId,
+        sendAt: data.scheduled.sendAt,
+        scheduled: !!sendAt,
+      });
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to send email");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div
+      className={cn(
+        "fixed bottom-0 right-4 z-50 w-full max-w-lg",
+        "bg-surface border border-border rounded-t-xl shadow-xl",
+        "flex flex-col max-h-[80vh]",
+        "animate-fadeIn"
+      )}
+      onKeyDown={(e) => {
+        // Cmd/Ctrl + Enter to send
+        if ((e.metaKey || e.ctrlKey) && e.key === "Enter" && !sending) {
+          e.preventDefault();
+          handleSend();
+        }
+      }}
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-2 border-b border-border bg-background-secondary rounded-t-xl">
+        <span className="text-sm font-medium text-foreground">
+          {values.subject || "New message"}
+        </span>
+        <Button variant="ghost" size="sm" onClick={handleClose}>
+          <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M6 18 18 6M6 6l12 12" />
+          </svg>
+          <span className="sr-only">Close</span>
+        </Button>
+      </div>
+
+      {/* Fields */}
+      <div className="px-4">
+        {accounts.length > 1 && (
+          <ComposeField label="From">
+            <select
+              value={accountId ?? accounts[0].accountId}
+              onChange={(e) => {
+                setAccountId(e.target.value);
+                setDirty(true);
+              }}
+              // A saved draft or a reply belongs to the account it lives in
+              disabled={!!draftId || !!initial?.threadId}
+              className="flex-1 bg-transparent text-sm text-foreground focus:outline-none disabled:text-foreground-muted"
+            >
+              {accounts.map((account) => (
+                <option key={account.accountId} value={account.accountId}>
+                  {account.accountId}
+                </option>
+              ))}
+            </select>
+          </ComposeField>
+        )}
+        <ComposeField label="To">
+          <input
+            ref={toInputRef}
+            type="text"
+            value={values.to}
+            onChange={(e) => updateValue("to", e.target.value)}
+            className="flex-1 bg-transparent text-sm text-foreground focus:outline-none"
+          />
+          {!showCcBcc && (
+            <button
+              onClick={() => setShowCcBcc(true)}
+              className="text-xs text-foreground-muted hover:text-foreground"
+            >
+              Cc/Bcc
+            </button>
+          )}
+        </ComposeField>
+
+        {showCcBcc && (
+          <>
+            <ComposeField label="Cc">
+              <input
+                type="text"
+                value={values.cc}
+                onChange={(e) => updateValue("cc", e.target.value)}
+                className="flex-1 bg-transparent text-sm text-foreground focus:outline-none"
+              />
+            </ComposeField>
+            <ComposeField label="Bcc">
+              <input
+                type="text"
+                value={values.bcc}
+                onChange={(e) => updateValue("bcc", e.target.value)}
+                className="flex-1 bg-transparent text-sm text-foreground focus:outline-none"
+              />
+            </ComposeField>
+          </>
+        )}
+
+        <ComposeField label="Subject">
+          <input
+            type="text"
+            value={values.subject}
+            onChange={(e) => updateValue("subject", e.target.value)}
+            className="flex-1 bg-transparent text-sm text-foreground focus:outline-none"
+          />
+        </ComposeField>
+      </div>
+
+      <textarea
+        ref={bodyRef}
+        value={values.body}
+        onChange={(e) => updateValue("body", e.target.value)}
+        className="flex-1 min-h-[200px] px-4 py-3 bg-transparent text-sm text-foreground resize-none focus:outline-none"
+      />
+
+      {/* Attachments */}
+      {attachments.length + forwardedAttachments.length > 0 && (
+        <div className="flex flex-wrap gap-2 px-4 pb-2">
+          {forwardedAttachments.map(({ attachment }, index) => (
+            <div
+              key={`forwarded-${attachment.partId}-${index}`}
+              className="flex items-center gap-2 max-w-[220px] pl-2.5 pr-1 py-1 rounded-lg bg-background-secondary text-xs"
+            >
+              <span className="truncate text-foreground">{attachment.filename}</span>
+              <span className="text-foreground-muted shrink-0">
+                {formatFileSize(attachment.size)}
+              </span>
+              <button
+                onClick={() => {
+                  setForwardedAttachments((prev) => prev.filter((_, i) => i !== index));
+                  setDirty(true);
+                }}
+                className="p-0.5 text-foreground-muted hover:text-foreground"
+              >
+                <svg className="h-3.5 w-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M6 18 18 6M6 6l12 12" />
+                </svg>
+                <span className="sr-only">Remove {attachment.filename}</span>
+              </button>
+            </div>
+          ))}
+          {attachments.map((attachment, index) => (
+            <div
+              key={`${attachment.filename}-${index}`}
+              className="flex items-center gap-2 max-w-[220px] pl-2.5 pr-1 py-1 rounded-lg bg-background-secondary text-xs"
+            >
+              <span className="truncate text-foreground">{attachment.filename}</span>
+              <span className="text-foreground-muted shrink-0">
+                {formatFileSize(attachment.size)}
+              </span>
+              <button
+                onClick={() => {
+                  setAttachments((prev) => prev.filter((_, i) => i !== index));
+                  setDirty(true);
+                }}
+                className="p-0.5 text-foreground-muted hover:text-foreground"
+              >
+                <svg className="h-3.5 w-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M6 18 18 6M6 6l12 12" />
+                </svg>
+                <span className="sr-only">Remove {attachment.filename}</span>
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {error && (
+        <div className="mx-4 mb-2 bg-destructive-muted text-destructive px-3 py-2 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      {/* Footer */}
+      <div className="flex items-center gap-2 px-4 py-3 border-t border-border">
+        <Button size="sm" onClick={() => handleSend()} disabled={sending}>
+          {sending && (
+            <div className="h-3.5 w-3.5 border-2 border-current border-t-transparent rounded-full animate-spin" />
+          )}
+          Send
+        </Button>
+        <TimePicker
+          label="Schedule"
+          heading="Schedule send"
+          above
+          disabled={sending}
+          onPick={(sendAt) => handleSend(sendAt)}
+        />
+        <select
+          value={undoSendSeconds}
+          onChange={(e) => setUndoSendSeconds(Number(e.target.value))}
+          title="How long a sent message can still be undone"
+          className="h-8 px-1 rounded-md bg-transparent text-xs text-foreground-muted hover:text-foreground focus:outline-none"
+        >
+          {UNDO_SEND_CHOICES.map((seconds) => (
+            <option key={seconds} value={seconds}>
+              Undo {seconds}s
+            </option>
+          ))}
+        </select>
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            handleFiles(e.target.files);
+            e.target.value = "";
+          }}
+        />
+        <Button
+          variant="ghost"
+          size="sm"
+          title="Attach files"
+          onClick={() => fileInputRef.current?.click()}
+        >
+          <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="m18.375 12.739-7.693 7.693a4.5 4.5 0 0 1-6.364-6.364l10.94-10.94A3 3 0 1 1 19.5 7.372L8.552 18.32m.009-.01-.01.01m5.699-9.941-7.81 7.81a1.5 1.5 0 0 0 2.112 2.13" />
+          </svg>
+        </Button>
+        <span
+          className={cn(
+            "ml-auto text-xs",
+            saveState === "failed" ? "text-destructive" : "text-foreground-muted"
+          )}
+        >
+          {saveState === "saving" && "Saving..."}
+          {saveState === "saved" && "Draft saved"}
+          {saveState === "failed" && "Not saved to Gmail - kept on this device"}
+          {saveState === "idle" && <span className="hidden sm:inline">⌘ Enter to send</span>}
+        </span>
+        <Button variant="ghost" size="sm" title="Discard draft" onClick={handleDiscard}>
+          <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="m14.74 9-.346 9m-4.788 0L9.26 9m9.968-3.21c.342.052.682.107 1.022.166m-1.022-.165L18.16 19.673a2.25 2.25 0 0 1-2.244 2.077H8.084a2.25 2.25 0 0 1-2.244-2.077L4.772 5.79m14.456 0a48.108 48.108 0 0 0-3.478-.397m-12 .562c.34-.059.68-.114 1.022-.165m0 0a48.11 48.11 0 0 1 3.478-.397m7.5 0v-.916c0-1.18-.91-2.164-2.09-2.201a51.964 51.964 0 0 0-3.32 0c-1.18.037-2.09 1.022-2.09 2.201v.916m7.5 0a48.667 48.667 0 0 0-7.5 0" />
+          </svg>
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function ComposeField({
+  label,
+  children,
+}: {
+  label: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <label className="flex items-center gap-2 py-2 border-b border-border-muted">
+      <span className="text-sm text-foreground-muted w-14 shrink-0">{label}</span>
+      {children}
+    </label>
+  );
+}
+
+function readFileAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      // Strip the "data:<mime>;base64," prefix
+      const result = reader.result as string;
+      resolve(result.slice(result.indexOf(",") + 1));
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+// HTML alternative for the plain-text body
+function textToHtml(text: string): string {
+  const escaped = text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+  return `<div dir="ltr">${escaped.replace(/\n/g, "<br>")}</div>`;
+}
@@ -3,21 +3,16 @@
 import { useEffect, useState, useCallback } from "react";
 import { format } from "date-fns";
 import { SenderAvatar } from "./sender-avatar";
+import { AttachmentStrip, attachmentUrl } from "./attachment-strip";
+import { UnsubscribeButton } from "./unsubscribe-button";
+import { OriginalMessage } from "./original-message";
+import { SenderWarnings, VerificationBadge } from "./sender-verification";
 import { Button, EmailDetailSkeleton } from "@/components/ui";
-import { useUIStore, useEmailStore } from "@/lib/stores";
+import { accountUrl, useUIStore, useEmailStore } from "@/lib/stores";
 import { cn, extractName, extractEmail } from "@/lib/utils";
 import { FeedbackButtons } from "@/components/ai/feedback-buttons";
-
-interface EmailDetailData {
-  id: string;
-  threadId: string;
-  from: string;
-  to: string;
-  subject: string;
-  date: string;
-  body: string;
-  isHtml: boolean;
-}
+import type { FullMessage } from "@/lib/gmail";
+import { buildReply, buildForward } from "@/lib/compose";
 
 interface EmailSummary {
   summary: string;
@@ -27,12 +22,19 @@ interface EmailSummary {
   isSaved?: boolean; // Indicates if loaded from database
 }
 
-export function EmailDetail() {
-  const { detailPanelOpen, closeDetailPanel } = useUIStore();
-  const { selectedEmailId, emails, markAsRead } = useEmailStore();
-  const [emailData, setEmailData] = useState<EmailDetailData | null>(null);
+interface EmailDetailProps {
+  userEmail?: string;
+}
+
+export function EmailDetail({ userEmail }: EmailDetailProps) {
+  const { detailPanelOpen, closeDetailPanel, openCompose } = useUIStore();
+  const { selectedEmailId, emails, markAsRead, markAsUnread, archiveEmails, trashEmails } =
+    useEmailStore();
+  const [emailData, setEmailData] = useState<FullMessage | null>(null);
+  const [threadMessages, setThreadMessages] = useState<FullMessage[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [showOriginal, setShowOriginal] = useState(false);
 
   // AI Summary state
   const [summary, setSummary] = useState<EmailSummary | null>(null);
@@ -40,11 +42,16 @@ export function EmailDetail() {
   const [summaryError, setSummaryError] = useState<string | null>(null);
 
   const selectedEmail = emails.find((e) => e.id === selectedEmailId);
+  const selectedThreadId = selectedEmail?.threadId;
+  const selectedAccountId = selectedEmail?.accountId;
+  const unsubscribe = selectedEmail?.unsubscribe ?? emailData?.unsubscribe;
+  // Reply all leaves out the address of the account the email arrived in
+  const replyAddress = selectedAccountId ?? userEmail;
 
   // Load saved summary from database
-  const loadSavedSummary = useCallback(async (emailId: string) => {
+  const loadSavedSummary = useCallback(async (emailId: string, accountId?: string) => {
     try {
-      const response = await fetch(`/api/summaries/${emailId}`);
+      const response = await fetch(accountUrl(`/api/summaries/${emailId}`, accountId));
       const data = await response.json();
 
       if (response.ok && data.summary) {
@@ -58,17 +65,20 @@ export function EmailDetail() {
   }, []);
 
   // Save summary to database
-  const saveSummary = useCallback(async (emailId: string, summaryData: EmailSummary) => {
-    try {
-      await fetch(`/api/summaries/${emailId}`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(summaryData),
-      });
-    } catch (err) {
-      console.error("Failed to save summary:", err);
-    }
-  }, []);
+  const saveSummary = useCallback(
+    async (emailId: string, accountId: string | undefined, summaryData: EmailSummary) => {
+      try {
+        await fetch(accountUrl(`/api/summaries/${emailId}`, accountId), {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(summaryData),
+        });
+      } catch (err) {
+        console.error("Failed to save summary:", err);
+      }
+    },
+    []
+  );
 
   // Summarize email with AI
   const handleSummarize = useCallback(async () => {
@@ -105,18 +115,19 @@ export function EmailDetail() {
         const newSummary = data.result[0];
         setSummary({ ...newSummary, isSaved: true });
         // Save to database
-        await saveSummary(emailData.id, newSummary);
+        await saveSummary(emailData.id, selectedAccountId, newSummary);
       }
     } catch (err) {
       setSummaryError(err instanceof Error ? err.message : "Failed to summarize");
     } finally {
       setSummaryLoading(false);
     }
-  }, [emailData, saveSummary]);
+  }, [emailData, selectedAccountId, saveSummary]);
 
   useEffect(() => {
     if (!selectedEmailId || !detailPanelOpen) {
       setEmailData(null);
+      setThreadMessages([]);
       setSummary(null);
       setSummaryError(null);
       return;
@@ -131,18 +142,32 @@ export function EmailDetail() {
       setError(null);
 
       try {
-        const response = await fetch(`/api/gmail/messages/${selectedEmailId}`);
+        // Load the whole conversation when the thread is known
+        const response = await fetch(
+          accountUrl(
+            selectedThreadId
+              ? `/api/gmail/threads/${selectedThreadId}`
+              : `/api/gmail/messages/${selectedEmailId}`,
+            selectedAccountId
+          )
+        );
         const data = await response.json();
 
         if (!response.ok) {
           throw new Error(data.error || "Failed to fetch email");
         }
 
-        setEmailData(data);
-        markAsRead([selectedEmailId]);
+        const messages: FullMessage[] = selectedThreadId ? data.messages : [data];
+        setThreadMessages(messages);
+        setEmailData(
+          messages.find((m) => m.id === selectedEmailId) ??
+            messages[messages.length - 1] ??
+            null
+        );
+        markAsRead(messages.map((m) => m.id));
 
         // Try to load saved summary
-        await loadSavedSummary(selectedEmailId);
+        await loadSavedSummary(selectedEmailId, selectedAccountId);
       } catch (err) {
         setError(err instanceof Error ? err.message : "An error occurred");
       } finally {
@@ -151,7 +176,14 @@ export function EmailDetail() {
     };
 
     fetchEmailDetail();
-  }, [selectedEmailId, detailPanelOpen, markAsRead, loadSavedSummary]);
+  }, [
+    selectedEmailId,
+    selectedThreadId,
+    selectedAccountId,
+    detailPanelOpen,
+    markAsRead,
+    loadSavedSummary,
+  ]);
 
   // Close on escape
   useEffect(() => {
@@ -194,6 +226,14 @@ export function EmailDetail() {
           </Button>
 
           <div className="flex items-center gap-2">
+            {selectedEmailId && unsubscribe && (
+              <UnsubscribeButton
+                key={selectedEmailId}
+                messageId={selectedEmailId}
+                accountId={selectedAccountId}
+                options={unsubscribe}
+              />
+            )}
             <Button
               variant="ghost"
               size="sm"
@@ -211,12 +251,50 @@ export function EmailDetail() {
               )}
               <span className="ml-1 text-xs">Summarize</span>
             </Button>
-            <Button variant="ghost" size="sm" title="Archive">
+            <Button
+              variant="ghost"
+              size="sm"
+              title="Show original"
+              disabled={!emailData}
+              onClick={() => setShowOriginal(true)}
+            >
+              <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M17.25 6.75 22.5 12l-5.25 5.25m-10.5 0L1.5 12l5.25-5.25m7.5-3-4.5 16.5" />
+              </svg>
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              title="Mark as unread"
+              disabled={!emailData}
+              onClick={() => {
+                if (!emailData) return;
+                markAsUnread([emailData.id]);
+                closeDetailPanel();
+              }}
+            >
+              <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M21.75 6.75v10.5a2.25 2.25 0 0 1-2.25 2.25h-15a2.25 2.25 0 0 1-2.25-2.25V6.75m19.5 0A2.25 2.25 0 0 0 19.5 4.5h-15a2.25 2.25 0 0 0-2.25 2.25m19.5 0v.243a2.25 2.25 0 0 1-1.07 1.916l-7.5 4.615a2.25 2.25 0 0 1-2.36 0L3.32 8.91a2.25 2.25 0 0 1-1.07-1.916V6.75" />
+              </svg>
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              title="Archive"
+              disabled={!emailData}
+              onClick={() => emailData && archiveEmails([emailData.id])}
+            >
               <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
                 <path strokeLinecap="round" strokeLinejoin="round" d="m20.25 7.5-.625 10.632a2.25 2.25 0 0 1-2.247 2.118H6.622a2.25 2.25 0 0 1-2.247-2.118L3.75 7.5m8.25 3v6.75m0 0-3-3m3 3 3-3M3.375 7.5h17.25c.621 0 1.125-.504 1.125-1.125v-1.5c0-.621-.504-1.125-1.125-1.125H3.375c-.621 0-1.125.504-1.125 1.125v1.5c0 .621.504 1.125 1.125 1.125Z" />
               </svg>
             </Button>
-            <Button variant="ghost" size="sm" title="Delete">
+            <Button
+              variant="ghost"
+              size="sm"
+              title="Delete"
+              disabled={!emailData}
+              onClick={() => emailData && trashEmails([emailData.id])}
+            >
               <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
                 <path strokeLinecap="round" strokeLinejoin="round" d="m14.74 9-.346 9m-4.788 0L9.26 9m9.968-3.21c.342.052.682.107 1.022.166m-1.022-.165L18.16 19.673a2.25 2.25 0 0 1-2.244 2.077H8.084a2.25 2.25 0 0 1-2.244-2.077L4.772 5.79m14.456 0a48.108 48.108 0 0 0-3.478-.397m-12 .562c.34-.059.68-.114 1.022-.165m0 0a48.11 48.11 0 0 1 3.478-.397m7.5 0v-.916c0-1.18-.91-2.164-2.09-2.201a51.964 51.964 0 0 0-3.32 0c-1.18.037-2.09 1.022-2.09 2.201v.916m7.5 0a48.667 48.667 0 0 0-7.5 0" />
               </svg>
@@ -243,27 +321,40 @@ export function EmailDetail() {
                 {emailData.subject || "(no subject)"}
               </h1>
 
-              {/* Sender info */}
-              <div className="flex items-start gap-3 mb-6 pb-6 border-b border-border">
-                <SenderAvatar from={emailData.from} size="lg" />
-                <div className="flex-1 min-w-0">
-                  <div className="flex items-center justify-between gap-2 mb-1">
-                    <span className="font-medium text-foreground truncate">
-                      {extractName(emailData.from)}
-                    </span>
-                    <span className="text-sm text-foreground-muted shrink-0">
-                      {formatDetailDate(emailData.date)}
-                    </span>
-                  </div>
-                  <div className="text-sm text-foreground-muted truncate">
-                    {extractEmail(emailData.from)}
-                  </div>
-                  <div className="text-sm text-foreground-muted mt-1">
-                    <span className="text-foreground-muted">To: </span>
-                    {emailData.to}
+              {/* Sender info - conversations show it per message instead */}
+              {threadMessages.length > 1 ? (
+                <div className="text-sm text-foreground-muted mb-6 pb-6 border-b border-border">
+                  {threadMessages.length} messages in this conversation
+                </div>
+              ) : (
+                <div className="flex items-start gap-3 mb-6 pb-6 border-b border-border">
+                  <SenderAvatar from={emailData.from} size="lg" />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center justify-between gap-2 mb-1">
+                      <div className="flex items-center gap-2 min-w-0">
+                        <span className="font-medium text-foreground truncate">
+                          {extractName(emailData.from)}
+                        </span>
+                        <VerificationBadge verdict={emailData.authentication} />
+                      </div>
+                      <span className="text-sm text-foreground-muted shrink-0">
+                        {formatDetailDate(emailData.date)}
+                      </span>
+                    </div>
+                    <div className="text-sm text-foreground-muted truncate">
+                      {extractEmail(emailData.from)}
+                    </div>
+                    <div className="text-sm text-foreground-muted mt-1">
+                      <span className="text-foreground-muted">To: </span>
+                      {emailData.to}
+                    </div>
                   </div>
                 </div>
-              </div>
+              )}
+
+              {threadMessages.length <= 1 && (
+                <SenderWarnings warnings={emailData.senderWarnings} />
+              )}
 
               {/* AI Summary */}
               {summaryError && (
@@ -346,6 +437,7 @@ export function EmailDetail() {
                       responseType="summary"
                       responseData={summary}
                       context={emailData?.id}
+                      accountId={selectedAccountId}
                     />
                     <button
                       onClick={() => setSummary(null)}
@@ -358,19 +450,76 @@ export function EmailDetail() {
               )}
 
               {/* Body */}
-              {emailData.isHtml ? (
+              {threadMessages.length > 1 ? (
+                <ConversationView
+                  key={emailData.id}
+                  messages={threadMessages}
+                  activeMessageId={emailData.id}
+                  accountId={selectedAccountId}
+                />
+              ) : (
                 <div className="bg-zinc-50 dark:bg-zinc-700 rounded-2xl p-6 border border-zinc-200 dark:border-zinc-500">
-                  <div
-                    className="email-body max-w-none"
-                    dangerouslySetInnerHTML={{ __html: sanitizeHtml(emailData.body) }}
+                  <MessageBody
+                    key={emailData.id}
+                    message={emailData}
+                    accountId={selectedAccountId}
+                  />
+                  <AttachmentStrip
+                    messageId={emailData.id}
+                    accountId={selectedAccountId}
+                    attachments={visibleAttachments(emailData)}
                   />
                 </div>
-              ) : (
-                <EmailThreadView body={emailData.body} />
               )}
+
+              {/* Reply actions */}
+              <div className="flex items-center gap-2 mt-6">
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() =>
+                    openCompose({
+                      ...buildReply(emailData, { userEmail: replyAddress }),
+                      accountId: selectedAccountId,
+                    })
+                  }
+                >
+                  Reply
+                </Button>
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() =>
+                    openCompose({
+                      ...buildReply(emailData, { replyAll: true, userEmail: replyAddress }),
+                      accountId: selectedAccountId,
+                    })
+                  }
+                >
+                  Reply all
+                </Button>
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() =>
+                    openCompose({ ...buildForward(emailData), accountId: selectedAccountId })
+                  }
+                >
+                  Forward
+                </Button>
+              </div>
             </div>
           )}
 
+          {showOriginal && emailData && (
+            <OriginalMessage
+              key={emailData.id}
+              messageId={emailData.id}
+              accountId={selectedAccountId}
+              onClose={() => setShowOriginal(false)}
+            />
+          )}
+
           {!loading && !error && !emailData && selectedEmail && (
             <div className="p-6 text-center text-foreground-muted">
               Select an email to view its contents
@@ -391,6 +540,38 @@ function formatDetailDate(dateStr: string): string {
   }
 }
 
+// Point cid: references (embedded logos, product images) at the attachment proxy
+function resolveInlineImages(html: string, message: FullMessage, accountId?: string): string {
+  const byContentId = new Map(
+    message.attachments
+      .filter((a) => a.contentId)
+      .map((a) => [a.contentId!.toLowerCase(), a])
+  );
+  if (byContentId.size === 0) return html;
+
+  return html.replace(/cid:([^"'\s>)]+)/gi, (match, rawId: string) => {
+    let contentId = rawId;
+    try {
+      contentId = decodeURIComponent(rawId);
+    } catch {
+      // Keep the raw reference if it isn't valid percent-encoding
+    }
+    const attachment = byContentId.get(contentId.toLowerCase());
+    // Escape & since the URL lands inside an HTML attribute
+    return attachment
+      ? attachmentUrl(message.id, attachment, true, accountId).replace(/&/g, "&amp;")
+      : match;
+  });
+}
+
+// Inline images shown in the body don't belong in the attachment strip
+function visibleAttachments(message: FullMessage) {
+  const body = message.isHtml ? message.body.toLowerCase() : "";
+  return message.attachments.filter(
+    (a) => !a.contentId || !body.includes(`cid:${a.contentId.toLowerCase()}`)
+  );
+}
+
 // HTML sanitization - removes dangerous elements and problematic inline styles
 function sanitizeHtml(html: string): string {
   return html
@@ -412,166 +593,180 @@ function sanitizeHtml(html: string): string {
     .replace(/(<font[^>]*)\s+color\s*=\s*["'][^"']*["']/gi, "$1");
 }
 
-// Parse email thread into separate messages
-interface ThreadMessage {
-  sender?: string;
-  date?: string;
-  content: string;
-  isQuoted?: boolean;
-}
-
-function parseEmailThread(body: string): ThreadMessage[] {
-  const messages: ThreadMessage[] = [];
-
-  // Split by common reply patterns
-  const patterns = [
-    /^-{3,}\s*(?:Original Message|Forwarded message)\s*-{3,}/gim,
-    /^On .+(?:wrote|said):\s*$/gim,
-    /^From:\s*.+$/gim,
+// Split a plain-text body into the new content and the quoted history below it
+// ("On ... wrote:", "-----Original Message-----", Outlook "From:/Sent:" blocks)
+function splitQuotedText(body: string): { content: string; quoted: string } {
+  const markers = [
+    /^On .+(?:wrote|said):\s*$/m,
+    /^-{3,}\s*(?:Original Message|Forwarded message)\s*-{3,}/im,
+    /^From:\s*.+\n(?:Sent|Date):/m,
   ];
 
-  // Try to detect if this is a thread
-  let hasThread = false;
-  for (const pattern of patterns) {
-    if (pattern.test(body)) {
-      hasThread = true;
-      break;
+  let index = -1;
+  for (const marker of markers) {
+    const match = marker.exec(body);
+    if (match && match.index > 0 && (index === -1 || match.index < index)) {
+      index = match.index;
     }
   }
 
-  if (!hasThread) {
-    // Single message, no thread
-    return [{ content: body }];
+  if (index === -1) {
+    return { content: body, quoted: "" };
   }
 
-  // Split by "On ... wrote:" or "From:" patterns
-  const threadPattern = /((?:^|\n)(?:On .+(?:wrote|said):|-{3,}\s*(?:Original Message|Forwarded message)\s*-{3,}|From:\s*.+?\n(?:Sent|Date|To|Subject):.+?(?:\n|$)))/gi;
-
-  const parts = body.split(threadPattern).filter(Boolean);
-
-  if (parts.length <= 1) {
-    return [{ content: body }];
-  }
-
-  let currentContent = "";
-
-  for (let i = 0; i < parts.length; i++) {
-    const part = parts[i].trim();
-
-    // Check if this is a header/separator
-    const isHeader = /^On .+(?:wrote|said):|^-{3,}|^From:\s*.+/i.test(part);
-
-    if (isHeader) {
-      // Save previous content as a message
-      if (currentContent.trim()) {
-        messages.push({ content: currentContent.trim() });
-      }
-
-      // Extract sender/date from header
-      const onMatch = part.match(/^On (.+?),?\s+(.+?)\s+(?:wrote|said):/i);
-      const fromMatch = part.match(/^From:\s*(.+?)(?:\n|$)/i);
+  return { content: body.slice(0, index).trimEnd(), quoted: body.slice(index) };
+}
 
-      currentContent = "";
+// Same for HTML bodies, using the wrappers mail clients put around history
+function splitQuotedHtml(html: string): { content: string; quoted: string } {
+  const markers = [
+    /<div[^>]+class=["']?gmail_quote/i,
+    /<blockquote[^>]+type=["']?cite/i,
+    /<div[^>]+id=["']?(?:appendonsend|divRplyFwdMsg)/i,
+    /<hr[^>]+id=["']?stopSpelling/i,
+  ];
 
-      if (onMatch) {
-        messages.push({
-          sender: onMatch[2]?.trim(),
-          date: onMatch[1]?.trim(),
-          content: "",
-          isQuoted: true,
-        });
-      } else if (fromMatch) {
-        messages.push({
-          sender: fromMatch[1]?.trim(),
-          content: "",
-          isQuoted: true,
-        });
-      }
-    } else {
-      // This is content
-      if (messages.length > 0 && messages[messages.length - 1].content === "") {
-        messages[messages.length - 1].content = part;
-      } else {
-        currentContent += (currentContent ? "\n" : "") + part;
-      }
+  let index = -1;
+  for (const marker of markers) {
+    const match = marker.exec(html);
+    if (match && match.index > 0 && (index === -1 || match.index < index)) {
+      index = match.index;
     }
   }
 
-  // Add any remaining content
-  if (currentContent.trim()) {
-    messages.push({ content: currentContent.trim() });
+  if (index === -1) {
+    return { content: html, quoted: "" };
   }
 
-  // Filter out empty messages and reverse so newest is first
-  return messages.filter(m => m.content.trim()).reverse();
+  return { content: html.slice(0, index), quoted: html.slice(index) };
 }
 
-function EmailThreadView({ body }: { body: string }) {
-  const messages = parseEmailThread(body);
+function MessageBody({ message, accountId }: { message: FullMessage; accountId?: string }) {
+  const [showQuoted, setShowQuoted] = useState(false);
+  const { content, quoted } = message.isHtml
+    ? splitQuotedHtml(message.body)
+    : splitQuotedText(message.body);
 
-  if (messages.length === 1 && !messages[0].isQuoted) {
-    // Single message, render simply with better typography
-    return (
-      <div className="space-y-4">
-        <div className="bg-zinc-50 dark:bg-zinc-700 rounded-2xl p-6 border border-zinc-200 dark:border-zinc-500">
-          <div
-            className="text-[15px] leading-[1.75] text-zinc-800 dark:text-zinc-50 font-[system-ui,-apple-system,sans-serif]"
-            style={{ fontFeatureSettings: "'kern' 1, 'liga' 1" }}
-          >
-            {formatEmailContent(messages[0].content)}
-          </div>
-        </div>
+  const renderPart = (part: string) =>
+    message.isHtml ? (
+      <div
+        className="email-body max-w-none"
+        dangerouslySetInnerHTML={{ __html: sanitizeHtml(resolveInlineImages(part, message, accountId)) }}
+      />
+    ) : (
+      <div
+        className="text-[15px] leading-[1.75] text-zinc-800 dark:text-zinc-50 font-[system-ui,-apple-system,sans-serif]"
+        style={{ fontFeatureSettings: "'kern' 1, 'liga' 1" }}
+      >
+        {formatEmailContent(part)}
       </div>
     );
-  }
 
   return (
-    <div className="space-y-4">
-      {messages.map((message, index) => (
-        <div
-          key={index}
-          className={cn(
-            "rounded-2xl p-6 border",
-            message.isQuoted
-              ? "bg-zinc-100 dark:bg-zinc-600 border-zinc-200 dark:border-zinc-500 ml-4"
-              : "bg-zinc-50 dark:bg-zinc-700 border-zinc-200 dark:border-zinc-500"
-          )}
-        >
-          {/* Message header */}
-          {(message.sender || message.date) && (
-            <div className="flex items-center gap-3 mb-4 pb-4 border-b border-zinc-300 dark:border-zinc-500">
-              <div className="h-9 w-9 rounded-full bg-blue-500/20 dark:bg-blue-400/20 flex items-center justify-center text-sm font-semibold text-blue-600 dark:text-blue-300">
-                {message.sender ? getInitialsFromSender(message.sender) : "?"}
-              </div>
-              <div className="flex-1 min-w-0">
-                {message.sender && (
-                  <div className="text-sm font-semibold text-zinc-900 dark:text-zinc-50 truncate">
-                    {cleanSenderName(message.sender)}
-                  </div>
-                )}
-                {message.date && (
-                  <div className="text-xs text-zinc-500 dark:text-zinc-300 mt-0.5">
-                    {message.date}
-                  </div>
-                )}
-              </div>
+    <div>
+      {renderPart(content)}
+
+      {quoted && (
+        <div className="mt-3">
+          <button
+            onClick={() => setShowQuoted(!showQuoted)}
+            title={showQuoted ? "Hide quoted text" : "Show quoted text"}
+            className="px-2 py-0.5 rounded bg-zinc-200 dark:bg-zinc-600 text-xs text-zinc-600 dark:text-zinc-300 hover:bg-zinc-300 dark:hover:bg-zinc-500 transition-colors"
+          >
+            •••
+          </button>
+          {showQuoted && (
+            <div className="mt-3 pl-3 border-l-2 border-zinc-300 dark:border-zinc-500 opacity-80">
+              {renderPart(quoted)}
             </div>
           )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Conversation built from the Gmail thread, newest message first. The active
+// message and the latest reply start expanded, the rest collapse to a snippet.
+function ConversationView({
+  messages,
+  activeMessageId,
+  accountId,
+}: {
+  messages: FullMessage[];
+  activeMessageId: string;
+  accountId?: string;
+}) {
+  const newestFirst = [...messages].reverse();
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(
+    () => new Set([activeMessageId, newestFirst[0]?.id].filter(Boolean) as string[])
+  );
+
+  const toggleExpanded = (id: string) => {
+    setExpandedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
 
-          {/* Message content */}
+  return (
+    <div className="space-y-3">
+      {newestFirst.map((message) => {
+        const isExpanded = expandedIds.has(message.id);
+
+        return (
           <div
+            key={message.id}
             className={cn(
-              "text-[15px] leading-[1.75] font-[system-ui,-apple-system,sans-serif]",
-              message.isQuoted
-                ? "text-zinc-700 dark:text-zinc-200"
-                : "text-zinc-800 dark:text-zinc-50"
+              "rounded-2xl border",
+              message.id === activeMessageId
+                ? "bg-zinc-50 dark:bg-zinc-700 border-primary/40"
+                : "bg-zinc-50 dark:bg-zinc-700 border-zinc-200 dark:border-zinc-500"
             )}
-            style={{ fontFeatureSettings: "'kern' 1, 'liga' 1" }}
           >
-            {formatEmailContent(message.content)}
+            {/* Message header */}
+            <button
+              onClick={() => toggleExpanded(message.id)}
+              className="w-full flex items-start gap-3 p-4 text-left"
+            >
+              <SenderAvatar from={message.from} size="sm" />
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <span className="text-sm font-semibold text-zinc-900 dark:text-zinc-50 truncate">
+                      {extractName(message.from)}
+                    </span>
+                    <VerificationBadge verdict={message.authentication} />
+                  </div>
+                  <span className="text-xs text-zinc-500 dark:text-zinc-300 shrink-0">
+                    {formatDetailDate(message.date)}
+                  </span>
+                </div>
+                <div className="text-xs text-zinc-500 dark:text-zinc-300 truncate mt-0.5">
+                  {isExpanded ? `To: ${message.to}` : message.snippet}
+                </div>
+              </div>
+            </button>
+
+            {isExpanded && (
+              <div className="px-6 pb-6 pt-2 border-t border-zinc-200 dark:border-zinc-500">
+                <SenderWarnings warnings={message.senderWarnings} />
+                <MessageBody message={message} accountId={accountId} />
+                <AttachmentStrip
+                  messageId={message.id}
+                  accountId={accountId}
+                  attachments={visibleAttachments(message)}
+                />
+              </div>
+            )}
           </div>
-        </div>
-      ))}
+        );
+      })}
     </div>
   );
 }
@@ -630,22 +825,3 @@ function formatEmailContent(content: string): React.ReactNode {
 
   return elements;
 }
-
-function getInitialsFromSender(sender: string): string {
-  // Extract name from email format like "Name <email>" or just "Name"
-  const nameMatch = sender.match(/^([^<]+)/);
-  const name = nameMatch ? nameMatch[1].trim() : sender;
-
-  const parts = name.split(/\s+/).filter(Boolean);
-  if (parts.length === 0) return "?";
-  if (parts.length === 1) return parts[0].charAt(0).toUpperCase();
-  return (parts[0].charAt(0) + parts[parts.length - 1].charAt(0)).toUpperCase();
-}
-
-function cleanSenderName(sender: string): string {
-  // Remove email part and clean up
-  return sender
-    .replace(/<[^>]+>/g, "")
-    .replace(/"/g, "")
-    .trim();
-}
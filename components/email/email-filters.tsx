@@ -1,34 +1,67 @@
 "use client";
 
-import { useCallback, useEffect, useState, useRef } from "react";
+import { useCallback, useEffect, useMemo, useState, useRef } from "react";
 import { Button } from "@/components/ui";
-import { useEmailStore } from "@/lib/stores";
+import { useEmailStore, useUIStore, type Email } from "@/lib/stores";
 import { cn } from "@/lib/utils";
+import { filtersToQuery, parseGmailQuery, queryToFilters, type QueryError } from "@/lib/gmail-query";
 import { CategoryChip, CLASSIFICATION_CATEGORIES } from "./classification-badge";
+import { InstantSearch } from "./instant-search";
 
 interface EmailFiltersProps {
   onRefresh: () => void;
 }
 
 export function EmailFilters({ onRefresh }: EmailFiltersProps) {
-  const { filters, updateFilter, resetFilters, classifications, isClassifying } = useEmailStore();
-  const [localSearch, setLocalSearch] = useState(filters.search);
+  const {
+    filters,
+    updateFilter,
+    updateFilters,
+    resetFilters,
+    classifications,
+    isClassifying,
+    mergeNewEmails,
+    selectEmail,
+  } = useEmailStore();
+  const { openCompose, openDetailPanel } = useUIStore();
+  // The search box shows the whole Gmail query, chips included
+  const [localSearch, setLocalSearch] = useState(() => filtersToQuery(filters));
+  const [showInstantSearch, setShowInstantSearch] = useState(false);
   const [showCategoryFilter, setShowCategoryFilter] = useState(false);
   const searchInputRef = useRef<HTMLInputElement>(null);
   const dropdownRef = useRef<HTMLDivElement>(null);
+  const highlightRef = useRef<HTMLDivElement>(null);
 
-  // Debounce search
-  useEffect(() => {
-    const timer = setTimeout(() => {
-      updateFilter("search", localSearch);
-    }, 500);
-    return () => clearTimeout(timer);
-  }, [localSearch, updateFilter]);
+  const queryErrors = useMemo(() => parseGmailQuery(localSearch).errors, [localSearch]);
+
+  // Typing shows instant results from the local index; the list itself is
+  // only re-queried through Gmail search when the search is submitted.
+  // Operators with a chip of their own (is:unread, has:attachment, dates)
+  // switch the chip on instead of staying in the search text.
+  const submitSearch = useCallback(
+    (value: string) => {
+      const { filters: parsed, errors } = queryToFilters(value);
+      if (errors.length > 0) return;
+
+      setShowInstantSearch(false);
+      updateFilters(parsed);
+    },
+    [updateFilters]
+  );
 
-  // Sync local search with store
+  const openSearchResult = (email: Email) => {
+    // Results can be older than anything loaded in the list
+    mergeNewEmails([email]);
+    selectEmail(email.id);
+    openDetailPanel();
+    setShowInstantSearch(false);
+  };
+
+  // Sync local search with store, so toggling a chip rewrites the query
+  const { search, unreadOnly, hasAttachment, dateRange } = filters;
   useEffect(() => {
-    setLocalSearch(filters.search);
-  }, [filters.search]);
+    setLocalSearch(filtersToQuery({ search, unreadOnly, hasAttachment, dateRange }));
+  }, [search, unreadOnly, hasAttachment, dateRange]);
 
   // Focus search on "/" key
   useEffect(() => {
@@ -67,6 +100,7 @@ export function EmailFilters({ onRefresh }: EmailFiltersProps) {
   }, [showCategoryFilter]);
 
   const hasActiveFilters =
+    filters.view !== "mail" ||
     filters.unreadOnly ||
     filters.hasAttachment ||
     filters.dateRange !== "all" ||
@@ -110,18 +144,48 @@ export function EmailFilters({ onRefresh }: EmailFiltersProps) {
           type="text"
           placeholder="Search emails..."
           value={localSearch}
-          onChange={(e) => setLocalSearch(e.target.value)}
+          onChange={(e) => {
+            setLocalSearch(e.target.value);
+            setShowInstantSearch(true);
+          }}
+          onFocus={() => setShowInstantSearch(true)}
+          onBlur={() => setShowInstantSearch(false)}
+          onScroll={(e) => {
+            if (highlightRef.current) {
+              highlightRef.current.scrollLeft = e.currentTarget.scrollLeft;
+            }
+          }}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              submitSearch(localSearch.trim());
+            } else if (e.key === "Escape") {
+              setShowInstantSearch(false);
+            }
+          }}
           className={cn(
             "w-full h-9 pl-9 pr-3 rounded-lg",
             "bg-background-secondary border border-transparent",
             "text-sm text-foreground placeholder:text-foreground-muted",
             "focus:outline-none focus:border-primary focus:bg-surface",
-            "transition-colors duration-200"
+            "transition-colors duration-200",
+            queryErrors.length > 0 && "focus:border-destructive"
           )}
         />
+        {queryErrors.length > 0 && (
+          <div
+            ref={highlightRef}
+            aria-hidden
+            className="absolute inset-0 pl-9 pr-3 flex items-center overflow-hidden whitespace-pre text-sm text-transparent pointer-events-none"
+          >
+            <QueryHighlights query={localSearch} errors={queryErrors} />
+          </div>
+        )}
         {localSearch && (
           <button
-            onClick={() => setLocalSearch("")}
+            onClick={() => {
+              setLocalSearch("");
+              submitSearch("");
+            }}
             className="absolute right-2 top-1/2 -translate-y-1/2 p-1 text-foreground-muted hover:text-foreground"
           >
             <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
@@ -129,10 +193,42 @@ export function EmailFilters({ onRefresh }: EmailFiltersProps) {
             </svg>
           </button>
         )}
+        {queryErrors.length > 0 ? (
+          <div className="mt-1 text-xs text-destructive" role="alert">
+            {queryErrors[0].message}
+          </div>
+        ) : showInstantSearch && localSearch.trim() && (
+          <InstantSearch
+            query={localSearch.trim()}
+            onOpen={openSearchResult}
+            onSearchGmail={() => submitSearch(localSearch.trim())}
+          />
+        )}
       </div>
 
       {/* Filter buttons */}
       <div className="flex items-center gap-2 flex-wrap">
+        <FilterToggle
+          active={filters.view === "drafts"}
+          onClick={() => updateFilter("view", filters.view === "drafts" ? "mail" : "drafts")}
+        >
+          Drafts
+        </FilterToggle>
+
+        <FilterToggle
+          active={filters.view === "snoozed"}
+          onClick={() => updateFilter("view", filters.view === "snoozed" ? "mail" : "snoozed")}
+        >
+          Snoozed
+        </FilterToggle>
+
+        <FilterToggle
+          active={filters.view === "scheduled"}
+          onClick={() => updateFilter("view", filters.view === "scheduled" ? "mail" : "scheduled")}
+        >
+          Scheduled
+        </FilterToggle>
+
         <FilterToggle
           active={filters.unreadOnly}
           onClick={() => updateFilter("unreadOnly", !filters.unreadOnly)}
@@ -245,11 +341,21 @@ export function EmailFilters({ onRefresh }: EmailFiltersProps) {
           </button>
         )}
 
+        <Button
+          size="sm"
+          onClick={() => openCompose()}
+          className="ml-auto"
+        >
+          <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="m16.862 4.487 1.687-1.688a1.875 1.875 0 1 1 2.652 2.652L10.582 16.07a4.5 4.5 0 0 1-1.897 1.13L6 18l.8-2.685a4.5 4.5 0 0 1 1.13-1.897l8.932-8.931Zm0 0L19.5 7.125M18 14v4.75A2.25 2.25 0 0 1 15.75 21H5.25A2.25 2.25 0 0 1 3 18.75V8.25A2.25 2.25 0 0 1 5.25 6H10" />
+          </svg>
+          <span className="hidden sm:inline">Compose</span>
+        </Button>
+
         <Button
           variant="ghost"
           size="sm"
           onClick={onRefresh}
-          className="ml-auto"
         >
           <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
             <path strokeLinecap="round" strokeLinejoin="round" d="M16.023 9.348h4.992v-.001M2.985 19.644v-4.992m0 0h4.992m-4.993 0 3.181 3.183a8.25 8.25 0 0 0 13.803-3.7M4.031 9.865a8.25 8.25 0 0 1 13.803-3.7l3.181 3.182m0-4.991v4.99" />
@@ -261,6 +367,31 @@ export function EmailFilters({ onRefresh }: EmailFiltersProps) {
   );
 }
 
+// The query text with the parts that don't parse underlined, laid over the
+// search input
+function QueryHighlights({ query, errors }: { query: string; errors: QueryError[] }) {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+
+  for (const error of [...errors].sort((a, b) => a.start - b.start)) {
+    if (error.start < position) continue;
+    parts.push(query.slice(position, error.start));
+    parts.push(
+      <span
+        key={error.start}
+        title={error.message}
+        className="underline decoration-wavy decoration-destructive underline-offset-4"
+      >
+        {query.slice(error.start, Math.max(error.end, error.start + 1))}
+      </span>
+    );
+    position = Math.max(error.end, error.start + 1);
+  }
+  parts.push(query.slice(position));
+
+  return <span>{parts}</span>;
+}
+
 function FilterToggle({
   active,
   onClick,
@@ -12,6 +12,8 @@ interface EmailListItemProps {
   isSelected: boolean;
   isActive: boolean;
   classification?: EmailClassification;
+  // Color of the email's account, shown when several accounts are linked
+  accountColor?: string;
   onSelect: () => void;
   onOpen: () => void;
   onToggleSelect: (e: React.MouseEvent) => void;
@@ -22,6 +24,7 @@ export function EmailListItem({
   isSelected,
   isActive,
   classification,
+  accountColor,
   onSelect,
   onOpen,
   onToggleSelect,
@@ -58,7 +61,7 @@ export function EmailListItem({
         }
       }}
       className={cn(
-        "group flex items-center gap-3 px-4 py-3 cursor-pointer",
+        "group relative flex items-center gap-3 px-4 py-3 cursor-pointer",
         "border-b border-border-muted last:border-b-0",
         "transition-colors duration-150",
         "focus:outline-none focus:z-10",
@@ -70,6 +73,14 @@ export function EmailListItem({
         isSelected && !isActive && "bg-primary-muted/50"
       )}
     >
+      {accountColor && (
+        <span
+          className="absolute left-0 top-0 bottom-0 w-1"
+          style={{ backgroundColor: accountColor }}
+          title={email.accountId}
+        />
+      )}
+
       {/* Selection checkbox */}
       <div
         onClick={(e) => {
@@ -108,9 +119,15 @@ export function EmailListItem({
               {senderName}
             </span>
           </div>
-          <span className="text-xs text-foreground-muted shrink-0">
-            {formatDate(email.date)}
-          </span>
+          {email.snoozedUntil ? (
+            <span className="text-xs text-primary shrink-0" title="Snoozed until">
+              {format(new Date(email.snoozedUntil), "EEE, MMM d, h:mm a")}
+            </span>
+          ) : (
+            <span className="text-xs text-foreground-muted shrink-0">
+              {formatDate(email.date)}
+            </span>
+          )}
         </div>
 
         <div className="flex items-center gap-2 mb-0.5">
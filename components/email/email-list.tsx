@@ -1,15 +1,30 @@
 "use client";
 
-import { useEffect, useCallback, useRef, useMemo, useState } from "react";
+import { useEffect, useLayoutEffect, useCallback, useRef, useMemo, useState } from "react";
 import { EmailListItem } from "./email-list-item";
 import { EmailFilters } from "./email-filters";
 import { EmailDetail } from "./email-detail";
+import { ComposeSheet } from "./compose-sheet";
+import { TimePicker } from "./time-picker";
+import { ScheduledSends } from "./scheduled-sends";
 import { EmailListSkeleton, Button } from "@/components/ui";
-import { useEmailStore, useUIStore, type EmailFilters as Filters } from "@/lib/stores";
+import {
+  accountUrl,
+  useEmailStore,
+  useUIStore,
+  type Email,
+  type EmailClassification,
+} from "@/lib/stores";
 import { cn } from "@/lib/utils";
+import { filtersToQuery } from "@/lib/gmail-query";
 import type { EmailForAI } from "@/lib/gemini";
+import type { MailboxEvent } from "@/lib/events";
 
-export function EmailList() {
+interface EmailListProps {
+  userEmail?: string;
+}
+
+export function EmailList({ userEmail }: EmailListProps) {
   const {
     emails,
     selectedEmailId,
@@ -17,6 +32,7 @@ export function EmailList() {
     isLoading,
     isLoadingMore,
     error,
+    actionError,
     hasMore,
     pageToken,
     filters,
@@ -24,6 +40,7 @@ export function EmailList() {
     isClassifying,
     setEmails,
     appendEmails,
+    mergeNewEmails,
     selectEmail,
     toggleEmailSelection,
     selectAllEmails,
@@ -34,10 +51,24 @@ export function EmailList() {
     setPageToken,
     setClassifications,
     setClassifying,
+    setActionError,
+    markAsRead,
+    markAsUnread,
+    archiveEmails,
+    trashEmails,
+    snoozeEmails,
+    unsnoozeEmails,
     getFilteredEmails,
   } = useEmailStore();
 
-  const { detailPanelOpen, openDetailPanel, closeDetailPanel, toggleSidebar } = useUIStore();
+  const {
+    accounts,
+    activeAccountId,
+    detailPanelOpen,
+    openDetailPanel,
+    closeDetailPanel,
+    toggleSidebar,
+  } = useUIStore();
   const listRef = useRef<HTMLDivElement>(null);
   const selectedIndexRef = useRef<number>(-1);
   const loadMoreRef = useRef<HTMLDivElement>(null);
@@ -47,39 +78,6 @@ export function EmailList() {
   // so we need to trigger a React re-render manually after store updates
   const [, forceRender] = useState(0);
 
-  // Build Gmail query from filters
-  const buildQuery = useCallback((f: Filters): string => {
-    const parts: string[] = [];
-
-    if (f.search) {
-      parts.push(f.search);
-    }
-    if (f.unreadOnly) {
-      parts.push("is:unread");
-    }
-    if (f.hasAttachment) {
-      parts.push("has:attachment");
-    }
-    if (f.dateRange !== "all") {
-      const now = new Date();
-      let afterDate: Date;
-      switch (f.dateRange) {
-        case "today":
-          afterDate = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-          break;
-        case "week":
-          afterDate = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-          break;
-        case "month":
-          afterDate = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-          break;
-      }
-      parts.push(`after:${afterDate.toISOString().split("T")[0]}`);
-    }
-
-    return parts.join(" ");
-  }, []);
-
   // Fetch emails
   const fetchEmails = useCallback(
     async (append = false) => {
@@ -92,11 +90,23 @@ export function EmailList() {
 
       try {
         const params = new URLSearchParams();
-        const query = buildQuery(filters);
+        const query = filtersToQuery(filters);
         if (query) params.set("q", query);
         if (append && pageToken) params.set("pageToken", pageToken);
 
-        const response = await fetch(`/api/gmail/messages?${params}`);
+        const endpoint = {
+          mail: "/api/gmail/messages",
+          drafts: "/api/gmail/drafts",
+          snoozed: "/api/gmail/snooze",
+          // Loaded by ScheduledSends instead
+          scheduled: null,
+        }[filters.view];
+        if (!endpoint) {
+          setEmails([]);
+          return;
+        }
+
+        const response = await fetch(accountUrl(`${endpoint}?${params}`, activeAccountId));
         const data = await response.json();
 
         if (!response.ok) {
@@ -118,8 +128,8 @@ export function EmailList() {
     },
     [
       filters,
+      activeAccountId,
       pageToken,
-      buildQuery,
       setEmails,
       appendEmails,
       setLoading,
@@ -129,10 +139,124 @@ export function EmailList() {
     ]
   );
 
-  // Initial fetch and filter changes
+  // Scroll position from just before new mail was merged in at the top, so
+  // the emails the user is looking at stay where they are
+  const scrollAnchorRef = useRef<{ scrollTop: number; scrollHeight: number } | null>(null);
+
+  const mergeIncomingEmails = useCallback(
+    (incoming: Email[]) => {
+      const list = listRef.current;
+      if (list) {
+        scrollAnchorRef.current = { scrollTop: list.scrollTop, scrollHeight: list.scrollHeight };
+      }
+      mergeNewEmails(incoming);
+    },
+    [mergeNewEmails]
+  );
+
+  useLayoutEffect(() => {
+    const anchor = scrollAnchorRef.current;
+    const list = listRef.current;
+    if (!anchor || !list) return;
+
+    scrollAnchorRef.current = null;
+    if (anchor.scrollTop > 0) {
+      list.scrollTop = anchor.scrollTop + (list.scrollHeight - anchor.scrollHeight);
+    }
+  }, [emails]);
+
+  // Live updates over Server-Sent Events: new mail, label changes made
+  // elsewhere, and classifications finished in other tabs
+  useEffect(() => {
+    const source = new EventSource("/api/events");
+
+    const handleNewMessages = async (added: Email[]) => {
+      const { filters: currentFilters, removeEmailsById } = useEmailStore.getState();
+      // The stream covers every account; a single inbox only takes its own
+      const { activeAccountId: currentAccountId } = useUIStore.getState();
+      const messages = currentAccountId
+        ? added.filter((m) => m.accountId === currentAccountId)
+        : added;
+      if (messages.length === 0) return;
+
+      // The snooze scheduler announces woken emails as new mail
+      if (currentFilters.view === "snoozed") {
+        removeEmailsById(messages.map((m) => m.id));
+        return;
+      }
+      if (currentFilters.view !== "mail") return;
+
+      const query = filtersToQuery(currentFilters);
+      if (!query) {
+        // Same rule as Gmail's unfiltered list: everything but spam and trash
+        mergeIncomingEmails(
+          messages.filter(
+            (m) => !m.labelIds?.some((label) => label === "SPAM" || label === "TRASH")
+          )
+        );
+        return;
+      }
+
+      // Only the server can evaluate the search, so reload the top of the
+      // list and merge whatever is new in it
+      const params = new URLSearchParams({ q: query });
+      const response = await fetch(
+        accountUrl(`/api/gmail/messages?${params}`, currentAccountId)
+      );
+      if (response.ok) {
+        const data = await response.json();
+        mergeIncomingEmails(data.messages || []);
+      }
+    };
+
+    source.onmessage = (message) => {
+      const event = JSON.parse(message.data) as MailboxEvent;
+      const store = useEmailStore.getState();
+
+      switch (event.type) {
+        case "messages.added":
+          handleNewMessages(event.messages).catch((error) =>
+            console.error("Failed to merge new mail:", error)
+          );
+          break;
+        case "messages.labels": {
+          // Message IDs are only unique within one account
+          const ids = accountEmailIds(store.emails, event.accountId);
+          store.applyLabelChanges(event.messages.filter((m) => ids.has(m.id)));
+          break;
+        }
+        case "messages.deleted": {
+          const ids = accountEmailIds(store.emails, event.accountId);
+          store.removeEmailsById(event.ids.filter((id) => ids.has(id)));
+          break;
+        }
+        case "classifications":
+          store.setClassifications(
+            event.classifications as Record<string, EmailClassification>
+          );
+          break;
+      }
+    };
+
+    return () => source.close();
+  }, [mergeIncomingEmails]);
+
+  // Drafts open in the compose sheet rather than the detail panel
+  const openDraft = useCallback(
+    async (draftId: string, accountId: string) => {
+      try {
+        await useUIStore.getState().openDraft(draftId, accountId);
+      } catch (err) {
+        setActionError(err instanceof Error ? err.message : "Failed to open draft");
+      }
+    },
+    [setActionError]
+  );
+
+  // Initial fetch, filter changes and switching accounts
   useEffect(() => {
     fetchEmails();
-  }, [filters]); // eslint-disable-line react-hooks/exhaustive-deps
+  }, [filters, activeAccountId]); // eslint-disable-line react-hooks/exhaustive-deps
 
   // Auto-classify unclassified emails
   // Track classified email IDs to avoid re-triggering on classifications change
@@ -143,9 +267,10 @@ export function EmailList() {
       // Only classify if we have emails and aren't already classifying
       if (emails.length === 0 || isClassifying || isLoading) return;
 
-      // Find unclassified emails (not in store AND not already sent for classification)
+      // Find unclassified emails (not in store AND not already sent for classification).
+      // Drafts are skipped - their message ID changes on every save.
       const unclassified = emails.filter(
-        (e) => !classifications.has(e.id) && !classifiedIdsRef.current.has(e.id)
+        (e) => !e.draftId && !classifications.has(e.id) && !classifiedIdsRef.current.has(e.id)
       );
       if (unclassified.length === 0) return;
 
@@ -157,8 +282,9 @@ export function EmailList() {
       setClassifying(true);
 
       try {
-        const emailsForAI: EmailForAI[] = batch.map((e) => ({
+        const emailsForAI: Array<EmailForAI & { accountId: string }> = batch.map((e) => ({
           id: e.id,
+          accountId: e.accountId,
           from: e.from,
           subject: e.subject,
           snippet: e.snippet,
@@ -195,6 +321,13 @@ export function EmailList() {
     return () => clearTimeout(timer);
   }, [emails, classifications, isClassifying, isLoading, setClassifications, setClassifying]);
 
+  // Account color stripes, only worth showing with more than one account
+  const accountColors = useMemo(
+    () =>
+      new Map(accounts.length > 1 ? accounts.map((a) => [a.accountId, a.color]) : []),
+    [accounts]
+  );
+
   // Memoize displayed emails - used for both render and keyboard navigation
   const displayEmails = useMemo(() => {
     const hasClassificationFilters =
@@ -255,6 +388,11 @@ export function EmailList() {
         case "Enter":
         case "o":
           if (currentSelectedId) {
+            const current = store.emails.find((e) => e.id === currentSelectedId);
+            if (current?.draftId) {
+              openDraft(current.draftId, current.accountId);
+              break;
+            }
             uiStore.openDetailPanel();
             forceRender((n) => n + 1);
           }
@@ -292,6 +430,35 @@ export function EmailList() {
           }
           break;
 
+        case "e":
+        case "#":
+        case "I":
+        case "U": {
+          // Act on the checked emails, or the active one if nothing is checked
+          const targets =
+            store.selectedEmailIds.size > 0
+              ? Array.from(store.selectedEmailIds)
+              : currentSelectedId
+                ? [currentSelectedId]
+                : [];
+          if (targets.length === 0) break;
+
+          e.preventDefault();
+          if (e.key === "e") store.archiveEmails(targets);
+          if (e.key === "#") store.trashEmails(targets);
+          if (e.key === "I") store.markAsRead(targets);
+          if (e.key === "U") store.markAsUnread(targets);
+          forceRender((n) => n + 1);
+          break;
+        }
+
+        case "c":
+          if (!e.metaKey && !e.ctrlKey) {
+            e.preventDefault();
+            uiStore.openCompose();
+          }
+          break;
+
         case "[":
           uiStore.toggleSidebar();
           forceRender((n) => n + 1);
@@ -301,7 +468,7 @@ export function EmailList() {
 
     window.addEventListener("keydown", handleKeyDown);
     return () => window.removeEventListener("keydown", handleKeyDown);
-  }, [displayEmails, fetchEmails]);
+  }, [displayEmails, fetchEmails, openDraft]);
 
   // Scroll selected email into view
   useEffect(() => {
@@ -346,9 +513,14 @@ export function EmailList() {
   const handleEmailOpen = useCallback(
     (id: string) => {
       selectEmail(id);
-      openDetailPanel();
+      const email = emails.find((e) => e.id === id);
+      if (email?.draftId) {
+        openDraft(email.draftId, email.accountId);
+      } else {
+        openDetailPanel();
+      }
     },
-    [selectEmail, openDetailPanel]
+    [emails, selectEmail, openDraft, openDetailPanel]
   );
 
   const handleToggleSelect = useCallback(
@@ -370,8 +542,62 @@ export function EmailList() {
       >
         <EmailFilters onRefresh={() => fetchEmails()} />
 
+        {/* Bulk actions for checked emails */}
+        {selectedEmailIds.size > 0 && (
+          <div className="flex items-center gap-1 px-4 py-2 border-b border-border bg-primary-muted/30">
+            <span className="text-xs font-medium text-foreground mr-2">
+              {selectedEmailIds.size} selected
+            </span>
+            <Button variant="ghost" size="sm" onClick={() => markAsRead(Array.from(selectedEmailIds))}>
+              Mark read
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => markAsUnread(Array.from(selectedEmailIds))}>
+              Mark unread
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => archiveEmails(Array.from(selectedEmailIds))}>
+              Archive
+            </Button>
+            {filters.view === "snoozed" ? (
+              <Button variant="ghost" size="sm" onClick={() => unsnoozeEmails(Array.from(selectedEmailIds))}>
+                Unsnooze
+              </Button>
+            ) : (
+              <TimePicker
+                label="Snooze"
+                heading="Snooze until..."
+                disabled={filters.view === "drafts"}
+                onPick={(until) => snoozeEmails(Array.from(selectedEmailIds), until)}
+              />
+            )}
+            <Button variant="ghost" size="sm" onClick={() => trashEmails(Array.from(selectedEmailIds))}>
+              Delete
+            </Button>
+            <button
+              onClick={clearSelection}
+              className="text-xs text-primary hover:text-primary-hover ml-auto"
+            >
+              Clear
+            </button>
+          </div>
+        )}
+
+        {/* Failed Gmail action - local state has already been rolled back */}
+        {actionError && (
+          <div className="flex items-center justify-between gap-2 mx-4 mt-3 bg-destructive-muted text-destructive px-4 py-2 rounded-lg text-sm">
+            <span>{actionError}</span>
+            <button
+              onClick={() => setActionError(null)}
+              className="text-xs font-medium hover:underline shrink-0"
+            >
+              Dismiss
+            </button>
+          </div>
+        )}
+
         <div ref={listRef} className="flex-1 overflow-y-auto">
-          {isLoading && <EmailListSkeleton count={8} />}
+          {filters.view === "scheduled" && <ScheduledSends />}
+
+          {filters.view !== "scheduled" && isLoading && <EmailListSkeleton count={8} />}
 
           {error && (
             <div className="p-4">
@@ -381,7 +607,7 @@ export function EmailList() {
             </div>
           )}
 
-          {!isLoading && !error && emails.length === 0 && (
+          {filters.view !== "scheduled" && !isLoading && !error && emails.length === 0 && (
             <div className="flex flex-col items-center justify-center py-16 px-4 text-center">
               <svg
                 className="h-12 w-12 text-foreground-muted mb-4"
@@ -414,6 +640,7 @@ export function EmailList() {
                       isSelected={selectedEmailIds.has(email.id)}
                       isActive={selectedEmailId === email.id}
                       classification={classifications.get(email.id)}
+                      accountColor={accountColors.get(email.accountId)}
                       onSelect={() => handleEmailSelect(email.id)}
                       onOpen={() => handleEmailOpen(email.id)}
                       onToggleSelect={(e) => handleToggleSelect(email.id, e)}
@@ -442,7 +669,14 @@ export function EmailList() {
       </div>
 
       {/* Email detail panel */}
-      <EmailDetail />
+      <EmailDetail userEmail={userEmail} />
+
+      <ComposeSheet />
     </div>
   );
 }
+
+// IDs of the listed emails that belong to one account
+function accountEmailIds(emails: Email[], accountId: string): Set<string> {
+  return new Set(emails.filter((e) => e.accountId === accountId).map((e) => e.id));
+}
@@ -2,7 +2,16 @@ export { EmailList } from "./email-list";
 export { EmailListItem } from "./email-list-item";
 export { EmailDetail } from "./email-detail";
 export { EmailFilters } from "./email-filters";
+export { InstantSearch } from "./instant-search";
 export { SenderAvatar } from "./sender-avatar";
+export { AttachmentStrip } from "./attachment-strip";
+export { OriginalMessage } from "./original-message";
+export { VerificationBadge, SenderWarnings } from "./sender-verification";
+export { UnsubscribeButton } from "./unsubscribe-button";
+export { TimePicker } from "./time-picker";
+export { ScheduledSends } from "./scheduled-sends";
+export { UndoSendToast } from "./undo-send-toast";
+export { ComposeSheet } from "./compose-sheet";
 export {
   ClassificationBadge,
   PriorityIndicator,
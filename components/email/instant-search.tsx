@@ -0,0 +1,120 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { SenderAvatar } from "./sender-avatar";
+import { accountUrl, useUIStore, type Email } from "@/lib/stores";
+import type { HighlightedText } from "@/lib/search";
+import { extractName } from "@/lib/utils";
+
+interface SearchResult {
+  email: Email;
+  subject: HighlightedText;
+  snippet: HighlightedText;
+}
+
+interface InstantSearchProps {
+  query: string;
+  onOpen: (email: Email) => void;
+  onSearchGmail: () => void;
+}
+
+// Short enough to feel instant, long enough to skip most keystrokes
+const SEARCH_DELAY_MS = 150;
+const MAX_RESULTS = 8;
+
+// Results from the local full-text index while typing. Gmail search over
+// the whole mailbox stays one click (or Enter) away.
+export function InstantSearch({ query, onOpen, onSearchGmail }: InstantSearchProps) {
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
+  const { activeAccountId } = useUIStore();
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const timer = setTimeout(async () => {
+      setSearching(true);
+      try {
+        const params = new URLSearchParams({ q: query, limit: String(MAX_RESULTS) });
+        const response = await fetch(accountUrl(`/api/search?${params}`, activeAccountId), {
+          signal: controller.signal,
+        });
+        const data = await response.json();
+        setResults(response.ok ? data.results : []);
+      } catch {
+        // Aborted by the next keystroke, or the index is unavailable -
+        // Gmail search still works
+        if (!controller.signal.aborted) setResults([]);
+      } finally {
+        if (!controller.signal.aborted) setSearching(false);
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query, activeAccountId]);
+
+  return (
+    <div className="absolute top-full left-0 right-0 mt-1 z-30 bg-surface border border-border rounded-lg shadow-lg overflow-hidden">
+      {results.map(({ email, subject, snippet }) => (
+        <button
+          key={`${email.accountId}:${email.id}`}
+          // Keep focus in the search box until the click lands
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => onOpen(email)}
+          className="w-full flex items-start gap-3 px-3 py-2 text-left hover:bg-surface-hover"
+        >
+          <SenderAvatar from={email.from} size="sm" />
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-sm text-foreground truncate">
+                <Highlighted runs={subject} fallback="(no subject)" />
+              </span>
+              <span className="text-xs text-foreground-muted shrink-0">
+                {extractName(email.from)}
+              </span>
+            </div>
+            <div className="text-xs text-foreground-muted truncate">
+              <Highlighted runs={snippet} />
+            </div>
+          </div>
+        </button>
+      ))}
+
+      {!searching && results.length === 0 && (
+        <div className="px-3 py-2 text-xs text-foreground-muted">
+          No matches in synced mail
+        </div>
+      )}
+
+      <button
+        onMouseDown={(e) => e.preventDefault()}
+        onClick={onSearchGmail}
+        className="w-full flex items-center justify-between gap-2 px-3 py-2 border-t border-border text-left text-sm text-primary hover:bg-surface-hover"
+      >
+        <span className="truncate">Search all mail in Gmail for &ldquo;{query}&rdquo;</span>
+        <kbd className="text-xs text-foreground-muted">Enter</kbd>
+      </button>
+    </div>
+  );
+}
+
+function Highlighted({ runs, fallback }: { runs: HighlightedText; fallback?: string }) {
+  if (runs.length === 0) return <>{fallback}</>;
+
+  return (
+    <>
+      {runs.map((run, index) =>
+        run.match ? (
+          <mark key={index} className="bg-warning-muted text-foreground rounded-sm">
+            {run.text}
+          </mark>
+        ) : (
+          <span key={index}>{run.text}</span>
+        )
+      )}
+    </>
+  );
+}
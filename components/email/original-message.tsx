@@ -0,0 +1,147 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui";
+import { accountUrl } from "@/lib/stores";
+import { formatFileSize } from "@/lib/utils";
+import type { MimeHeader } from "@/lib/mime";
+
+interface OriginalMessageProps {
+  messageId: string;
+  accountId?: string;
+  onClose: () => void;
+}
+
+interface OriginalSource {
+  headers: MimeHeader[];
+  source: string;
+  size: number;
+  truncated: boolean;
+}
+
+// "Show original": every header as received, then the raw MIME source, with
+// a download of the message as an .eml file
+export function OriginalMessage({ messageId, accountId, onClose }: OriginalMessageProps) {
+  const [original, setOriginal] = useState<OriginalSource | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    fetch(accountUrl(`/api/gmail/messages/${messageId}/raw`, accountId), {
+      signal: controller.signal,
+    })
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load original message");
+        }
+        setOriginal(data);
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        setError(err instanceof Error ? err.message : "Failed to load original message");
+      });
+
+    return () => controller.abort();
+  }, [messageId, accountId]);
+
+  // Close on escape without letting the detail panel close too
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") {
+        e.stopImmediatePropagation();
+        onClose();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown, true);
+    return () => window.removeEventListener("keydown", handleKeyDown, true);
+  }, [onClose]);
+
+  const handleCopy = async () => {
+    if (!original) return;
+    await navigator.clipboard.writeText(original.source);
+    setCopied(true);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-6">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/60 animate-fadeIn" onClick={onClose} />
+
+      <div className="relative flex flex-col w-full max-w-4xl h-full max-h-[90vh] bg-surface rounded-xl shadow-xl overflow-hidden">
+        <div className="flex items-center justify-between gap-2 px-4 py-2 border-b border-border">
+          <span className="text-sm font-medium text-foreground">
+            Original message
+            {original && (
+              <span className="ml-2 font-normal text-foreground-muted">
+                {formatFileSize(original.size)}
+              </span>
+            )}
+          </span>
+          <div className="flex items-center gap-1">
+            <Button variant="ghost" size="sm" onClick={handleCopy} disabled={!original}>
+              {copied ? "Copied" : "Copy source"}
+            </Button>
+            <a
+              href={accountUrl(`/api/gmail/messages/${messageId}/eml`, accountId)}
+              download
+              className="inline-flex h-8 items-center px-3 rounded-lg text-sm font-medium text-foreground-muted hover:text-foreground hover:bg-surface-hover transition-all duration-200"
+            >
+              Download .eml
+            </a>
+            <Button variant="ghost" size="sm" onClick={onClose}>
+              <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M6 18 18 6M6 6l12 12" />
+              </svg>
+              <span className="sr-only">Close</span>
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-auto">
+          {error && (
+            <div className="m-4 bg-destructive-muted text-destructive px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          {!original && !error && (
+            <div className="flex items-center justify-center h-full">
+              <div className="h-5 w-5 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+            </div>
+          )}
+
+          {original && (
+            <>
+              <table className="w-full text-xs border-b border-border">
+                <tbody>
+                  {original.headers.map((header, i) => (
+                    <tr key={i} className="align-top border-t border-border first:border-t-0">
+                      <th className="px-4 py-1.5 text-left font-medium text-foreground-muted whitespace-nowrap">
+                        {header.name}
+                      </th>
+                      <td className="px-4 py-1.5 text-foreground break-all">{header.value}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              {original.truncated && (
+                <div className="px-4 py-2 text-xs text-foreground-muted bg-background-secondary">
+                  This message is too large to show in full. Download the .eml file for the
+                  complete source.
+                </div>
+              )}
+
+              <pre className="px-4 py-3 text-xs font-mono text-foreground whitespace-pre-wrap break-all">
+                {original.source}
+              </pre>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
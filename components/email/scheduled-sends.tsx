@@ -0,0 +1,153 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Button, EmailListSkeleton } from "@/components/ui";
+import { useUIStore } from "@/lib/stores";
+import { cn, extractName } from "@/lib/utils";
+import { parseAddressList } from "@/lib/gmail";
+
+interface ScheduledSend {
+  id: string;
+  draftId: string;
+  accountId: string;
+  to: string;
+  subject: string;
+  sendAt: string;
+  status: "pending" | "sending" | "failed";
+  error: string | null;
+}
+
+// Matches the worker's sweep, so sent messages drop off the list promptly
+const REFRESH_INTERVAL_MS = 15 * 1000;
+
+// The Scheduled view: messages waiting to be sent
+export function ScheduledSends() {
+  const { pendingSend, openDraft } = useUIStore();
+  const [scheduled, setScheduled] = useState<ScheduledSend[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadScheduled = useCallback(async () => {
+    try {
+      const response = await fetch("/api/gmail/scheduled");
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to fetch scheduled emails");
+      }
+
+      setScheduled(data.scheduled);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to fetch scheduled emails");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Reload when something new is queued, and while the view is open
+  useEffect(() => {
+    loadScheduled();
+    const timer = setInterval(loadScheduled, REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [loadScheduled, pendingSend]);
+
+  // Cancelling keeps the draft; editing reopens it, like Gmail
+  const cancel = async (item: ScheduledSend, edit: boolean) => {
+    setBusyId(item.id);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/gmail/scheduled/${item.id}`, { method: "DELETE" });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to cancel send");
+      }
+
+      setScheduled((prev) => prev.filter((s) => s.id !== item.id));
+      if (edit) {
+        await openDraft(item.draftId, item.accountId);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to cancel send");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (isLoading) return <EmailListSkeleton count={4} />;
+
+  return (
+    <div>
+      {error && (
+        <div className="p-4">
+          <div className="bg-destructive-muted text-destructive px-4 py-3 rounded-lg text-sm">
+            {error}
+          </div>
+        </div>
+      )}
+
+      {scheduled.length === 0 ? (
+        <div className="py-16 px-4 text-center">
+          <p className="text-foreground-muted">No scheduled emails</p>
+          <p className="text-sm text-foreground-muted mt-1">
+            Use Schedule in the compose window to send later
+          </p>
+        </div>
+      ) : (
+        <div className="divide-y divide-border-muted">
+          {scheduled.map((item) => (
+            <div key={item.id} className="flex items-center gap-3 px-4 py-3">
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm text-foreground truncate">
+                    To: {parseAddressList(item.to).map(extractName).join(", ") || "(no recipients)"}
+                  </span>
+                  <span
+                    className={cn(
+                      "text-xs shrink-0",
+                      item.status === "failed" ? "text-destructive" : "text-primary"
+                    )}
+                  >
+                    {item.status === "failed"
+                      ? "Not sent"
+                      : item.status === "sending"
+                        ? "Sending..."
+                        : format(new Date(item.sendAt), "EEE, MMM d, h:mm a")}
+                  </span>
+                </div>
+                <div className="text-sm text-foreground-muted truncate">
+                  {item.subject || "(no subject)"}
+                </div>
+                {item.error && (
+                  <div className="text-xs text-destructive truncate" title={item.error}>
+                    {item.error}
+                  </div>
+                )}
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={busyId === item.id || item.status === "sending"}
+                onClick={() => cancel(item, true)}
+              >
+                Edit
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                title="The message stays in Drafts"
+                disabled={busyId === item.id || item.status === "sending"}
+                onClick={() => cancel(item, false)}
+              >
+                Cancel
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+"use client";
+
+import { cn } from "@/lib/utils";
+import type { AuthCheck, AuthVerdict, SenderWarning } from "@/lib/email-auth";
+
+const STATUS_CONFIG: Record<
+  AuthVerdict["status"],
+  { label: string; className: string; icon: string }
+> = {
+  verified: {
+    label: "Verified",
+    className: "text-success bg-success-muted",
+    icon: "M9 12.75 11.25 15 15 9.75m-3-7.036A11.959 11.959 0 0 1 3.598 6 11.99 11.99 0 0 0 3 9.749c0 5.592 3.824 10.29 9 11.623 5.176-1.332 9-6.03 9-11.622 0-1.31-.21-2.571-.598-3.751h-.152c-3.196 0-6.1-1.248-8.25-3.285Z",
+  },
+  unverified: {
+    label: "Unverified",
+    className: "text-foreground-muted bg-background-secondary",
+    icon: "M9.879 7.519c1.171-1.025 3.071-1.025 4.242 0 1.172 1.025 1.172 2.687 0 3.712-.203.179-.43.326-.67.442-.745.361-1.45.999-1.45 1.827v.75M21 12a9 9 0 1 1-18 0 9 9 0 0 1 18 0Zm-9 5.25h.008v.008H12v-.008Z",
+  },
+  failed: {
+    label: "Failed checks",
+    className: "text-destructive bg-destructive-muted",
+    icon: "M12 9v3.75m0-10.036A11.959 11.959 0 0 1 3.598 6 11.99 11.99 0 0 0 3 9.75c0 5.592 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.31-.21-2.57-.598-3.75h-.152c-3.196 0-6.1-1.25-8.25-3.286Zm0 13.036h.008v.008H12v-.008Z",
+  },
+};
+
+function describeCheck(name: string, check?: AuthCheck): string {
+  if (!check) return `${name}: not checked`;
+  return `${name}: ${check.result}${check.domain ? ` (${check.domain})` : ""}`;
+}
+
+// Whether the sender proved the From address is theirs, with the SPF, DKIM
+// and DMARC details on hover
+export function VerificationBadge({ verdict }: { verdict?: AuthVerdict }) {
+  if (!verdict) return null;
+
+  const config = STATUS_CONFIG[verdict.status];
+  const details = [
+    describeCheck("SPF", verdict.spf),
+    ...(verdict.dkim.length > 0
+      ? verdict.dkim.map((check) => describeCheck("DKIM", check))
+      : [describeCheck("DKIM")]),
+    describeCheck("DMARC", verdict.dmarc) +
+      (verdict.dmarc?.policy ? `, policy ${verdict.dmarc.policy}` : ""),
+  ].join("\n");
+
+  return (
+    <span
+      title={details}
+      className={cn(
+        "inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-xs font-medium shrink-0 cursor-help",
+        config.className
+      )}
+    >
+      <svg className="h-3.5 w-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+        <path strokeLinecap="round" strokeLinejoin="round" d={config.icon} />
+      </svg>
+      {config.label}
+    </span>
+  );
+}
+
+// Banner for mail posing as a known vendor
+export function SenderWarnings({ warnings }: { warnings?: SenderWarning[] }) {
+  if (!warnings || warnings.length === 0) return null;
+
+  return (
+    <div className="mb-6 p-4 bg-destructive-muted rounded-xl border border-destructive/20">
+      <div className="flex items-center gap-2 mb-1 text-sm font-medium text-destructive">
+        <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+          <path strokeLinecap="round" strokeLinejoin="round" d="M12 9v3.75m-9.303 3.376c-.866 1.5.217 3.374 1.948 3.374h14.71c1.73 0 2.813-1.874 1.948-3.374L13.949 3.378c-.866-1.5-3.032-1.5-3.898 0L2.697 16.126ZM12 15.75h.007v.008H12v-.008Z" />
+        </svg>
+        This sender may be impersonating a vendor
+      </div>
+      <ul className="space-y-0.5 text-sm text-destructive">
+        {warnings.map((warning, i) => (
+          <li key={i}>{warning.message}</li>
+        ))}
+      </ul>
+      <p className="mt-2 text-xs text-foreground-muted">
+        Don&apos;t pay invoices or change bank details from this email without
+        confirming with the vendor through a number you already have.
+      </p>
+    </div>
+  );
+}
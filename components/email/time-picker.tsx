@@ -0,0 +1,146 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import {
+  addDays,
+  addHours,
+  format,
+  isSameDay,
+  nextMonday,
+  setHours,
+  startOfDay,
+  startOfHour,
+} from "date-fns";
+import { Button } from "@/components/ui";
+import { cn } from "@/lib/utils";
+
+interface TimePickerProps {
+  label: string;
+  heading: string;
+  onPick: (until: Date) => void;
+  disabled?: boolean;
+  // Open the menu upwards, for buttons near the bottom of the screen
+  above?: boolean;
+}
+
+// Mornings start at 8am, like Gmail's snooze and schedule-send presets
+const MORNING_HOUR = 8;
+
+function timePresets(now: Date): Array<{ label: string; until: Date }> {
+  const presets: Array<{ label: string; until: Date }> = [];
+
+  // At least three hours out, on the hour - offered only while that's still today
+  const laterToday = startOfHour(addHours(now, 4));
+  if (isSameDay(laterToday, now)) {
+    presets.push({ label: "Later today", until: laterToday });
+  }
+
+  presets.push(
+    {
+      label: "Tomorrow morning",
+      until: setHours(startOfDay(addDays(now, 1)), MORNING_HOUR),
+    },
+    {
+      label: "Next week",
+      until: setHours(startOfDay(nextMonday(now)), MORNING_HOUR),
+    }
+  );
+
+  return presets;
+}
+
+// Button with a menu of future times (snoozing, scheduled sending)
+export function TimePicker({ label, heading, onPick, disabled, above }: TimePickerProps) {
+  // Presets are worked out from the time the picker was opened
+  const [openedAt, setOpenedAt] = useState<Date | null>(null);
+  const open = openedAt !== null;
+  const [custom, setCustom] = useState("");
+  const dropdownRef = useRef<HTMLDivElement>(null);
+
+  // Close on click outside or Escape key
+  useEffect(() => {
+    if (!open) return;
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (dropdownRef.current && !dropdownRef.current.contains(e.target as Node)) {
+        setOpenedAt(null);
+      }
+    };
+
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === "Escape") {
+        setOpenedAt(null);
+      }
+    };
+
+    document.addEventListener("mousedown", handleClickOutside);
+    document.addEventListener("keydown", handleEscape);
+    return () => {
+      document.removeEventListener("mousedown", handleClickOutside);
+      document.removeEventListener("keydown", handleEscape);
+    };
+  }, [open]);
+
+  const choose = (until: Date) => {
+    setOpenedAt(null);
+    setCustom("");
+    onPick(until);
+  };
+
+  // datetime-local values are in the browser's time zone
+  const customDate = custom ? new Date(custom) : null;
+  const customValid = !!customDate && !!openedAt && customDate > openedAt;
+
+  return (
+    <div className="relative" ref={dropdownRef}>
+      <Button variant="ghost" size="sm" disabled={disabled} onClick={() => setOpenedAt(open ? null : new Date())}>
+        {label}
+      </Button>
+
+      {openedAt && (
+        <div
+          className={cn(
+            "absolute left-0 z-20 bg-surface border border-border rounded-lg shadow-lg py-1 min-w-[240px]",
+            above ? "bottom-full mb-1" : "top-full mt-1"
+          )}
+        >
+          <div className="text-xs text-foreground-muted px-3 py-1.5">{heading}</div>
+          {timePresets(openedAt).map(({ label, until }) => (
+            <button
+              key={label}
+              onClick={() => choose(until)}
+              className="w-full flex items-center justify-between gap-4 px-3 py-1.5 text-sm text-foreground hover:bg-surface-hover"
+            >
+              <span>{label}</span>
+              <span className="text-xs text-foreground-muted">
+                {format(until, "EEE, h:mm a")}
+              </span>
+            </button>
+          ))}
+          <div className="border-t border-border mt-1 pt-2 px-3 pb-2 space-y-2">
+            <div className="text-xs text-foreground-muted">Pick date &amp; time</div>
+            <input
+              type="datetime-local"
+              value={custom}
+              min={format(openedAt, "yyyy-MM-dd'T'HH:mm")}
+              onChange={(e) => setCustom(e.target.value)}
+              className={cn(
+                "w-full h-8 px-2 rounded-md text-sm",
+                "bg-surface border border-border text-foreground",
+                "focus:outline-none focus:ring-1 focus:ring-primary"
+              )}
+            />
+            <Button
+              size="sm"
+              className="w-full"
+              disabled={!customValid}
+              onClick={() => customDate && choose(customDate)}
+            >
+              {label}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
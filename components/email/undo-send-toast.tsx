@@ -0,0 +1,89 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { useUIStore } from "@/lib/stores";
+import { cn } from "@/lib/utils";
+
+// Scheduled sends can be cancelled from the Scheduled view later, so their
+// confirmation doesn't need to stay up for long
+const SCHEDULED_TOAST_MS = 8000;
+
+// Confirms a send and offers to take it back. Undoing reopens the draft.
+export function UndoSendToast() {
+  const { pendingSend, setPendingSend, openDraft } = useUIStore();
+  const [undoing, setUndoing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Hide once the message has gone out
+  useEffect(() => {
+    if (!pendingSend) return;
+
+    const delay = pendingSend.scheduled
+      ? SCHEDULED_TOAST_MS
+      : new Date(pendingSend.sendAt).getTime() - Date.now();
+    const timer = setTimeout(() => setPendingSend(null), Math.max(delay, 0));
+    return () => clearTimeout(timer);
+  }, [pendingSend, setPendingSend]);
+
+  if (!pendingSend) return null;
+
+  const handleUndo = async () => {
+    setUndoing(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/gmail/scheduled/${pendingSend.id}`, {
+        method: "DELETE",
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to undo send");
+      }
+
+      setPendingSend(null);
+      await openDraft(pendingSend.draftId, pendingSend.accountId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to undo send");
+    } finally {
+      setUndoing(false);
+    }
+  };
+
+  return (
+    <div
+      className={cn(
+        "fixed bottom-4 left-4 z-50 flex items-center gap-4",
+        "px-4 py-3 rounded-lg shadow-xl",
+        "bg-foreground text-background text-sm",
+        "animate-fadeIn"
+      )}
+    >
+      <span>
+        {error ||
+          (pendingSend.scheduled
+            ? `Send scheduled for ${format(new Date(pendingSend.sendAt), "EEE, MMM d, h:mm a")}`
+            : "Sending...")}
+      </span>
+      {!error && (
+        <button
+          onClick={handleUndo}
+          disabled={undoing}
+          className="font-medium text-primary-muted hover:underline disabled:opacity-50"
+        >
+          Undo
+        </button>
+      )}
+      <button
+        onClick={() => setPendingSend(null)}
+        className="opacity-70 hover:opacity-100"
+      >
+        <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+          <path strokeLinecap="round" strokeLinejoin="round" d="M6 18 18 6M6 6l12 12" />
+        </svg>
+        <span className="sr-only">Dismiss</span>
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui";
+import { accountUrl } from "@/lib/stores";
+import type { UnsubscribeOptions } from "@/lib/gmail";
+
+interface UnsubscribeButtonProps {
+  messageId: string;
+  accountId?: string;
+  options: UnsubscribeOptions;
+}
+
+type UnsubscribeState = "idle" | "confirming" | "working" | "done" | "failed";
+
+// Shown on mailing-list mail. One-click and mailto unsubscribes happen on
+// the server; lists that only offer a web page get it opened in a new tab.
+export function UnsubscribeButton({ messageId, accountId, options }: UnsubscribeButtonProps) {
+  const [state, setState] = useState<UnsubscribeState>("idle");
+  const [error, setError] = useState<string | null>(null);
+
+  const handleUnsubscribe = async () => {
+    setState("working");
+    setError(null);
+
+    try {
+      const response = await fetch(
+        accountUrl(`/api/gmail/messages/${messageId}/unsubscribe`, accountId),
+        { method: "POST" }
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to unsubscribe");
+      }
+
+      setState("done");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to unsubscribe");
+      setState("failed");
+    }
+  };
+
+  if (!options.oneClick && !options.mailto) {
+    return (
+      <Button
+        variant="ghost"
+        size="sm"
+        title="Opens the sender's unsubscribe page"
+        onClick={() => window.open(options.url, "_blank", "noopener,noreferrer")}
+      >
+        <span className="text-xs">Unsubscribe</span>
+      </Button>
+    );
+  }
+
+  const labels: Record<UnsubscribeState, string> = {
+    idle: "Unsubscribe",
+    confirming: "Confirm unsubscribe",
+    working: "Unsubscribing...",
+    done: "Unsubscribed",
+    failed: "Retry unsubscribe",
+  };
+
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      title={error || "Stop getting emails from this mailing list"}
+      disabled={state === "working" || state === "done"}
+      onClick={() => (state === "idle" ? setState("confirming") : handleUnsubscribe())}
+      className={state === "confirming" || state === "failed" ? "text-destructive" : undefined}
+    >
+      <span className="text-xs">{labels[state]}</span>
+    </Button>
+  );
+}
@@ -1,5 +1,7 @@
 "use client";
 
+import { useEffect, useRef, useState } from "react";
+import Link from "next/link";
 import { ThemeToggle } from "@/components/theme";
 import { AITriggerButton } from "@/components/ai";
 import { Button } from "@/components/ui";
@@ -9,9 +11,11 @@ import { cn } from "@/lib/utils";
 interface DashboardHeaderProps {
   userEmail?: string;
   onSignOut?: () => void;
+  // Why linking another account failed, passed back from the OAuth callback
+  linkError?: string;
 }
 
-export function DashboardHeader({ userEmail, onSignOut }: DashboardHeaderProps) {
+export function DashboardHeader({ userEmail, onSignOut, linkError }: DashboardHeaderProps) {
   const { sidebarExpanded, toggleSidebar, openShortcutsModal } = useUIStore();
 
   return (
@@ -54,6 +58,8 @@ export function DashboardHeader({ userEmail, onSignOut }: DashboardHeaderProps)
           </svg>
           <span className="font-semibold text-foreground">Dashboard</span>
         </div>
+
+        {userEmail && <AccountSwitcher linkError={linkError} />}
       </div>
 
       <div className="flex items-center gap-2">
@@ -97,3 +103,195 @@ export function DashboardHeader({ userEmail, onSignOut }: DashboardHeaderProps)
     </header>
   );
 }
+
+// Picks the inbox to show: one linked account or all of them together.
+// Also where accounts are linked and unlinked.
+function AccountSwitcher({ linkError }: { linkError?: string }) {
+  const { accounts, activeAccountId, loadAccounts, setActiveAccount, unlinkAccount } =
+    useUIStore();
+  const [open, setOpen] = useState(!!linkError);
+  const [confirmingId, setConfirmingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(linkError ?? null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    loadAccounts().catch((err) => console.error("Failed to load accounts:", err));
+  }, [loadAccounts]);
+
+  // Close on click outside or Escape key
+  useEffect(() => {
+    if (!open) return;
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === "Escape") {
+        setOpen(false);
+      }
+    };
+
+    document.addEventListener("mousedown", handleClickOutside);
+    document.addEventListener("keydown", handleEscape);
+    return () => {
+      document.removeEventListener("mousedown", handleClickOutside);
+      document.removeEventListener("keydown", handleEscape);
+    };
+  }, [open]);
+
+  const active = accounts.find((a) => a.accountId === activeAccountId);
+
+  const choose = (accountId: string | null) => {
+    setActiveAccount(accountId);
+    setConfirmingId(null);
+    setOpen(false);
+  };
+
+  const handleUnlink = async (accountId: string) => {
+    if (confirmingId !== accountId) {
+      setConfirmingId(accountId);
+      return;
+    }
+
+    setConfirmingId(null);
+    setError(null);
+    try {
+      await unlinkAccount(accountId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to unlink account");
+    }
+  };
+
+  return (
+    <div className="relative hidden sm:block" ref={menuRef}>
+      <button
+        onClick={() => setOpen(!open)}
+        className={cn(
+          "flex h-9 items-center gap-2 px-2 rounded-lg text-sm",
+          "text-foreground-muted hover:text-foreground",
+          "hover:bg-surface-hover transition-colors duration-200",
+          "focus-ring"
+        )}
+        aria-haspopup="menu"
+        aria-expanded={open}
+      >
+        {active && (
+          <span className="h-2.5 w-2.5 rounded-full shrink-0" style={{ backgroundColor: active.color }} />
+        )}
+        <span className="truncate max-w-[200px]">
+          {active ? active.accountId : accounts.length > 1 ? "All inboxes" : "Inbox"}
+        </span>
+        <svg className="h-4 w-4 shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+          <path strokeLinecap="round" strokeLinejoin="round" d="m19.5 8.25-7.5 7.5-7.5-7.5" />
+        </svg>
+      </button>
+
+      {open && (
+        <div
+          role="menu"
+          className="absolute left-0 top-full mt-1 z-30 bg-surface border border-border rounded-lg shadow-lg py-1 min-w-[280px]"
+        >
+          {accounts.length > 1 && (
+            <button
+              role="menuitem"
+              onClick={() => choose(null)}
+              className={cn(
+                "w-full flex items-center gap-2 px-3 py-1.5 text-sm text-left hover:bg-surface-hover",
+                !active ? "text-primary" : "text-foreground"
+              )}
+            >
+              <span className="flex h-2.5 w-2.5 shrink-0 overflow-hidden rounded-full">
+                {accounts.map((account) => (
+                  <span
+                    key={account.accountId}
+                    className="flex-1"
+                    style={{ backgroundColor: account.color }}
+                  />
+                ))}
+              </span>
+              All inboxes
+            </button>
+          )}
+
+          {accounts.map((account) => (
+            <div
+              key={account.accountId}
+              className="group flex items-center hover:bg-surface-hover"
+            >
+              <button
+                role="menuitem"
+                onClick={() => choose(account.accountId)}
+                className={cn(
+                  "flex-1 min-w-0 flex items-center gap-2 px-3 py-1.5 text-sm text-left",
+                  account.accountId === activeAccountId ? "text-primary" : "text-foreground"
+                )}
+              >
+                <span
+                  className="h-2.5 w-2.5 rounded-full shrink-0"
+                  style={{ backgroundColor: account.color }}
+                />
+                <span className="truncate">{account.accountId}</span>
+              </button>
+              {account.primary ? (
+                <span className="px-3 text-xs text-foreground-muted">Signed in</span>
+              ) : (
+                <button
+                  onClick={() => handleUnlink(account.accountId)}
+                  title="Unlink this account from the dashboard"
+                  className={cn(
+                    "px-3 py-1.5 text-xs",
+                    confirmingId === account.accountId
+                      ? "text-destructive"
+                      : "text-foreground-muted opacity-0 group-hover:opacity-100 hover:text-destructive"
+                  )}
+                >
+                  {confirmingId === account.accountId ? "Confirm unlink" : "Unlink"}
+                </button>
+              )}
+            </div>
+          ))}
+
+          <div className="border-t border-border mt-1 pt-1">
+            {/* A full page load: the route redirects to Google's consent screen */}
+            <button
+              role="menuitem"
+              onClick={() => window.location.assign("/api/accounts/link")}
+              className="w-full flex items-center gap-2 px-3 py-1.5 text-sm text-left text-foreground hover:bg-surface-hover"
+            >
+              <svg className="h-4 w-4 text-foreground-muted" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M12 4.5v15m7.5-7.5h-15" />
+              </svg>
+              Add another Google account
+            </button>
+            <Link
+              role="menuitem"
+              href="/archives"
+              className="w-full flex items-center gap-2 px-3 py-1.5 text-sm text-left text-foreground hover:bg-surface-hover"
+            >
+              <svg className="h-4 w-4 text-foreground-muted" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="m20.25 7.5-.625 10.632a2.25 2.25 0 0 1-2.247 2.118H6.622a2.25 2.25 0 0 1-2.247-2.118L3.75 7.5M10 11.25h4M3.375 7.5h17.25c.621 0 1.125-.504 1.125-1.125v-1.5c0-.621-.504-1.125-1.125-1.125H3.375c-.621 0-1.125.504-1.125 1.125v1.5c0 .621.504 1.125 1.125 1.125Z" />
+              </svg>
+              Export or import mail
+            </Link>
+            <Link
+              role="menuitem"
+              href="/settings"
+              className="w-full flex items-center gap-2 px-3 py-1.5 text-sm text-left text-foreground hover:bg-surface-hover"
+            >
+              <svg className="h-4 w-4 text-foreground-muted" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M9.594 3.94c.09-.542.56-.94 1.11-.94h2.593c.55 0 1.02.398 1.11.94l.213 1.281c.063.374.313.686.645.87.074.04.147.083.22.127.325.196.72.257 1.075.124l1.217-.456a1.125 1.125 0 0 1 1.37.49l1.296 2.247a1.125 1.125 0 0 1-.26 1.431l-1.003.827c-.293.241-.438.613-.43.992a7.723 7.723 0 0 1 0 .255c-.008.378.137.75.43.991l1.004.827c.424.35.534.955.26 1.43l-1.298 2.247a1.125 1.125 0 0 1-1.369.491l-1.217-.456c-.355-.133-.75-.072-1.076.124a6.47 6.47 0 0 1-.22.128c-.331.183-.581.495-.644.869l-.213 1.281c-.09.543-.56.94-1.11.94h-2.594c-.55 0-1.019-.398-1.11-.94l-.213-1.281c-.062-.374-.312-.686-.644-.87a6.52 6.52 0 0 1-.22-.127c-.325-.196-.72-.257-1.076-.124l-1.217.456a1.125 1.125 0 0 1-1.369-.49l-1.297-2.247a1.125 1.125 0 0 1 .26-1.431l1.004-.827c.292-.24.437-.613.43-.991a6.932 6.932 0 0 1 0-.255c.007-.38-.138-.751-.43-.992l-1.004-.827a1.125 1.125 0 0 1-.26-1.43l1.297-2.247a1.125 1.125 0 0 1 1.37-.491l1.216.456c.356.133.751.072 1.076-.124.072-.044.146-.086.22-.128.332-.183.582-.495.644-.869l.214-1.28Z" />
+                <path strokeLinecap="round" strokeLinejoin="round" d="M15 12a3 3 0 1 1-6 0 3 3 0 0 1 6 0Z" />
+              </svg>
+              Vacation responder and signatures
+            </Link>
+          </div>
+
+          {error && <div className="px-3 py-1.5 text-xs text-destructive">{error}</div>}
+        </div>
+      )}
+    </div>
+  );
+}
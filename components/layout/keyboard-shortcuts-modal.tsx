@@ -24,8 +24,13 @@ const shortcutGroups: ShortcutGroup[] = [
     shortcuts: [
       { keys: ["/"], description: "Focus search" },
       { keys: ["r"], description: "Refresh emails" },
+      { keys: ["c"], description: "Compose new email" },
       { keys: ["x"], description: "Select / Deselect email" },
       { keys: ["⌘", "a"], description: "Select all emails" },
+      { keys: ["e"], description: "Archive" },
+      { keys: ["#"], description: "Move to trash" },
+      { keys: ["⇧", "i"], description: "Mark as read" },
+      { keys: ["⇧", "u"], description: "Mark as unread" },
     ],
   },
   {
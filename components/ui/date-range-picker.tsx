@@ -0,0 +1,65 @@
+"use client";
+
+import { cn } from "@/lib/utils";
+
+export interface DateRange {
+  // Days as yyyy-MM-dd, empty when open-ended
+  start: string;
+  end: string;
+}
+
+export interface DateRangePickerProps {
+  value: DateRange;
+  onChange: (range: DateRange) => void;
+  startLabel?: string;
+  endLabel?: string;
+  // Earliest selectable day, as yyyy-MM-dd
+  min?: string;
+  className?: string;
+}
+
+const inputClassName = cn(
+  "w-full h-9 px-3 rounded-lg text-sm",
+  "bg-background border border-border text-foreground",
+  "focus:outline-none focus:ring-1 focus:ring-primary"
+);
+
+// A first and last day. Either can be left empty; moving the start past the
+// end clears the end rather than leaving a backwards range.
+export function DateRangePicker({
+  value,
+  onChange,
+  startLabel = "From",
+  endLabel = "Until",
+  min,
+  className,
+}: DateRangePickerProps) {
+  return (
+    <div className={cn("grid grid-cols-2 gap-3", className)}>
+      <div>
+        <label className="block text-xs text-foreground-muted mb-1">{startLabel}</label>
+        <input
+          type="date"
+          value={value.start}
+          min={min}
+          max={value.end || undefined}
+          onChange={(e) => {
+            const start = e.target.value;
+            onChange({ start, end: value.end && start > value.end ? "" : value.end });
+          }}
+          className={inputClassName}
+        />
+      </div>
+      <div>
+        <label className="block text-xs text-foreground-muted mb-1">{endLabel}</label>
+        <input
+          type="date"
+          value={value.end}
+          min={value.start || min}
+          onChange={(e) => onChange({ start: value.start, end: e.target.value })}
+          className={inputClassName}
+        />
+      </div>
+    </div>
+  );
+}
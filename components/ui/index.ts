@@ -2,3 +2,5 @@ export { Button, type ButtonProps } from "./button";
 export { Badge, DotBadge, type BadgeProps } from "./badge";
 export { Avatar, type AvatarProps } from "./avatar";
 export { Skeleton, EmailListSkeleton, EmailDetailSkeleton } from "./skeleton";
+export { RichTextEditor, type RichTextEditorProps } from "./rich-text-editor";
+export { DateRangePicker, type DateRange, type DateRangePickerProps } from "./date-range-picker";
@@ -0,0 +1,248 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { cn } from "@/lib/utils";
+
+export interface RichTextEditorProps {
+  // HTML content; changes from outside replace what's in the editor
+  value: string;
+  onChange: (html: string) => void;
+  placeholder?: string;
+  // Called when content passed in had markup the editor can't keep, which
+  // saving it back would lose
+  onUnsupportedContent?: () => void;
+  className?: string;
+}
+
+// Tags kept when content is loaded or pasted, with the attributes each may
+// keep, covering what Gmail keeps in signatures and auto-replies. Everything
+// else is unwrapped to its text.
+const ALLOWED_TAGS: Record<string, string[]> = {
+  A: ["href"],
+  B: [],
+  BR: [],
+  DIV: [],
+  EM: [],
+  FONT: ["color", "face", "size"],
+  I: [],
+  IMG: ["src", "alt", "width", "height"],
+  LI: [],
+  OL: [],
+  P: [],
+  SPAN: [],
+  STRONG: [],
+  TABLE: [],
+  TBODY: [],
+  TD: [],
+  TR: [],
+  U: [],
+  UL: [],
+};
+
+// Inline styles kept on any allowed tag: colour, type and alignment
+const ALLOWED_STYLES = new Set([
+  "background-color", "color", "font-family", "font-size", "font-style", "font-weight",
+  "text-align", "text-decoration",
+]);
+
+const SAFE_LINK = /^(https?:|mailto:)/i;
+const SAFE_IMAGE = /^https:/i;
+
+const TOOLBAR = [
+  { command: "bold", label: "Bold", text: "B", className: "font-bold" },
+  { command: "italic", label: "Italic", text: "I", className: "italic" },
+  { command: "underline", label: "Underline", text: "U", className: "underline" },
+  { command: "insertUnorderedList", label: "Bulleted list", text: "•", className: "" },
+  { command: "insertOrderedList", label: "Numbered list", text: "1.", className: "" },
+] as const;
+
+// Strip scripts, handlers and anything else unsafe from HTML, keeping basic
+// formatting, inline text styles, https images and http(s)/mailto links.
+// Reports whether anything besides scripts was removed along the way.
+function sanitizeRichText(html: string): { html: string; removed: boolean } {
+  const doc = new DOMParser().parseFromString(`<body>${html}</body>`, "text/html");
+  let removed = false;
+
+  const clean = (node: Element) => {
+    for (const child of [...node.children]) {
+      clean(child);
+
+      const allowedAttributes = ALLOWED_TAGS[child.tagName];
+      if (!allowedAttributes) {
+        // Drop script-like content outright, unwrap anything else
+        if (["SCRIPT", "STYLE", "IFRAME", "OBJECT", "TEMPLATE"].includes(child.tagName)) {
+          child.remove();
+        } else {
+          child.replaceWith(...child.childNodes);
+          removed = true;
+        }
+        continue;
+      }
+
+      for (const attribute of [...child.attributes]) {
+        if (attribute.name === "style") continue;
+        const value = attribute.value.trim();
+        const keep =
+          allowedAttributes.includes(attribute.name) &&
+          (attribute.name !== "href" || SAFE_LINK.test(value)) &&
+          (attribute.name !== "src" || SAFE_IMAGE.test(value));
+        if (!keep) {
+          child.removeAttribute(attribute.name);
+          removed = true;
+        }
+      }
+
+      if (child.tagName === "IMG" && !child.hasAttribute("src")) {
+        child.remove();
+        continue;
+      }
+
+      if (child instanceof HTMLElement && child.hasAttribute("style")) {
+        const kept: string[] = [];
+        for (const property of [...child.style]) {
+          const value = child.style.getPropertyValue(property);
+          if (ALLOWED_STYLES.has(property) && !/url\(|expression/i.test(value)) {
+            kept.push(`${property}: ${value}`);
+          } else {
+            removed = true;
+          }
+        }
+        if (kept.length > 0) {
+          child.setAttribute("style", kept.join("; "));
+        } else {
+          child.removeAttribute("style");
+        }
+      }
+    }
+  };
+
+  clean(doc.body);
+  return { html: doc.body.innerHTML, removed };
+}
+
+// A small contentEditable editor for formatted text with a toolbar for
+// bold, italic, underline, lists and links
+export function RichTextEditor({
+  value,
+  onChange,
+  placeholder,
+  onUnsupportedContent,
+  className,
+}: RichTextEditorProps) {
+  const editorRef = useRef<HTMLDivElement>(null);
+  const onUnsupportedRef = useRef(onUnsupportedContent);
+
+  useEffect(() => {
+    onUnsupportedRef.current = onUnsupportedContent;
+  }, [onUnsupportedContent]);
+
+  // Load outside changes without resetting the caret on every keystroke
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (editor && editor.innerHTML !== value) {
+      const sanitized = sanitizeRichText(value);
+      editor.innerHTML = sanitized.html;
+      if (sanitized.removed) onUnsupportedRef.current?.();
+    }
+  }, [value]);
+
+  const emitChange = () => {
+    const editor = editorRef.current;
+    if (!editor) return;
+    // An editor emptied by the user still holds a stray <br>
+    onChange(editor.textContent?.trim() ? editor.innerHTML : "");
+  };
+
+  const runCommand = (command: string, argument?: string) => {
+    editorRef.current?.focus();
+    document.execCommand(command, false, argument);
+    emitChange();
+  };
+
+  const addLink = () => {
+    const url = window.prompt("Link address", "https://");
+    if (!url) return;
+    if (!SAFE_LINK.test(url.trim())) {
+      window.alert("Links must start with http://, https:// or mailto:");
+      return;
+    }
+    runCommand("createLink", url.trim());
+  };
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    const html = e.clipboardData.getData("text/html");
+    if (html) {
+      runCommand("insertHTML", sanitizeRichText(html).html);
+    } else {
+      runCommand("insertText", e.clipboardData.getData("text/plain"));
+    }
+  };
+
+  return (
+    <div
+      className={cn(
+        "rounded-lg border border-border bg-background focus-within:ring-1 focus-within:ring-primary",
+        className
+      )}
+    >
+      <div className="flex items-center gap-0.5 px-1.5 py-1 border-b border-border-muted">
+        {TOOLBAR.map((item) => (
+          <button
+            key={item.command}
+            type="button"
+            title={item.label}
+            aria-label={item.label}
+            // Keep the selection in the editor while clicking
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => runCommand(item.command)}
+            className={cn(
+              "h-7 min-w-7 px-1.5 rounded text-sm text-foreground-muted hover:text-foreground hover:bg-surface-hover",
+              item.className
+            )}
+          >
+            {item.text}
+          </button>
+        ))}
+        <button
+          type="button"
+          title="Link"
+          aria-label="Link"
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={addLink}
+          className="h-7 min-w-7 px-1.5 rounded text-foreground-muted hover:text-foreground hover:bg-surface-hover"
+        >
+          <svg className="h-4 w-4 mx-auto" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M13.19 8.688a4.5 4.5 0 0 1 1.242 7.244l-4.5 4.5a4.5 4.5 0 0 1-6.364-6.364l1.757-1.757m13.35-.622 1.757-1.757a4.5 4.5 0 0 0-6.364-6.364l-4.5 4.5a4.5 4.5 0 0 0 1.242 7.244" />
+          </svg>
+        </button>
+        <button
+          type="button"
+          title="Clear formatting"
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => runCommand("removeFormat")}
+          className="ml-auto h-7 px-2 rounded text-xs text-foreground-muted hover:text-foreground hover:bg-surface-hover"
+        >
+          Clear formatting
+        </button>
+      </div>
+
+      <div
+        ref={editorRef}
+        contentEditable
+        suppressContentEditableWarning
+        role="textbox"
+        aria-multiline="true"
+        data-placeholder={placeholder}
+        onInput={emitChange}
+        onBlur={emitChange}
+        onPaste={handlePaste}
+        className={cn(
+          "min-h-32 px-3 py-2 text-sm text-foreground focus:outline-none",
+          "[&_ul]:list-disc [&_ol]:list-decimal [&_ul]:pl-5 [&_ol]:pl-5 [&_a]:text-primary [&_a]:underline",
+          "empty:before:content-[attr(data-placeholder)] empty:before:text-foreground-muted"
+        )}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,12 @@
+// Runs once when the server starts
+export async function register() {
+  // Background jobs need Node APIs and Prisma, so skip the edge runtime
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { startSnoozeScheduler } = await import("@/lib/snooze");
+    const { startSendScheduler } = await import("@/lib/scheduled-send");
+    const { startExportWorker } = await import("@/lib/mbox");
+    startSnoozeScheduler();
+    startSendScheduler();
+    startExportWorker();
+  }
+}
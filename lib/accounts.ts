@@ -0,0 +1,286 @@
+import type { Session } from "next-auth";
+import {
+  ACCOUNT_COLORS,
+  GMAIL_SCOPES,
+  getStoredAccessToken,
+  storeAccountCredential,
+} from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { getProfile } from "@/lib/gmail";
+
+// A dashboard user (the address they signed in with) can link more Google
+// accounts, e.g. a shared orders@ mailbox. Everything stored per mailbox is
+// keyed by both: userId is the dashboard user, accountId the Gmail address.
+
+export const LINK_CALLBACK_PATH = "/api/accounts/link/callback";
+
+// Cookie holding the OAuth state while Google's consent screen is open
+export const LINK_STATE_COOKIE = "account-link-state";
+
+export interface AccountRef {
+  userId: string;
+  accountId: string;
+}
+
+// An account ready for Gmail calls
+export interface GmailAccount extends AccountRef {
+  accessToken: string;
+}
+
+export interface LinkedAccount {
+  accountId: string;
+  color: string;
+  // The account signed in with, which can't be unlinked
+  primary: boolean;
+}
+
+// Key for per-account state kept in memory
+export function accountKey({ userId, accountId }: AccountRef): string {
+  return `${userId}:${accountId}`;
+}
+
+export async function listLinkedAccounts(userId: string): Promise<LinkedAccount[]> {
+  const credentials = await prisma.gmailCredential.findMany({
+    where: { userId },
+    orderBy: { createdAt: "asc" },
+  });
+
+  const accounts = credentials.map((c) => ({
+    accountId: c.accountId,
+    color: c.color,
+    primary: c.accountId === userId,
+  }));
+
+  // Signed in before credentials were stored: the session token still works
+  if (!accounts.some((a) => a.primary)) {
+    accounts.unshift({ accountId: userId, color: ACCOUNT_COLORS[0], primary: true });
+  }
+
+  return accounts.sort((a, b) => Number(b.primary) - Number(a.primary));
+}
+
+// The signed-in user's account with the given address, the primary account
+// if none is given. Null if no such account is linked.
+export async function getAccount(
+  session: Session,
+  accountId?: string | null
+): Promise<GmailAccount | null> {
+  const userId = session.user?.email;
+  if (!userId || !session.accessToken) return null;
+
+  if (!accountId || accountId === userId) {
+    return { userId, accountId: userId, accessToken: session.accessToken };
+  }
+
+  const accessToken = await getStoredAccessToken(userId, accountId);
+  return accessToken ? { userId, accountId, accessToken } : null;
+}
+
+// The account an API request is for, from its ?accountId= parameter
+export function getRequestAccount(
+  session: Session,
+  request: Request
+): Promise<GmailAccount | null> {
+  return getAccount(session, new URL(request.url).searchParams.get("accountId"));
+}
+
+// Every account of the signed-in user, for the unified inbox. An account
+// whose token can no longer be refreshed is left out rather than failing
+// the whole list.
+export async function getAllAccounts(session: Session): Promise<GmailAccount[]> {
+  const userId = session.user?.email;
+  if (!userId) return [];
+
+  const accounts = await Promise.all(
+    (await listLinkedAccounts(userId)).map(({ accountId }) =>
+      getAccount(session, accountId).catch((error) => {
+        console.error(`Gmail account error for ${accountId}:`, error);
+        return null;
+      })
+    )
+  );
+
+  return accounts.filter((account): account is GmailAccount => !!account);
+}
+
+// The accounts a list request covers: the one named by ?accountId=, or
+// all of them for the unified inbox. Null if the named account isn't linked.
+export async function getRequestAccounts(
+  session: Session,
+  request: Request
+): Promise<GmailAccount[] | null> {
+  if (!new URL(request.url).searchParams.get("accountId")) {
+    return getAllAccounts(session);
+  }
+  const account = await getRequestAccount(session, request);
+  return account ? [account] : null;
+}
+
+// Google's consent screen for linking another account. prompt=consent
+// makes Google issue a refresh token even if the account was linked before.
+export function buildLinkUrl(origin: string, state: string): string {
+  const params = new URLSearchParams({
+    client_id: process.env.GOOGLE_CLIENT_ID!,
+    redirect_uri: `${origin}${LINK_CALLBACK_PATH}`,
+    response_type: "code",
+    scope: GMAIL_SCOPES,
+    access_type: "offline",
+    prompt: "consent select_account",
+    state,
+  });
+  return `https://accounts.google.com/o/oauth2/v2/auth?${params}`;
+}
+
+// Finish linking: exchange the authorization code and store the account's
+// refresh token under its Gmail address
+export async function linkAccount(
+  userId: string,
+  origin: string,
+  code: string
+): Promise<string> {
+  const response = await fetch("https://oauth2.googleapis.com/token", {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      client_id: process.env.GOOGLE_CLIENT_ID!,
+      client_secret: process.env.GOOGLE_CLIENT_SECRET!,
+      grant_type: "authorization_code",
+      redirect_uri: `${origin}${LINK_CALLBACK_PATH}`,
+      code,
+    }),
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || "Failed to link account");
+  }
+  if (!data.refresh_token) {
+    throw new Error("Google did not return a refresh token");
+  }
+
+  const { emailAddress } = await getProfile(data.access_token);
+  const accountId = emailAddress.toLowerCase();
+  await storeAccountCredential(userId, accountId, data.refresh_token);
+
+  return accountId;
+}
+
+// Remove a linked account and everything stored for it in Prisma models;
+// the search index and mbox exports are cleared separately. Returns false for the primary
+// account, which goes away only by signing out.
+export async function unlinkAccount(userId: string, accountId: string): Promise<boolean> {
+  if (accountId === userId) return false;
+
+  const where = { userId, accountId };
+  const tagIds = (await prisma.userTag.findMany({ where, select: { id: true } })).map((t) => t.id);
+
+  await prisma.$transaction([
+    prisma.emailTag.deleteMany({ where: { tagId: { in: tagIds } } }),
+    prisma.userTag.deleteMany({ where }),
+    prisma.emailSummary.deleteMany({ where }),
+    prisma.emailClassification.deleteMany({ where }),
+    prisma.mailboxMessage.deleteMany({ where }),
+    prisma.mailboxSync.deleteMany({ where }),
+    prisma.mailboxWatch.deleteMany({ where }),
+    prisma.dashboardFilter.deleteMany({ where }),
+    prisma.unsubscription.deleteMany({ where }),
+    prisma.snoozedEmail.deleteMany({ where }),
+    prisma.scheduledSend.deleteMany({ where }),
+    prisma.aIFeedback.deleteMany({ where }),
+    prisma.gmailCredential.deleteMany({ where }),
+  ]);
+
+  return true;
+}
+
+export interface AccountMessagePage<T> {
+  messages: T[];
+  nextPageToken?: string;
+  // Token that continues right after each message, by message id, for
+  // sources that can resume mid-page (the local mirror)
+  resumeTokens?: Record<string, string>;
+  resultSizeEstimate?: number;
+}
+
+// Where an account's part of the unified list continues: its own page
+// token, and how many messages of that page were already shown
+interface AccountCursor {
+  token?: string;
+  skip?: number;
+}
+
+// A unified list across accounts, newest first. Each account's page only
+// counts down to the oldest message another account still has more mail
+// above, since that account's next page may hold newer mail; the rest is
+// held back for a later page. The page token carries each account's cursor,
+// and accounts with nothing more to list drop out of it.
+export async function listAcrossAccounts<
+  T extends { id: string; internalDate?: string; date: string },
+>(
+  accounts: GmailAccount[],
+  pageToken: string | undefined,
+  listPage: (account: GmailAccount, pageToken?: string) => Promise<AccountMessagePage<T>>
+): Promise<AccountMessagePage<T & { accountId: string }>> {
+  const cursors = pageToken ? decodeAccountPageToken(pageToken) : null;
+  const pending = cursors ? accounts.filter((a) => a.accountId in cursors) : accounts;
+
+  const sortTime = (message: T) => Number(message.internalDate) || Date.parse(message.date) || 0;
+
+  const pages = await Promise.all(
+    pending.map(async (account) => {
+      const { token, skip = 0 } = cursors?.[account.accountId] ?? {};
+      const page = await listPage(account, token);
+      return { account, token, skip, page, messages: page.messages.slice(skip) };
+    })
+  );
+
+  // The newest point any account with more to list has reached
+  const cutoff = Math.max(
+    -Infinity,
+    ...pages
+      .filter(({ page, messages }) => page.nextPageToken && messages.length > 0)
+      .map(({ messages }) => sortTime(messages[messages.length - 1]))
+  );
+
+  const nextCursors: Record<string, AccountCursor> = {};
+  const merged: (T & { accountId: string })[] = [];
+
+  for (const { account, token, skip, page, messages } of pages) {
+    const heldBack = messages.findIndex((message) => sortTime(message) < cutoff);
+    const shown = heldBack === -1 ? messages : messages.slice(0, heldBack);
+    merged.push(...shown.map((message) => ({ ...message, accountId: account.accountId })));
+
+    if (heldBack === -1) {
+      if (page.nextPageToken) nextCursors[account.accountId] = { token: page.nextPageToken };
+      continue;
+    }
+
+    // Continue right after the last message shown, or failing that fetch
+    // the same page again and skip what was shown
+    const lastShown = shown[shown.length - 1];
+    const resumeToken = lastShown && page.resumeTokens?.[lastShown.id];
+    nextCursors[account.accountId] = resumeToken
+      ? { token: resumeToken }
+      : { token, skip: skip + shown.length };
+  }
+
+  return {
+    messages: merged.sort((a, b) => sortTime(b) - sortTime(a)),
+    nextPageToken:
+      Object.keys(nextCursors).length > 0 ? encodeAccountPageToken(nextCursors) : undefined,
+    resultSizeEstimate: pages.reduce((sum, { page }) => sum + (page.resultSizeEstimate || 0), 0),
+  };
+}
+
+function encodeAccountPageToken(cursors: Record<string, AccountCursor>): string {
+  return Buffer.from(JSON.stringify(cursors)).toString("base64url");
+}
+
+function decodeAccountPageToken(token: string): Record<string, AccountCursor> {
+  try {
+    const cursors = JSON.parse(Buffer.from(token, "base64url").toString("utf8"));
+    return cursors && typeof cursors === "object" ? cursors : {};
+  } catch {
+    return {};
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { isGmailApiError } from "@/lib/gmail-client";
+
+// Response for a route whose Gmail work failed. Gmail failures keep their
+// meaning - a rate limit answers 429 with Retry-After, an expired grant 401,
+// a missing message 404 - and anything else is a 500.
+export function gmailErrorResponse(error: unknown, fallback: string): NextResponse {
+  if (isGmailApiError(error)) {
+    return NextResponse.json(
+      { error: error.message, code: error.kind },
+      {
+        status: error.httpStatus,
+        ...(error.retryAfter !== undefined && {
+          headers: { "Retry-After": String(error.retryAfter) },
+        }),
+      }
+    );
+  }
+
+  return NextResponse.json(
+    { error: error instanceof Error ? error.message : fallback },
+    { status: 500 }
+  );
+}
+
+// Read a JSON object from the request body. Resolves to null when the body
+// isn't one, so the route can answer 400 rather than fail with a 500.
+export async function readJsonBody<T extends object>(request: Request): Promise<T | null> {
+  try {
+    const body = await request.json();
+    return body && typeof body === "object" ? (body as T) : null;
+  } catch {
+    return null;
+  }
+}
@@ -1,24 +1,106 @@
 import NextAuth from "next-auth";
 import Google from "next-auth/providers/google";
+import { prisma } from "@/lib/db";
+
+// Requested at sign-in and when linking another account
+export const GMAIL_SCOPES = [
+  "openid email profile",
+  "https://www.googleapis.com/auth/gmail.modify",
+  "https://www.googleapis.com/auth/gmail.settings.basic",
+].join(" ");
+
+// Colors given to linked accounts in turn, for the stripe on their emails
+export const ACCOUNT_COLORS = ["#3b82f6", "#f97316", "#10b981", "#a855f7", "#ec4899", "#14b8a6"];
+
+// Exchange a refresh token for a new access token
+export async function requestAccessToken(refreshToken: string): Promise<{
+  access_token: string;
+  expires_in: number;
+  refresh_token?: string;
+}> {
+  const response = await fetch("https://oauth2.googleapis.com/token", {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      client_id: process.env.GOOGLE_CLIENT_ID!,
+      client_secret: process.env.GOOGLE_CLIENT_SECRET!,
+      grant_type: "refresh_token",
+      refresh_token: refreshToken,
+    }),
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || "Failed to refresh token");
+  }
+
+  return data;
+}
+
+// Refresh stored access tokens a little before Google expires them
+const TOKEN_EXPIRY_BUFFER_MS = 5 * 60 * 1000;
+
+// Remember the refresh token of an account linked to a user. Linking an
+// account again replaces its token and keeps its color.
+export async function storeAccountCredential(
+  userId: string,
+  accountId: string,
+  refreshToken: string
+): Promise<void> {
+  const linked = await prisma.gmailCredential.count({ where: { userId } });
+
+  await prisma.gmailCredential.upsert({
+    where: { userId_accountId: { userId, accountId } },
+    create: {
+      userId,
+      accountId,
+      refreshToken,
+      color: ACCOUNT_COLORS[linked % ACCOUNT_COLORS.length],
+    },
+    update: {
+      refreshToken,
+      accessToken: null,
+      accessTokenExpires: null,
+    },
+  });
+}
+
+// Access token for a linked account, or for work done without a session,
+// from the stored refresh token. Null if the account isn't linked.
+export async function getStoredAccessToken(
+  userId: string,
+  accountId: string
+): Promise<string | null> {
+  const credential = await prisma.gmailCredential.findUnique({
+    where: { userId_accountId: { userId, accountId } },
+  });
+  if (!credential) return null;
+
+  if (
+    credential.accessToken &&
+    credential.accessTokenExpires &&
+    credential.accessTokenExpires.getTime() - TOKEN_EXPIRY_BUFFER_MS > Date.now()
+  ) {
+    return credential.accessToken;
+  }
+
+  const data = await requestAccessToken(credential.refreshToken);
+  await prisma.gmailCredential.update({
+    where: { id: credential.id },
+    data: {
+      accessToken: data.access_token,
+      accessTokenExpires: new Date(Date.now() + data.expires_in * 1000),
+      refreshToken: data.refresh_token ?? credential.refreshToken,
+    },
+  });
+
+  return data.access_token;
+}
 
 async function refreshAccessToken(token: any) {
   try {
-    const response = await fetch("https://oauth2.googleapis.com/token", {
-      method: "POST",
-      headers: { "Content-Type": "application/x-www-form-urlencoded" },
-      body: new URLSearchParams({
-        client_id: process.env.GOOGLE_CLIENT_ID!,
-        client_secret: process.env.GOOGLE_CLIENT_SECRET!,
-        grant_type: "refresh_token",
-        refresh_token: token.refreshToken as string,
-      }),
-    });
-
-    const data = await response.json();
-
-    if (!response.ok) {
-      throw new Error(data.error || "Failed to refresh token");
-    }
+    const data = await requestAccessToken(token.refreshToken as string);
 
     return {
       ...token,
@@ -43,7 +125,7 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
       clientSecret: process.env.GOOGLE_CLIENT_SECRET!,
       authorization: {
         params: {
-          scope: "openid email profile https://www.googleapis.com/auth/gmail.readonly",
+          scope: GMAIL_SCOPES,
           access_type: "offline",
           prompt: "consent",
         },
@@ -54,6 +136,15 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
     async jwt({ token, account }) {
       // Initial sign in - persist tokens and expiry
       if (account) {
+        // Keep the refresh token server-side too, for work done without a
+        // session such as handling push notifications. The account signed
+        // in with is the user's primary linked account.
+        if (account.refresh_token && token.email) {
+          await storeAccountCredential(token.email, token.email, account.refresh_token).catch(
+            (error) => console.error("Failed to store Gmail credentials:", error)
+          );
+        }
+
         return {
           ...token,
           accessToken: account.access_token,
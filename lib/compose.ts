@@ -0,0 +1,119 @@
+import { format } from "date-fns";
+import { parseAddressList, type FullMessage } from "@/lib/gmail";
+import type { ComposeValues } from "@/lib/stores";
+import { extractEmail, decodeHtmlEntities } from "@/lib/utils";
+
+// Prefix a subject once - "Re: Re: Re:" chains look broken in Gmail
+function prefixSubject(prefix: "Re" | "Fwd", subject: string): string {
+  const pattern = prefix === "Re" ? /^re:/i : /^(fwd?|fw):/i;
+  return pattern.test(subject.trim()) ? subject : `${prefix}: ${subject}`;
+}
+
+function formatAttributionDate(dateStr: string): string {
+  const date = new Date(dateStr);
+  return isNaN(date.getTime())
+    ? dateStr
+    : format(date, "EEE, MMM d, yyyy 'at' h:mm a");
+}
+
+// Plain-text version of a message body for quoting in the compose textarea
+export function messageBodyAsText(message: FullMessage): string {
+  if (!message.isHtml) return message.body;
+
+  return decodeHtmlEntities(
+    message.body
+      .replace(/<(style|script|head)\b[\s\S]*?<\/\1>/gi, "")
+      .replace(/<br\s*\/?>/gi, "\n")
+      .replace(/<\/(p|div|tr|li|h[1-6]|blockquote)>/gi, "\n")
+      .replace(/<[^>]+>/g, "")
+  )
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+function threadingFields(message: FullMessage): Partial<ComposeValues> {
+  return {
+    threadId: message.threadId,
+    inReplyTo: message.messageId,
+    references: [message.references, message.messageId]
+      .filter(Boolean)
+      .join(" "),
+  };
+}
+
+export function buildReply(
+  message: FullMessage,
+  { replyAll = false, userEmail }: { replyAll?: boolean; userEmail?: string }
+): Partial<ComposeValues> {
+  const self = userEmail?.toLowerCase();
+  const replyTarget = message.replyTo || message.from;
+
+  // Reply-all copies everyone else on the original, minus ourselves
+  const cc = replyAll
+    ? [message.to, message.cc]
+        .flatMap((list) => parseAddressList(list))
+        .filter((address) => {
+          const email = extractEmail(address).toLowerCase();
+          return email !== self && email !== extractEmail(replyTarget).toLowerCase();
+        })
+    : [];
+
+  const quoted = messageBodyAsText(message)
+    .split("\n")
+    .map((line) => (line.startsWith(">") ? `>${line}` : `> ${line}`))
+    .join("\n");
+
+  return {
+    to: replyTarget,
+    cc: cc.join(", "),
+    subject: prefixSubject("Re", message.subject),
+    body: `\n\nOn ${formatAttributionDate(message.date)}, ${message.from} wrote:\n${quoted}`,
+    ...threadingFields(message),
+  };
+}
+
+export function buildForward(message: FullMessage): Partial<ComposeValues> {
+  const header = [
+    "---------- Forwarded message ---------",
+    `From: ${message.from}`,
+    `Date: ${formatAttributionDate(message.date)}`,
+    `Subject: ${message.subject}`,
+    `To: ${message.to}`,
+    ...(message.cc ? [`Cc: ${message.cc}`] : []),
+  ].join("\n");
+
+  return {
+    subject: prefixSubject("Fwd", message.subject),
+    body: `\n\n${header}\n\n${messageBodyAsText(message)}`,
+    forwardedAttachments: message.attachments.map((attachment) => ({
+      messageId: message.id,
+      attachment,
+    })),
+  };
+}
+
+// Reopen a saved draft in the compose sheet
+export function buildFromDraft(
+  draftId: string,
+  message: FullMessage
+): Partial<ComposeValues> {
+  return {
+    to: message.to,
+    cc: message.cc,
+    bcc: message.bcc,
+    subject: message.subject,
+    body: messageBodyAsText(message),
+    bodyHtml: message.isHtml ? message.body : undefined,
+    threadId: message.threadId,
+    inReplyTo: message.inReplyTo,
+    references: message.references,
+    // Saving replaces the whole draft, so its attachments are carried over
+    // from the draft message itself
+    forwardedAttachments: message.attachments.map((attachment) => ({
+      messageId: message.id,
+      attachment,
+    })),
+    draftId,
+  };
+}
@@ -0,0 +1,303 @@
+// Sender authentication: the SPF, DKIM and DMARC results Gmail recorded
+// when the message arrived, and checks for senders posing as a known vendor.
+// Kept free of server imports so the detail view can share the types.
+import type { MimeHeader } from "@/lib/mime";
+
+export type AuthResult =
+  | "pass"
+  | "fail"
+  | "softfail"
+  | "neutral"
+  | "none"
+  | "policy"
+  | "temperror"
+  | "permerror";
+
+export interface AuthCheck {
+  result: AuthResult;
+  // Domain the check was made for: the envelope sender for SPF, the
+  // signing domain for DKIM, the From domain for DMARC
+  domain?: string;
+}
+
+export interface AuthVerdict {
+  spf?: AuthCheck;
+  dkim: AuthCheck[];
+  dmarc?: AuthCheck & { policy?: string };
+  fromDomain: string;
+  // DMARC passed, or a check that passed was for the From domain's
+  // organization, so the From address is backed by it (relaxed alignment)
+  aligned: boolean;
+  // verified: DMARC passed, or an aligned check did. failed: DMARC or SPF
+  // failed outright with nothing aligned. unverified: anything else.
+  status: "verified" | "unverified" | "failed";
+}
+
+export interface SenderWarning {
+  // impersonation: the name or From domain claims a vendor the message
+  // can't be tied to. lookalike: the domain imitates a vendor's.
+  kind: "impersonation" | "lookalike";
+  message: string;
+  vendorDomain: string;
+}
+
+// The receiving server whose results count. Senders can add their own
+// Authentication-Results headers, so only Gmail's are trusted.
+const TRUSTED_AUTHSERV_ID = "mx.google.com";
+// The Received line Gmail's servers add, "... by mx.google.com with ESMTPS"
+const TRUSTED_HOP = /\bby\s+mx\.google\.com\b/i;
+
+const AUTH_RESULTS = new Set<string>([
+  "pass",
+  "fail",
+  "softfail",
+  "neutral",
+  "none",
+  "policy",
+  "temperror",
+  "permerror",
+]);
+
+// Public suffixes with two labels, for finding a domain's organization.
+// Not the full list - the common ones for business mail.
+const TWO_LABEL_SUFFIXES = new Set([
+  "co.uk",
+  "org.uk",
+  "ac.uk",
+  "gov.uk",
+  "com.au",
+  "net.au",
+  "org.au",
+  "co.nz",
+  "co.jp",
+  "com.br",
+  "com.mx",
+  "co.in",
+  "co.za",
+  "com.cn",
+]);
+
+// Domain of an address, or of the address in a From header
+export function senderDomain(from: string): string {
+  const address = from.match(/<([^>]+)>/)?.[1] ?? from;
+  return address.split("@").pop()?.trim().toLowerCase().replace(/[>.\s]+$/, "") || "";
+}
+
+// The registrable domain: "billing.mingledorffs.com" to "mingledorffs.com"
+export function organizationalDomain(domain: string): string {
+  const labels = domain.toLowerCase().split(".").filter(Boolean);
+  const suffixLength = TWO_LABEL_SUFFIXES.has(labels.slice(-2).join(".")) ? 2 : 1;
+  return labels.slice(-(suffixLength + 1)).join(".");
+}
+
+// Read the verdict from a message's headers. Returns undefined when Gmail
+// recorded no results, as for mail the user sent.
+export function parseAuthentication(headers: MimeHeader[], from: string): AuthVerdict | undefined {
+  // Headers run from the newest at the top to the oldest. Everything below
+  // the Received line Gmail added when it accepted the message came from
+  // the sender, so results are only read from above it.
+  const indexOf = (name: string, test: (value: string) => boolean = () => true) =>
+    headers.findIndex((h) => h.name.toLowerCase() === name && test(h.value));
+  const gmailHop = indexOf("received", (value) => TRUSTED_HOP.test(value));
+  const aboveGmailHop = (index: number) => index !== -1 && gmailHop !== -1 && index < gmailHop;
+
+  // Only the topmost results count, and only when Gmail wrote them; one
+  // further down may be a forgery made to look like Gmail's
+  const resultsIndex = indexOf("authentication-results");
+  const topResults = aboveGmailHop(resultsIndex)
+    ? parseAuthenticationResults(headers[resultsIndex].value)
+    : undefined;
+  const results = topResults?.authservId === TRUSTED_AUTHSERV_ID ? topResults : undefined;
+
+  const spfIndex = indexOf("received-spf");
+  const receivedSpf = aboveGmailHop(spfIndex) ? headers[spfIndex].value : undefined;
+
+  const spf = results?.spf ?? (receivedSpf ? parseReceivedSpf(receivedSpf) : undefined);
+  const dkim = results?.dkim ?? [];
+  const dmarc = results?.dmarc;
+  if (!spf && dkim.length === 0 && !dmarc) return undefined;
+
+  const fromDomain = senderDomain(from);
+  const fromOrganization = organizationalDomain(fromDomain);
+  const alignsWithFrom = (check?: AuthCheck) =>
+    check?.result === "pass" &&
+    !!check.domain &&
+    organizationalDomain(check.domain) === fromOrganization;
+  const aligned = dmarc?.result === "pass" || alignsWithFrom(spf) || dkim.some(alignsWithFrom);
+
+  let status: AuthVerdict["status"];
+  if (dmarc?.result === "pass" || (!dmarc && aligned)) {
+    status = "verified";
+  } else if (dmarc?.result === "fail" || (!aligned && spf?.result === "fail")) {
+    status = "failed";
+  } else {
+    status = "unverified";
+  }
+
+  return { spf, dkim, dmarc, fromDomain, aligned, status };
+}
+
+// RFC 8601: "authserv-id; method=result prop=value ...; ..." with
+// parenthesized comments anywhere
+function parseAuthenticationResults(value: string): {
+  authservId: string;
+  spf?: AuthCheck;
+  dkim: AuthCheck[];
+  dmarc?: AuthCheck & { policy?: string };
+} {
+  // The DMARC policy only appears in a comment, e.g. "(p=REJECT sp=NONE)"
+  const policy = value.match(/dmarc=\w+\s*\(([^)]*)\)/i)?.[1].match(/\bp=(\w+)/i)?.[1];
+  const [authserv = "", ...statements] = value.replace(/\([^)]*\)/g, " ").split(";");
+
+  const parsed: ReturnType<typeof parseAuthenticationResults> = {
+    authservId: authserv.trim().split(/\s+/)[0].toLowerCase(),
+    dkim: [],
+  };
+
+  for (const statement of statements) {
+    const [method, ...properties] = statement.trim().split(/\s+/);
+    const [name, result] = (method || "").toLowerCase().split("=");
+    if (!AUTH_RESULTS.has(result)) continue;
+
+    const props = new Map(
+      properties.map((p) => {
+        const eq = p.indexOf("=");
+        return [p.slice(0, eq).toLowerCase(), p.slice(eq + 1).replace(/^"|"$/g, "")] as const;
+      })
+    );
+    const check = { result: result as AuthResult };
+
+    if (name === "spf") {
+      parsed.spf = {
+        ...check,
+        domain: senderDomain(props.get("smtp.mailfrom") || props.get("smtp.helo") || ""),
+      };
+    } else if (name === "dkim") {
+      parsed.dkim.push({
+        ...check,
+        domain: (props.get("header.d") || senderDomain(props.get("header.i") || "")).toLowerCase(),
+      });
+    } else if (name === "dmarc") {
+      parsed.dmarc = {
+        ...check,
+        domain: props.get("header.from")?.toLowerCase(),
+        policy: policy?.toLowerCase(),
+      };
+    }
+  }
+
+  return parsed;
+}
+
+// "pass (google.com: domain of x@a.com designates ...) client-ip=...;
+// envelope-from=x@a.com; ..."
+function parseReceivedSpf(value: string): AuthCheck | undefined {
+  const result = value.trim().split(/[\s(;]/)[0].toLowerCase();
+  if (!AUTH_RESULTS.has(result)) return undefined;
+
+  const envelopeFrom =
+    value.match(/envelope-from=("?)([^";\s]+)\1/i)?.[2] ||
+    value.match(/domain of\s+(\S+)/i)?.[1] ||
+    "";
+  return { result: result as AuthResult, domain: senderDomain(envelopeFrom) || undefined };
+}
+
+// Warn when a message uses a known vendor's name or domain without being
+// from them: the display name or From domain names the vendor but the
+// message isn't authenticated for the vendor's domain, or the domain is a
+// near copy of theirs such as "mingledorffs-billing.co".
+export function checkSender(
+  from: string,
+  verdict: AuthVerdict | undefined,
+  vendorDomains: string[]
+): SenderWarning[] {
+  const domain = senderDomain(from);
+  if (!domain) return [];
+
+  const organization = organizationalDomain(domain);
+  const name = skeleton(from.match(/^\s*"?([^"<]*)"?\s*</)?.[1] || "");
+  const warnings: SenderWarning[] = [];
+
+  for (const vendorDomain of vendorDomains) {
+    const vendorOrganization = organizationalDomain(vendorDomain);
+    const vendorName = skeleton(brandLabel(vendorOrganization));
+    // Short names like "hp" match too much by accident
+    if (vendorName.length < 4) continue;
+
+    if (organization === vendorOrganization) {
+      if (verdict && !verdict.aligned) {
+        warnings.push({
+          kind: "impersonation",
+          message: `Says it is from ${vendorDomain}, but failed the checks that prove it`,
+          vendorDomain,
+        });
+      }
+      continue;
+    }
+
+    if (looksLike(skeleton(brandLabel(organization)), vendorName)) {
+      warnings.push({
+        kind: "lookalike",
+        message: `${domain} looks like ${vendorDomain} but is a different domain`,
+        vendorDomain,
+      });
+    } else if (name.includes(vendorName)) {
+      warnings.push({
+        kind: "impersonation",
+        message: `The name suggests ${vendorDomain}, but it was sent from ${domain}`,
+        vendorDomain,
+      });
+    }
+  }
+
+  return warnings;
+}
+
+// The part of an organizational domain that names it: "mingledorffs.com"
+// to "mingledorffs"
+function brandLabel(organization: string): string {
+  return organization.split(".")[0] || "";
+}
+
+// Lowercase letters and digits only, with characters commonly swapped in
+// to imitate others mapped back: "rn" reads as "m", "0" as "o" and so on
+function skeleton(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/rn/g, "m")
+    .replace(/vv/g, "w")
+    .replace(/0/g, "o")
+    .replace(/[1|]/g, "l")
+    .replace(/5/g, "s")
+    .replace(/[^a-z0-9]/g, "");
+}
+
+function looksLike(candidate: string, vendorName: string): boolean {
+  if (!candidate) return false;
+  // Same name on another domain, or the name with words added
+  if (candidate.includes(vendorName)) return true;
+  // A letter or two changed, added or dropped
+  const allowed = vendorName.length >= 8 ? 2 : 1;
+  return (
+    Math.abs(candidate.length - vendorName.length) <= allowed &&
+    editDistance(candidate, vendorName) <= allowed
+  );
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
@@ -0,0 +1,49 @@
+import type { FormattedEmail } from "@/lib/gmail";
+
+// Mailbox changes fanned out to the browser tabs a user has open, through
+// the /api/events stream. Events from all of a user's linked accounts share
+// one stream. Subscribers live in this server process.
+export type MailboxEvent =
+  | { type: "messages.added"; messages: Array<FormattedEmail & { accountId: string }> }
+  | {
+      type: "messages.labels";
+      accountId: string;
+      messages: Array<{ id: string; labelIds: string[] }>;
+    }
+  | { type: "messages.deleted"; accountId: string; ids: string[] }
+  | { type: "classifications"; classifications: Record<string, unknown> };
+
+type Listener = (event: MailboxEvent) => void;
+
+// Kept on globalThis so every bundle that publishes (the snooze worker, the
+// push and classification routes) reaches the same streams, and dev-server
+// reloads don't orphan them
+const globalForEvents = globalThis as unknown as {
+  mailboxListeners?: Map<string, Set<Listener>>;
+};
+
+const listeners = globalForEvents.mailboxListeners || new Map<string, Set<Listener>>();
+globalForEvents.mailboxListeners = listeners;
+
+export function subscribeToMailbox(userId: string, listener: Listener): () => void {
+  const userListeners = listeners.get(userId) || new Set<Listener>();
+  userListeners.add(listener);
+  listeners.set(userId, userListeners);
+
+  return () => {
+    userListeners.delete(listener);
+    if (userListeners.size === 0) {
+      listeners.delete(userId);
+    }
+  };
+}
+
+export function publishMailboxEvent(userId: string, event: MailboxEvent): void {
+  for (const listener of listeners.get(userId) || []) {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error("Mailbox event listener error:", error);
+    }
+  }
+}
@@ -0,0 +1,109 @@
+import type { DashboardFilter } from "@prisma/client";
+import type { AccountRef } from "@/lib/accounts";
+import { prisma } from "@/lib/db";
+import {
+  createFilter,
+  createLabel,
+  deleteFilter,
+  listFilters,
+  listLabels,
+  FILTER_ACTIONS,
+  type FilterAction,
+} from "@/lib/gmail";
+
+export interface CreateFilterRequest {
+  name: string;
+  query: string;
+  actions: FilterAction[];
+  labelName?: string;
+}
+
+// Create a Gmail filter from an AI suggestion and remember that the
+// dashboard made it
+export async function createDashboardFilter(
+  accessToken: string,
+  { userId, accountId }: AccountRef,
+  request: CreateFilterRequest
+): Promise<DashboardFilter> {
+  const addLabelIds = new Set<string>();
+  const removeLabelIds = new Set<string>();
+
+  for (const action of request.actions) {
+    FILTER_ACTIONS[action].addLabelIds.forEach((id) => addLabelIds.add(id));
+    FILTER_ACTIONS[action].removeLabelIds.forEach((id) => removeLabelIds.add(id));
+  }
+
+  const labelName = request.actions.includes("label") ? request.labelName?.trim() : undefined;
+  if (labelName) {
+    addLabelIds.add(await findOrCreateLabel(accessToken, labelName));
+  }
+
+  const filter = await createFilter(accessToken, {
+    criteria: { query: request.query },
+    action: {
+      addLabelIds: [...addLabelIds],
+      removeLabelIds: [...removeLabelIds],
+    },
+  });
+
+  return prisma.dashboardFilter.create({
+    data: {
+      userId,
+      accountId,
+      gmailFilterId: filter.id,
+      name: request.name,
+      query: request.query,
+      actions: JSON.stringify(request.actions),
+      labelName: labelName || null,
+    },
+  });
+}
+
+// Filters the dashboard created that still exist in Gmail. Records for
+// filters deleted in Gmail are cleaned up on the way.
+export async function listDashboardFilters(
+  accessToken: string,
+  { userId, accountId }: AccountRef
+): Promise<DashboardFilter[]> {
+  const [records, filters] = await Promise.all([
+    prisma.dashboardFilter.findMany({
+      where: { userId, accountId },
+      orderBy: { createdAt: "desc" },
+    }),
+    listFilters(accessToken),
+  ]);
+
+  const gmailIds = new Set(filters.map((f) => f.id));
+  const gone = records.filter((r) => !gmailIds.has(r.gmailFilterId));
+
+  if (gone.length > 0) {
+    await prisma.dashboardFilter.deleteMany({
+      where: { id: { in: gone.map((r) => r.id) } },
+    });
+  }
+
+  return records.filter((r) => gmailIds.has(r.gmailFilterId));
+}
+
+// Returns false if the account has no such dashboard filter
+export async function deleteDashboardFilter(
+  accessToken: string,
+  { userId, accountId }: AccountRef,
+  id: string
+): Promise<boolean> {
+  const record = await prisma.dashboardFilter.findFirst({ where: { id, userId, accountId } });
+  if (!record) return false;
+
+  await deleteFilter(accessToken, record.gmailFilterId);
+  await prisma.dashboardFilter.delete({ where: { id } });
+  return true;
+}
+
+async function findOrCreateLabel(accessToken: string, name: string): Promise<string> {
+  const labels = await listLabels(accessToken);
+  const existing = labels.find((l) => l.name.toLowerCase() === name.toLowerCase());
+  if (existing) return existing.id;
+
+  const label = await createLabel(accessToken, name);
+  return label.id;
+}
@@ -313,6 +313,38 @@ Respond in JSON:
   return { tasks: [] };
 }
 
+export async function draftOutOfOffice(
+  request: string,
+  options: { start?: string; end?: string; senderName?: string }
+): Promise<{ subject: string; body: string }> {
+  const prompt = `Write an out-of-office auto-reply email from this request: "${request}"
+
+${options.senderName ? `Sender: ${options.senderName}\n` : ""}${options.start ? `Away from: ${options.start}\n` : ""}${options.end ? `Last day away: ${options.end}\n` : ""}
+Keep it short, polite and professional. Mention the dates if given. Don't invent names, phone numbers or email addresses that aren't in the request.
+
+Respond in JSON:
+{
+  "subject": "Short subject line",
+  "body": "The message as plain text, with blank lines between paragraphs"
+}`;
+
+  // Using Flash model for drafting (short, user-initiated)
+  const result = await withRetry(() => modelFlash.generateContent(prompt));
+  const text = result.response.text();
+
+  try {
+    const jsonMatch = text.match(/\{[\s\S]*\}/);
+    if (jsonMatch) {
+      const parsed = JSON.parse(jsonMatch[0]);
+      return { subject: String(parsed.subject || ""), body: String(parsed.body || "") };
+    }
+  } catch (e) {
+    console.error("Failed to parse Gemini response:", e);
+  }
+
+  return { subject: "", body: text.trim() };
+}
+
 export interface EmailClassificationResult {
   id: string;
   category: "orders" | "alerts" | "vendors" | "customers" | "correspondence" | "billing" | "shipping" | "system" | "other";
@@ -0,0 +1,190 @@
+// Client for Gmail's HTTP batch endpoint. Up to BATCH_SIZE API calls travel
+// in one multipart/mixed request, and come back as one multipart response.
+import {
+  GMAIL_API_BASE,
+  gmailError,
+  gmailErrorFromResponse,
+  isIdempotent,
+  sendWithRetry,
+  type GmailApiError,
+  type GmailOperation,
+} from "@/lib/gmail-client";
+
+const BATCH_ENDPOINT = "https://gmail.googleapis.com/batch/gmail/v1";
+
+// Gmail accepts 100 calls per batch but starts rate limiting well before
+// that; 50 keeps a full message page to a single round trip
+const BATCH_SIZE = 50;
+
+export interface BatchRequest {
+  // What the call is, for quota accounting
+  operation: GmailOperation;
+  method: "GET" | "POST" | "PUT" | "DELETE";
+  // Path below /gmail/v1/, e.g. "users/me/messages/abc?format=metadata"
+  path: string;
+  body?: unknown;
+}
+
+export interface BatchResponse {
+  status: number;
+  // Parsed JSON when the sub-response is JSON, raw text otherwise
+  body: unknown;
+}
+
+// Run the requests through the batch endpoint, returning one response per
+// request in the same order. Sub-requests that were rate limited are retried
+// one at a time as ordinary requests, as are those that hit a server error
+// or are missing from the response when they are safe to repeat.
+export async function batchRequest(
+  accessToken: string,
+  requests: BatchRequest[]
+): Promise<BatchResponse[]> {
+  const responses: BatchResponse[] = [];
+
+  for (let i = 0; i < requests.length; i += BATCH_SIZE) {
+    const chunk = requests.slice(i, i + BATCH_SIZE);
+    const chunkResponses = await sendBatch(accessToken, chunk);
+
+    for (let j = 0; j < chunk.length; j++) {
+      const response = chunkResponses[j];
+      if (shouldResend(chunk[j], response)) {
+        responses.push(await sendSingle(accessToken, chunk[j]));
+      } else {
+        responses.push(response || { status: 503, body: "No response to this call in the batch" });
+      }
+    }
+  }
+
+  return responses;
+}
+
+// Turn a sub-response into the same error the single-request helpers throw
+export function batchError(response: BatchResponse): GmailApiError {
+  return gmailError(response.status, response.body);
+}
+
+// A rate limit means Gmail didn't act, so any call can be sent again. A
+// server error or a missing response doesn't say whether it did.
+function shouldResend(request: BatchRequest, response: BatchResponse | undefined): boolean {
+  if (response && response.status < 400) return false;
+  if (response && batchError(response).kind === "rate_limited") return true;
+  return (!response || response.status >= 500) && isIdempotent(request.operation);
+}
+
+async function sendBatch(
+  accessToken: string,
+  requests: BatchRequest[]
+): Promise<Array<BatchResponse | undefined>> {
+  const boundary = `batch_${crypto.randomUUID().replace(/-/g, "")}`;
+
+  const parts = requests.map((request, index) => {
+    const lines = [
+      `--${boundary}`,
+      "Content-Type: application/http",
+      `Content-ID: <item-${index}>`,
+      "",
+      `${request.method} /gmail/v1/${request.path}`,
+    ];
+
+    if (request.body !== undefined) {
+      lines.push("Content-Type: application/json", "", JSON.stringify(request.body));
+    } else {
+      lines.push("");
+    }
+
+    return lines.join("\r\n");
+  });
+
+  // Each call in the batch is charged against the quota as if sent alone
+  const response = await sendWithRetry(
+    accessToken,
+    requests.map((request) => request.operation),
+    () =>
+      fetch(BATCH_ENDPOINT, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          "Content-Type": `multipart/mixed; boundary=${boundary}`,
+        },
+        body: `${parts.join("\r\n")}\r\n--${boundary}--\r\n`,
+      })
+  );
+
+  // The batch as a whole failed even after retries, so single requests
+  // would too
+  if (!response.ok) {
+    throw await gmailErrorFromResponse(response);
+  }
+
+  return parseBatchResponse(
+    response.headers.get("content-type") || "",
+    await response.text(),
+    requests.length
+  );
+}
+
+async function sendSingle(accessToken: string, request: BatchRequest): Promise<BatchResponse> {
+  const response = await sendWithRetry(accessToken, [request.operation], () =>
+    fetch(`${GMAIL_API_BASE}/${request.path}`, {
+      method: request.method,
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        ...(request.body !== undefined && { "Content-Type": "application/json" }),
+      },
+      body: request.body !== undefined ? JSON.stringify(request.body) : undefined,
+    })
+  );
+
+  const text = await response.text();
+  return {
+    status: response.status,
+    body: parseBody(response.headers.get("content-type") || "", text),
+  };
+}
+
+function parseBatchResponse(
+  contentType: string,
+  text: string,
+  count: number
+): Array<BatchResponse | undefined> {
+  const boundary = contentType.match(/boundary="?([^";]+)"?/i)?.[1];
+  const responses = new Array<BatchResponse | undefined>(count);
+  if (!boundary) return responses;
+
+  for (const part of text.split(`--${boundary}`)) {
+    // Each part is MIME headers, then an embedded HTTP response
+    const [partHeaders, httpResponse] = splitHead(part);
+    if (httpResponse === undefined) continue;
+
+    const index = Number(partHeaders.match(/Content-ID:\s*<response-item-(\d+)>/i)?.[1]);
+    if (!Number.isInteger(index) || index < 0 || index >= count) continue;
+
+    const [head, body = ""] = splitHead(httpResponse);
+    const status = Number(head.match(/^HTTP\/[\d.]+\s+(\d{3})/)?.[1]);
+    if (!status) continue;
+
+    const type = head.match(/^Content-Type:\s*(.+)$/im)?.[1] || "";
+    responses[index] = { status, body: parseBody(type, body.trim()) };
+  }
+
+  return responses;
+}
+
+// Split a header block from what follows the first blank line
+function splitHead(text: string): [string, string | undefined] {
+  const trimmed = text.replace(/^\r?\n/, "");
+  const match = trimmed.match(/\r?\n\r?\n/);
+  if (!match || match.index === undefined) return [trimmed, undefined];
+  return [trimmed.slice(0, match.index), trimmed.slice(match.index + match[0].length)];
+}
+
+function parseBody(contentType: string, text: string): unknown {
+  if (contentType.includes("application/json") && text) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  }
+  return text;
+}
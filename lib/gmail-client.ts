@@ -0,0 +1,341 @@
+// Every Gmail API call goes through here. Calls are metered against the
+// per-user quota before they're sent, rate limits (and server errors, for
+// calls safe to repeat) are retried with backoff, and failures surface as a GmailApiError that says
+// what went wrong rather than just an HTTP status.
+export const GMAIL_API_BASE = "https://gmail.googleapis.com/gmail/v1";
+
+// Quota units charged per call, from Gmail's usage limits table
+export const GMAIL_QUOTA_UNITS = {
+  "messages.list": 5,
+  "messages.get": 5,
+  "messages.modify": 5,
+  "messages.batchModify": 50,
+  "messages.trash": 5,
+  "messages.untrash": 5,
+  "messages.send": 100,
+  "messages.attachments.get": 5,
+  "threads.get": 10,
+  "labels.list": 1,
+  "labels.create": 5,
+  "labels.patch": 5,
+  "labels.delete": 5,
+  "drafts.list": 5,
+  "drafts.get": 5,
+  "drafts.create": 10,
+  "drafts.update": 15,
+  "drafts.send": 100,
+  "drafts.delete": 10,
+  "settings.filters.list": 1,
+  "settings.filters.create": 5,
+  "settings.filters.delete": 5,
+  "settings.vacation.get": 1,
+  "settings.vacation.update": 5,
+  "settings.sendAs.list": 1,
+  "settings.sendAs.patch": 100,
+  "history.list": 2,
+  "getProfile": 1,
+  "watch": 100,
+} as const;
+
+export type GmailOperation = keyof typeof GMAIL_QUOTA_UNITS;
+
+// Calls that may take effect twice if repeated: a server error or a lost
+// response doesn't say whether Gmail acted, so these are only retried when
+// Gmail turned them away for rate limiting
+const NON_IDEMPOTENT_OPERATIONS = new Set<GmailOperation>([
+  "messages.send",
+  "messages.trash",
+  "messages.untrash",
+  "drafts.create",
+  "drafts.send",
+  "labels.create",
+  "settings.filters.create",
+]);
+
+export function isIdempotent(operation: GmailOperation): boolean {
+  return !NON_IDEMPOTENT_OPERATIONS.has(operation);
+}
+
+// Gmail allows 250 units per user per second, averaged over a moving window
+const QUOTA_UNITS_PER_SECOND = 250;
+const QUOTA_WINDOW_MS = 1000;
+
+const MAX_RETRIES = 3;
+const INITIAL_DELAY_MS = 1000;
+// A Retry-After longer than this is passed on to the caller instead of
+// holding the request open
+const MAX_RETRY_AFTER_MS = 10_000;
+
+export type GmailErrorKind =
+  | "rate_limited"
+  | "auth_expired"
+  | "forbidden"
+  | "not_found"
+  | "invalid_request"
+  | "unavailable"
+  | "failed";
+
+// Status a route should answer with for each kind of Gmail failure
+const HTTP_STATUS: Record<GmailErrorKind, number> = {
+  rate_limited: 429,
+  auth_expired: 401,
+  forbidden: 403,
+  not_found: 404,
+  invalid_request: 400,
+  unavailable: 503,
+  failed: 502,
+};
+
+export class GmailApiError extends Error {
+  constructor(
+    message: string,
+    readonly kind: GmailErrorKind,
+    // Status Gmail answered with, 0 when the request never got a response
+    readonly status: number,
+    // Seconds until Gmail will accept requests again, when it said
+    readonly retryAfter?: number
+  ) {
+    super(message);
+    this.name = "GmailApiError";
+  }
+
+  get httpStatus(): number {
+    return HTTP_STATUS[this.kind];
+  }
+}
+
+export function isGmailApiError(error: unknown, kind?: GmailErrorKind): error is GmailApiError {
+  return error instanceof GmailApiError && (!kind || error.kind === kind);
+}
+
+export interface GmailRequestInit {
+  method?: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+  // Sent as JSON
+  body?: unknown;
+}
+
+// Call a Gmail endpoint, given its path below /gmail/v1/. Resolves with the
+// successful response; anything else rejects with a GmailApiError.
+export async function gmailFetch(
+  accessToken: string,
+  operation: GmailOperation,
+  path: string,
+  init: GmailRequestInit = {}
+): Promise<Response> {
+  const response = await sendWithRetry(accessToken, [operation], () =>
+    fetch(`${GMAIL_API_BASE}/${path}`, {
+      method: init.method,
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        ...(init.body !== undefined && { "Content-Type": "application/json" }),
+      },
+      body: init.body !== undefined ? JSON.stringify(init.body) : undefined,
+    })
+  );
+
+  if (!response.ok) {
+    throw await gmailErrorFromResponse(response);
+  }
+
+  return response;
+}
+
+// Meter and send a request carrying the given operations (several for a
+// batch), retrying rate limits, and server errors and network failures when
+// every operation is safe to repeat. Resolves with the last response even
+// when it isn't OK, so callers that expect some failures can inspect it.
+export async function sendWithRetry(
+  accessToken: string,
+  operations: GmailOperation[],
+  send: () => Promise<Response>
+): Promise<Response> {
+  const idempotent = operations.every(isIdempotent);
+
+  for (let attempt = 0; ; attempt++) {
+    await reserveQuota(accessToken, operations);
+
+    let response: Response;
+    try {
+      response = await send();
+    } catch (error) {
+      if (!idempotent || attempt >= MAX_RETRIES) {
+        throw new GmailApiError(
+          `Gmail API unreachable: ${error instanceof Error ? error.message : String(error)}`,
+          "unavailable",
+          0
+        );
+      }
+      await sleep(backoffDelay(attempt));
+      continue;
+    }
+
+    if (response.ok || attempt >= MAX_RETRIES || !(await isRetryable(response, idempotent))) {
+      return response;
+    }
+
+    if (response.status === 429) {
+      console.warn("Gmail rate limited, units used in the last second:", quotaUsage(accessToken));
+    }
+
+    const retryAfter = parseRetryAfter(response.headers.get("retry-after"));
+    if (retryAfter !== undefined && retryAfter > MAX_RETRY_AFTER_MS) {
+      return response;
+    }
+
+    await sleep(Math.max(retryAfter ?? 0, backoffDelay(attempt)));
+  }
+}
+
+// Build the error for a failed response, reading Gmail's error body
+export async function gmailErrorFromResponse(response: Response): Promise<GmailApiError> {
+  const text = await response.text();
+  let body: unknown = text;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    // Not JSON - keep the text
+  }
+
+  const retryAfter = parseRetryAfter(response.headers.get("retry-after"));
+  return gmailError(
+    response.status,
+    body,
+    retryAfter !== undefined ? Math.ceil(retryAfter / 1000) : undefined
+  );
+}
+
+// Build the error for a status and already-parsed body, as found in batch
+// sub-responses
+export function gmailError(status: number, body: unknown, retryAfter?: number): GmailApiError {
+  const { message, reasons } = parseErrorBody(body);
+  const kind = errorKind(status, reasons);
+  const detail = message || `HTTP ${status}`;
+
+  switch (kind) {
+    case "rate_limited":
+      return new GmailApiError(
+        "Gmail rate limit reached, try again in a moment",
+        kind,
+        status,
+        retryAfter ?? 1
+      );
+    case "auth_expired":
+      return new GmailApiError("Google session expired, sign in again", kind, status);
+    default:
+      return new GmailApiError(`Gmail API error: ${status} - ${detail}`, kind, status);
+  }
+}
+
+function errorKind(status: number, reasons: string[]): GmailErrorKind {
+  if (status === 429 || (status === 403 && reasons.some(isRateLimitReason))) {
+    return "rate_limited";
+  }
+  if (status === 401) return "auth_expired";
+  if (status === 403) return "forbidden";
+  if (status === 404) return "not_found";
+  if (status === 400 || status === 409 || status === 412) return "invalid_request";
+  if (status >= 500) return "unavailable";
+  return "failed";
+}
+
+function isRateLimitReason(reason: string): boolean {
+  return reason === "rateLimitExceeded" || reason === "userRateLimitExceeded";
+}
+
+// Gmail errors look like { error: { code, message, errors: [{ reason }] } }
+function parseErrorBody(body: unknown): { message?: string; reasons: string[] } {
+  if (typeof body === "string") {
+    return { message: body.trim() || undefined, reasons: [] };
+  }
+
+  const error = (body as { error?: { message?: string; errors?: Array<{ reason?: string }> } })
+    ?.error;
+  return {
+    message: error?.message,
+    reasons: (error?.errors || []).flatMap((e) => (e.reason ? [e.reason] : [])),
+  };
+}
+
+async function isRetryable(response: Response, idempotent: boolean): Promise<boolean> {
+  if (response.status === 429) return true;
+  if (response.status >= 500) return idempotent;
+  if (response.status !== 403) return false;
+
+  // Per-user rate limits sometimes come back as 403 with a reason
+  const { reasons } = parseErrorBody(await response.clone().json().catch(() => null));
+  return reasons.some(isRateLimitReason);
+}
+
+// Retry-After is either a number of seconds or an HTTP date. Returns
+// milliseconds.
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function backoffDelay(attempt: number): number {
+  return INITIAL_DELAY_MS * Math.pow(2, attempt) + Math.random() * 500;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Calls made in the current window, per user. Keyed by access token, which
+// identifies one user's grant without another lookup.
+const quotaWindows = new Map<
+  string,
+  Array<{ at: number; operation: GmailOperation; units: number }>
+>();
+
+// Wait until the user's window has room for the operations, then record them
+async function reserveQuota(accessToken: string, operations: GmailOperation[]): Promise<void> {
+  const units = operations.reduce((sum, operation) => sum + GMAIL_QUOTA_UNITS[operation], 0);
+
+  for (;;) {
+    const now = Date.now();
+    pruneQuotaWindows(now);
+    const window = quotaWindows.get(accessToken) || [];
+    const used = window.reduce((sum, entry) => sum + entry.units, 0);
+
+    // A single request larger than the limit can only go on an empty window
+    if (used === 0 || used + units <= QUOTA_UNITS_PER_SECOND) {
+      for (const operation of operations) {
+        window.push({ at: now, operation, units: GMAIL_QUOTA_UNITS[operation] });
+      }
+      quotaWindows.set(accessToken, window);
+      return;
+    }
+
+    await sleep(QUOTA_WINDOW_MS - (now - window[0].at));
+  }
+}
+
+// Drop calls that have left the window, and users with none left
+function pruneQuotaWindows(now: number): void {
+  for (const [accessToken, window] of quotaWindows) {
+    const current = window.filter((entry) => now - entry.at < QUOTA_WINDOW_MS);
+    if (current.length > 0) {
+      quotaWindows.set(accessToken, current);
+    } else {
+      quotaWindows.delete(accessToken);
+    }
+  }
+}
+
+// Units the user spent in the current window, per operation
+function quotaUsage(accessToken: string): Partial<Record<GmailOperation, number>> {
+  const now = Date.now();
+  const usage: Partial<Record<GmailOperation, number>> = {};
+  for (const entry of quotaWindows.get(accessToken) || []) {
+    if (now - entry.at < QUOTA_WINDOW_MS) {
+      usage[entry.operation] = (usage[entry.operation] || 0) + entry.units;
+    }
+  }
+  return usage;
+}
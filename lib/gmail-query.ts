@@ -0,0 +1,307 @@
+import { format } from "date-fns";
+import type { EmailFilters } from "@/lib/stores";
+
+// Parser and serializer for Gmail search syntax, so the search box and the
+// filter chips describe the same query. Parsing then serializing only
+// normalizes whitespace; everything the chips don't cover stays in the text.
+
+export type QueryNode = QueryTerm | QueryGroup | QueryOr;
+
+// A word, a quoted phrase or an operator such as from:jane, optionally
+// negated with a leading "-"
+export interface QueryTerm {
+  type: "term";
+  operator?: string;
+  value: string;
+  quoted: boolean;
+  negated: boolean;
+}
+
+// Clauses in parentheses, all of which must match
+export interface QueryGroup {
+  type: "group";
+  children: QueryNode[];
+  negated: boolean;
+}
+
+// Alternatives joined with OR
+export interface QueryOr {
+  type: "or";
+  children: QueryNode[];
+}
+
+// A problem in the query text, as character offsets for highlighting
+export interface QueryError {
+  start: number;
+  end: number;
+  message: string;
+}
+
+export interface ParsedQuery {
+  // Top-level clauses, all of which must match
+  nodes: QueryNode[];
+  errors: QueryError[];
+}
+
+// The filters that have a chip of their own in the filter bar
+export type QueryFilters = Pick<
+  EmailFilters,
+  "search" | "unreadOnly" | "hasAttachment" | "dateRange"
+>;
+
+type Token =
+  | { kind: "open" | "close" | "or"; start: number; end: number }
+  | {
+      kind: "word";
+      start: number;
+      end: number;
+      operator?: string;
+      value: string;
+      quoted: boolean;
+      negated: boolean;
+    };
+
+// Dates Gmail accepts in after:/before: - 2024/01/31, 2024-01-31,
+// 01/31/2024 or seconds since the epoch
+const DATE_VALUE = /^(\d{4}[/-]\d{1,2}[/-]\d{1,2}|\d{1,2}\/\d{1,2}\/\d{4}|\d+)$/;
+const DATE_OPERATORS = ["after", "before", "older", "newer"];
+
+// Relative ages for newer_than:/older_than: - 2d, 3m, 1y
+const AGE_VALUE = /^\d+[dmy]$/i;
+const AGE_OPERATORS = ["newer_than", "older_than"];
+
+function tokenize(input: string, errors: QueryError[]): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === "(" || char === ")") {
+      tokens.push({ kind: char === "(" ? "open" : "close", start: i, end: i + 1 });
+      i++;
+    } else {
+      const start = i;
+      const negated = char === "-" && i + 1 < input.length && !/\s/.test(input[i + 1]);
+      if (negated) i++;
+
+      // An operator name runs up to the colon: from:, label:, newer_than:
+      const operatorMatch = input.slice(i).match(/^([a-z_]+):/i);
+      const operator = operatorMatch?.[1].toLowerCase();
+      if (operatorMatch) i += operatorMatch[0].length;
+
+      let value: string;
+      let quoted = false;
+      if (input[i] === '"') {
+        const close = input.indexOf('"', i + 1);
+        if (close === -1) {
+          errors.push({ start: i, end: input.length, message: "Missing closing quote" });
+          value = input.slice(i + 1);
+          i = input.length;
+        } else {
+          value = input.slice(i + 1, close);
+          i = close + 1;
+        }
+        quoted = true;
+      } else {
+        const valueStart = i;
+        while (i < input.length && !/[\s()]/.test(input[i])) i++;
+        value = input.slice(valueStart, i);
+      }
+
+      if (!negated && !operator && !quoted && value === "OR") {
+        tokens.push({ kind: "or", start, end: i });
+      } else {
+        tokens.push({ kind: "word", start, end: i, operator, value, quoted, negated });
+      }
+    }
+  }
+
+  return tokens;
+}
+
+function validateTerm(token: Extract<Token, { kind: "word" }>, errors: QueryError[]) {
+  const { operator, value, start, end } = token;
+
+  if (operator && !value) {
+    errors.push({ start, end, message: `${operator}: needs a value` });
+  } else if (operator && DATE_OPERATORS.includes(operator) && !DATE_VALUE.test(value)) {
+    errors.push({ start, end, message: `${operator}: expects a date like 2024/01/31` });
+  } else if (operator && AGE_OPERATORS.includes(operator) && !AGE_VALUE.test(value)) {
+    errors.push({ start, end, message: `${operator}: expects an age like 7d, 3m or 1y` });
+  } else if (!operator && !token.quoted && !value) {
+    errors.push({ start, end, message: "Nothing to negate" });
+  }
+}
+
+export function parseGmailQuery(input: string): ParsedQuery {
+  const errors: QueryError[] = [];
+  const tokens = tokenize(input, errors);
+  let position = 0;
+
+  // Clauses up to the end of input or of the current group
+  const parseSequence = (inGroup: boolean): QueryNode[] => {
+    const nodes: QueryNode[] = [];
+
+    while (position < tokens.length) {
+      const token = tokens[position];
+      if (token.kind === "close") {
+        if (inGroup) return nodes;
+        errors.push({ start: token.start, end: token.end, message: "Unmatched )" });
+        position++;
+        continue;
+      }
+
+      if (token.kind === "or") {
+        const previous = nodes.pop();
+        const next = tokens[position + 1];
+        position++;
+        if (!previous || !next || next.kind === "or" || next.kind === "close") {
+          errors.push({ start: token.start, end: token.end, message: "OR needs a term on each side" });
+          if (previous) nodes.push(previous);
+          continue;
+        }
+
+        const right = parseClause();
+        if (!right) continue;
+        // a OR b OR c is one set of alternatives
+        nodes.push({
+          type: "or",
+          children: [...(previous.type === "or" ? previous.children : [previous]), right],
+        });
+        continue;
+      }
+
+      const clause = parseClause();
+      if (clause) nodes.push(clause);
+    }
+
+    return nodes;
+  };
+
+  const parseClause = (): QueryNode | null => {
+    const token = tokens[position++];
+
+    if (token.kind === "open") {
+      const children = parseSequence(true);
+      if (tokens[position]?.kind === "close") {
+        position++;
+      } else {
+        errors.push({ start: token.start, end: token.end, message: "Unmatched (" });
+      }
+      return { type: "group", children, negated: false };
+    }
+
+    if (token.kind === "word") {
+      // "-(a b)" negates a whole group
+      if (token.negated && !token.operator && !token.quoted && !token.value) {
+        if (tokens[position]?.kind === "open" && tokens[position].start === token.end) {
+          const group = parseClause() as QueryGroup;
+          return { ...group, negated: true };
+        }
+      }
+
+      validateTerm(token, errors);
+      return {
+        type: "term",
+        operator: token.operator,
+        value: token.value,
+        quoted: token.quoted,
+        negated: token.negated,
+      };
+    }
+
+    return null;
+  };
+
+  return { nodes: parseSequence(false), errors };
+}
+
+export function serializeGmailQuery(nodes: QueryNode[]): string {
+  return nodes.map(serializeNode).join(" ");
+}
+
+function serializeNode(node: QueryNode): string {
+  switch (node.type) {
+    case "or":
+      return node.children.map(serializeNode).join(" OR ");
+    case "group":
+      return `${node.negated ? "-" : ""}(${serializeGmailQuery(node.children)})`;
+    case "term": {
+      // Values that would otherwise split or read as syntax need quotes
+      const value =
+        node.quoted || /[\s()"]/.test(node.value) || (!node.operator && node.value === "OR")
+          ? `"${node.value.replace(/"/g, "")}"`
+          : node.value;
+      return `${node.negated ? "-" : ""}${node.operator ? `${node.operator}:` : ""}${value}`;
+    }
+  }
+}
+
+// The chip clauses, in the order they are written after the search text
+function chipTerms(filters: QueryFilters, now: Date): QueryTerm[] {
+  const term = (operator: string, value: string): QueryTerm => ({
+    type: "term",
+    operator,
+    value,
+    quoted: false,
+    negated: false,
+  });
+
+  const terms: QueryTerm[] = [];
+  if (filters.unreadOnly) terms.push(term("is", "unread"));
+  if (filters.hasAttachment) terms.push(term("has", "attachment"));
+  if (filters.dateRange === "today") terms.push(term("after", format(now, "yyyy/MM/dd")));
+  if (filters.dateRange === "week") terms.push(term("newer_than", "7d"));
+  if (filters.dateRange === "month") terms.push(term("newer_than", "30d"));
+  return terms;
+}
+
+// The Gmail query for the search text plus the active chips
+export function filtersToQuery(filters: QueryFilters, now = new Date()): string {
+  return [filters.search.trim(), serializeGmailQuery(chipTerms(filters, now))]
+    .filter(Boolean)
+    .join(" ");
+}
+
+// Split a query into chip filters and the remaining search text. Only
+// top-level, un-negated clauses can become chips; is:unread inside an OR
+// stays part of the search.
+export function queryToFilters(
+  query: string,
+  now = new Date()
+): { filters: QueryFilters; errors: QueryError[] } {
+  const { nodes, errors } = parseGmailQuery(query);
+  const filters: QueryFilters = {
+    search: "",
+    unreadOnly: false,
+    hasAttachment: false,
+    dateRange: "all",
+  };
+
+  const today = format(now, "yyyy/MM/dd");
+  const remaining = nodes.filter((node) => {
+    if (node.type !== "term" || node.negated || node.quoted) return true;
+    const clause = `${node.operator}:${node.value.toLowerCase()}`;
+
+    if (clause === "is:unread" && !filters.unreadOnly) {
+      filters.unreadOnly = true;
+    } else if (clause === "has:attachment" && !filters.hasAttachment) {
+      filters.hasAttachment = true;
+    } else if (filters.dateRange === "all" && clause === `after:${today}`) {
+      filters.dateRange = "today";
+    } else if (filters.dateRange === "all" && clause === "newer_than:7d") {
+      filters.dateRange = "week";
+    } else if (filters.dateRange === "all" && clause === "newer_than:30d") {
+      filters.dateRange = "month";
+    } else {
+      return true;
+    }
+    return false;
+  });
+
+  filters.search = serializeGmailQuery(remaining);
+  return { filters, errors };
+}
@@ -1,4 +1,7 @@
-const GMAIL_API_BASE = "https://gmail.googleapis.com/gmail/v1";
+import { parseAuthentication, type AuthVerdict, type SenderWarning } from "@/lib/email-auth";
+import { batchError, batchRequest } from "@/lib/gmail-batch";
+import { gmailFetch, isGmailApiError } from "@/lib/gmail-client";
+import { decodeBase64UrlBytes, decodeMimeHeader, decodePartBody, htmlToText } from "@/lib/mime";
 
 export interface GmailMessage {
   id: string;
@@ -15,26 +18,87 @@ export interface GmailMessage {
     parts?: GmailMessagePart[];
   };
   internalDate?: string;
+  // The whole RFC 822 message as base64url, only with format=raw
+  raw?: string;
 }
 
 export interface GmailMessagePart {
+  partId?: string;
   mimeType?: string;
+  filename?: string;
+  headers?: Array<{ name: string; value: string }>;
   body?: {
+    attachmentId?: string;
     data?: string;
     size?: number;
   };
   parts?: GmailMessagePart[];
 }
 
+export interface EmailAttachment {
+  // Gmail regenerates attachment IDs on every fetch, so partId is what
+  // identifies an attachment across requests
+  attachmentId: string;
+  partId: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+  // Content-ID without angle brackets, set for parts referenced as cid: in HTML
+  contentId?: string;
+}
+
 export interface GmailMessageList {
   messages: Array<{ id: string; threadId: string }>;
   nextPageToken?: string;
   resultSizeEstimate: number;
 }
 
+export interface GmailThread {
+  id: string;
+  historyId?: string;
+  messages?: GmailMessage[];
+}
+
+export interface FullMessage {
+  id: string;
+  threadId: string;
+  from: string;
+  to: string;
+  cc: string;
+  bcc: string;
+  replyTo: string;
+  subject: string;
+  date: string;
+  // Threading headers, needed to reply within the same conversation
+  messageId: string;
+  inReplyTo: string;
+  references: string;
+  snippet: string;
+  labelIds: string[];
+  body: string;
+  isHtml: boolean;
+  attachments: EmailAttachment[];
+  unsubscribe?: UnsubscribeOptions;
+  // SPF, DKIM and DMARC results, when Gmail recorded any
+  authentication?: AuthVerdict;
+  // Signs the sender is posing as a known vendor, added by the routes
+  senderWarnings?: SenderWarning[];
+}
+
+// Ways to leave a mailing list, from the List-Unsubscribe (RFC 2369) and
+// List-Unsubscribe-Post (RFC 8058) headers
+export interface UnsubscribeOptions {
+  url?: string;
+  mailto?: string;
+  // The sender accepts a POST to url without any further confirmation
+  oneClick: boolean;
+}
+
 export interface FormattedEmail {
   id: string;
   threadId: string;
+  // Milliseconds since epoch, as a string - what Gmail sorts the mailbox by
+  internalDate?: string;
   from: string;
   subject: string;
   date: string;
@@ -42,6 +106,10 @@ export interface FormattedEmail {
   isUnread: boolean;
   hasAttachment: boolean;
   labelIds: string[];
+  draftId?: string;
+  unsubscribe?: UnsubscribeOptions;
+  // Linked account the message is in; set once it leaves the Gmail client
+  accountId?: string;
 }
 
 export async function listMessages(
@@ -62,76 +130,831 @@ export async function listMessages(
     params.set("pageToken", pageToken);
   }
 
-  const response = await fetch(
-    `${GMAIL_API_BASE}/users/me/messages?${params}`,
+  const response = await gmailFetch(accessToken, "messages.list", `users/me/messages?${params}`);
+
+  return response.json();
+}
+
+export async function getMessage(
+  accessToken: string,
+  messageId: string,
+  format: "metadata" | "full" | "raw" = "metadata"
+): Promise<GmailMessage> {
+  const response = await gmailFetch(
+    accessToken,
+    "messages.get",
+    `users/me/messages/${messageId}?${messageParams(format)}`
+  );
+
+  return response.json();
+}
+
+export async function modifyMessage(
+  accessToken: string,
+  messageId: string,
+  addLabelIds: string[] = [],
+  removeLabelIds: string[] = []
+): Promise<GmailMessage> {
+  const response = await gmailFetch(
+    accessToken,
+    "messages.modify",
+    `users/me/messages/${messageId}/modify`,
     {
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-      },
+      method: "POST",
+      body: { addLabelIds, removeLabelIds },
     }
   );
 
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Gmail API error: ${response.status} - ${error}`);
-  }
+  return response.json();
+}
+
+export async function batchModifyMessages(
+  accessToken: string,
+  messageIds: string[],
+  addLabelIds: string[] = [],
+  removeLabelIds: string[] = []
+): Promise<void> {
+  // batchModify returns an empty body on success
+  await gmailFetch(accessToken, "messages.batchModify", "users/me/messages/batchModify", {
+    method: "POST",
+    body: { ids: messageIds, addLabelIds, removeLabelIds },
+  });
+}
+
+export interface GmailLabel {
+  id: string;
+  name: string;
+  type: "system" | "user";
+}
+
+export async function listLabels(accessToken: string): Promise<GmailLabel[]> {
+  const response = await gmailFetch(accessToken, "labels.list", "users/me/labels");
+
+  const data = (await response.json()) as { labels?: GmailLabel[] };
+  return data.labels || [];
+}
+
+export async function createLabel(accessToken: string, name: string): Promise<GmailLabel> {
+  const response = await gmailFetch(accessToken, "labels.create", "users/me/labels", {
+    method: "POST",
+    body: {
+      name,
+      labelListVisibility: "labelShow",
+      messageListVisibility: "show",
+    },
+  });
 
   return response.json();
 }
 
-export async function getMessage(
+export async function renameLabel(
   accessToken: string,
-  messageId: string,
-  format: "metadata" | "full" = "metadata"
-): Promise<GmailMessage> {
-  const params = new URLSearchParams({
-    format,
+  labelId: string,
+  name: string
+): Promise<GmailLabel> {
+  const response = await gmailFetch(accessToken, "labels.patch", `users/me/labels/${labelId}`, {
+    method: "PATCH",
+    body: { name },
   });
 
-  if (format === "metadata") {
-    params.append("metadataHeaders", "From");
-    params.append("metadataHeaders", "Subject");
-    params.append("metadataHeaders", "Date");
-    params.append("metadataHeaders", "To");
+  return response.json();
+}
+
+// Deleting a label also removes it from every message that had it
+export async function deleteLabel(accessToken: string, labelId: string): Promise<void> {
+  try {
+    await gmailFetch(accessToken, "labels.delete", `users/me/labels/${labelId}`, {
+      method: "DELETE",
+    });
+  } catch (error) {
+    // Already gone is as good as deleted
+    if (!isGmailApiError(error, "not_found")) throw error;
   }
+}
+
+// IDs of every message carrying a label, across all result pages
+export async function listLabelMessageIds(
+  accessToken: string,
+  labelId: string
+): Promise<string[]> {
+  const ids: string[] = [];
+  let pageToken: string | undefined;
+
+  do {
+    const params = new URLSearchParams({
+      labelIds: labelId,
+      maxResults: "500",
+    });
+
+    if (pageToken) {
+      params.set("pageToken", pageToken);
+    }
+
+    const response = await gmailFetch(accessToken, "messages.list", `users/me/messages?${params}`);
+
+    const data = (await response.json()) as Partial<GmailMessageList>;
+    ids.push(...(data.messages || []).map((m) => m.id));
+    pageToken = data.nextPageToken;
+  } while (pageToken);
 
-  const response = await fetch(
-    `${GMAIL_API_BASE}/users/me/messages/${messageId}?${params}`,
+  return ids;
+}
+
+export interface GmailFilter {
+  id: string;
+  criteria: {
+    from?: string;
+    to?: string;
+    subject?: string;
+    query?: string;
+    hasAttachment?: boolean;
+  };
+  action: {
+    addLabelIds?: string[];
+    removeLabelIds?: string[];
+  };
+}
+
+// What a dashboard-created filter can do to matching mail. "label" adds a
+// user label, resolved by name when the filter is created.
+export const FILTER_ACTIONS = {
+  label: { description: "Apply label", addLabelIds: [], removeLabelIds: [] },
+  archive: { description: "Skip the inbox", addLabelIds: [], removeLabelIds: ["INBOX"] },
+  markRead: { description: "Mark as read", addLabelIds: [], removeLabelIds: ["UNREAD"] },
+  important: { description: "Mark as important", addLabelIds: ["IMPORTANT"], removeLabelIds: [] },
+  star: { description: "Star it", addLabelIds: ["STARRED"], removeLabelIds: [] },
+} as const;
+
+export type FilterAction = keyof typeof FILTER_ACTIONS;
+
+export function isFilterAction(value: unknown): value is FilterAction {
+  return typeof value === "string" && value in FILTER_ACTIONS;
+}
+
+export async function listFilters(accessToken: string): Promise<GmailFilter[]> {
+  const response = await gmailFetch(
+    accessToken,
+    "settings.filters.list",
+    "users/me/settings/filters"
+  );
+
+  const data = (await response.json()) as { filter?: GmailFilter[] };
+  return data.filter || [];
+}
+
+export async function createFilter(
+  accessToken: string,
+  filter: Omit<GmailFilter, "id">
+): Promise<GmailFilter> {
+  const response = await gmailFetch(
+    accessToken,
+    "settings.filters.create",
+    "users/me/settings/filters",
     {
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-      },
+      method: "POST",
+      body: filter,
     }
   );
 
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Gmail API error: ${response.status} - ${error}`);
+  return response.json();
+}
+
+export async function deleteFilter(accessToken: string, filterId: string): Promise<void> {
+  try {
+    await gmailFetch(
+      accessToken,
+      "settings.filters.delete",
+      `users/me/settings/filters/${filterId}`,
+      { method: "DELETE" }
+    );
+  } catch (error) {
+    // Already deleted in Gmail is fine
+    if (!isGmailApiError(error, "not_found")) throw error;
   }
+}
+
+// Gmail's auto-reply. Start and end are epoch milliseconds as strings;
+// without them the reply runs for as long as it's enabled.
+export interface VacationSettings {
+  enableAutoReply: boolean;
+  responseSubject?: string;
+  responseBodyPlainText?: string;
+  responseBodyHtml?: string;
+  restrictToContacts?: boolean;
+  restrictToDomain?: boolean;
+  startTime?: string;
+  endTime?: string;
+}
+
+export async function getVacationSettings(accessToken: string): Promise<VacationSettings> {
+  const response = await gmailFetch(
+    accessToken,
+    "settings.vacation.get",
+    "users/me/settings/vacation"
+  );
+
+  return response.json();
+}
+
+export async function updateVacationSettings(
+  accessToken: string,
+  settings: VacationSettings
+): Promise<VacationSettings> {
+  const response = await gmailFetch(
+    accessToken,
+    "settings.vacation.update",
+    "users/me/settings/vacation",
+    {
+      method: "PUT",
+      body: settings,
+    }
+  );
 
   return response.json();
 }
 
-// Fetch items in batches to avoid rate limiting
-async function fetchInBatches<T, R>(
-  items: T[],
-  fn: (item: T) => Promise<R>,
-  batchSize: number = 10
-): Promise<R[]> {
-  const results: R[] = [];
+// An address the account sends as: its own, plus any aliases set up in Gmail
+export interface SendAsAlias {
+  sendAsEmail: string;
+  displayName?: string;
+  signature?: string;
+  isPrimary?: boolean;
+  isDefault?: boolean;
+  verificationStatus?: "accepted" | "pending";
+}
+
+export async function listSendAs(accessToken: string): Promise<SendAsAlias[]> {
+  const response = await gmailFetch(
+    accessToken,
+    "settings.sendAs.list",
+    "users/me/settings/sendAs"
+  );
 
-  for (let i = 0; i < items.length; i += batchSize) {
-    const batch = items.slice(i, i + batchSize);
-    const batchResults = await Promise.all(batch.map(fn));
-    results.push(...batchResults);
+  const data = (await response.json()) as { sendAs?: SendAsAlias[] };
+  return data.sendAs || [];
+}
 
-    // Small delay between batches to avoid rate limits
-    if (i + batchSize < items.length) {
-      await new Promise(resolve => setTimeout(resolve, 100));
+export async function updateSignature(
+  accessToken: string,
+  sendAsEmail: string,
+  signature: string
+): Promise<SendAsAlias> {
+  const response = await gmailFetch(
+    accessToken,
+    "settings.sendAs.patch",
+    `users/me/settings/sendAs/${encodeURIComponent(sendAsEmail)}`,
+    {
+      method: "PATCH",
+      body: { signature },
     }
+  );
+
+  return response.json();
+}
+
+export async function trashMessage(
+  accessToken: string,
+  messageId: string
+): Promise<GmailMessage> {
+  const response = await gmailFetch(
+    accessToken,
+    "messages.trash",
+    `users/me/messages/${messageId}/trash`,
+    { method: "POST" }
+  );
+
+  return response.json();
+}
+
+export async function untrashMessage(
+  accessToken: string,
+  messageId: string
+): Promise<GmailMessage> {
+  const response = await gmailFetch(
+    accessToken,
+    "messages.untrash",
+    `users/me/messages/${messageId}/untrash`,
+    { method: "POST" }
+  );
+
+  return response.json();
+}
+
+export interface OutgoingAttachment {
+  filename: string;
+  mimeType: string;
+  data: string; // standard base64
+}
+
+export interface OutgoingMessage {
+  to: string[];
+  cc?: string[];
+  bcc?: string[];
+  subject: string;
+  text?: string;
+  html?: string;
+  attachments?: OutgoingAttachment[];
+  // Replies: Gmail only threads a message when threadId is set and the
+  // In-Reply-To/References headers match the original
+  threadId?: string;
+  inReplyTo?: string;
+  references?: string;
+}
+
+// An RFC 2047 encoded word at the start of a string
+const ENCODED_WORD = /^=\?[^?\s]+\?[bq]\?[^?\s]*\?=/i;
+
+// Split a comma-separated address header, ignoring commas inside quoted
+// display names ("Doe, Jane" <jane@example.com>) and encoded words
+export function parseAddressList(value: string): string[] {
+  const addresses: string[] = [];
+  let current = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+
+    // Some senders leave raw commas in Q-encoded names
+    const encodedWord = inQuotes ? null : value.slice(i).match(ENCODED_WORD);
+    if (encodedWord) {
+      current += encodedWord[0];
+      i += encodedWord[0].length - 1;
+      continue;
+    }
+
+    if (char === '"') inQuotes = !inQuotes;
+    if ((char === "," || char === ";") && !inQuotes) {
+      if (current.trim()) addresses.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) addresses.push(current.trim());
+
+  return addresses;
+}
+
+export function isValidAddress(address: string): boolean {
+  const match = address.match(/<([^>]+)>\s*$/);
+  const email = match ? match[1] : address;
+  return /^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/.test(email.trim());
+}
+
+// Build an RFC 2822 message with MIME parts: text and HTML as
+// multipart/alternative, wrapped in multipart/mixed when there are attachments
+export function buildMimeMessage(message: OutgoingMessage): string {
+  const headers: string[] = [
+    `To: ${message.to.map(encodeAddress).join(", ")}`,
+  ];
+  if (message.cc?.length) {
+    headers.push(`Cc: ${message.cc.map(encodeAddress).join(", ")}`);
+  }
+  // Gmail delivers to Bcc recipients and strips the header from sent copies
+  if (message.bcc?.length) {
+    headers.push(`Bcc: ${message.bcc.map(encodeAddress).join(", ")}`);
+  }
+  headers.push(`Subject: ${encodeHeaderWord(message.subject)}`);
+  if (message.inReplyTo) {
+    headers.push(`In-Reply-To: ${stripLineBreaks(message.inReplyTo)}`);
+  }
+  if (message.references) {
+    headers.push(`References: ${stripLineBreaks(message.references)}`);
+  }
+  headers.push("MIME-Version: 1.0");
+
+  const body = buildBodyPart(message);
+  const attachments = message.attachments || [];
+
+  if (attachments.length === 0) {
+    return [...headers, ...body.headers, "", body.content].join("\r\n");
+  }
+
+  const boundary = createBoundary();
+  const parts = [
+    [...body.headers, "", body.content].join("\r\n"),
+    ...attachments.map((attachment) =>
+      [
+        `Content-Type: ${stripLineBreaks(attachment.mimeType)}; name="${encodeHeaderWord(attachment.filename)}"`,
+        `Content-Disposition: attachment; filename="${encodeHeaderWord(attachment.filename)}"`,
+        "Content-Transfer-Encoding: base64",
+        "",
+        wrapBase64(attachment.data),
+      ].join("\r\n")
+    ),
+  ];
+
+  return [
+    ...headers,
+    `Content-Type: multipart/mixed; boundary="${boundary}"`,
+    "",
+    joinMultipart(parts, boundary),
+  ].join("\r\n");
+}
+
+// Every outgoing message is held this long before it goes to Gmail, so
+// it can still be taken back
+export const UNDO_SEND_SECONDS = { min: 5, max: 30, default: 10 } as const;
+
+// Body accepted by the draft routes
+export interface ComposeRequest {
+  to?: string;
+  cc?: string;
+  bcc?: string;
+  subject?: string;
+  text?: string;
+  html?: string;
+  attachments?: OutgoingAttachment[];
+  threadId?: string;
+  inReplyTo?: string;
+  references?: string;
+  // Attachments of an existing message, fetched from Gmail when forwarding
+  forwardedAttachments?: { messageId: string; attachmentId: string; partId?: string }[];
+}
+
+export async function composeRequestToMessage(
+  accessToken: string,
+  request: ComposeRequest
+): Promise<OutgoingMessage> {
+  const forwarded = await Promise.all(
+    (request.forwardedAttachments || []).map(async (ref) => {
+      const result = await getAttachment(
+        accessToken,
+        ref.messageId,
+        ref.attachmentId,
+        ref.partId
+      );
+      if (!result) {
+        throw new Error(`Forwarded attachment ${ref.attachmentId} not found`);
+      }
+      return {
+        filename: result.attachment.filename,
+        mimeType: result.attachment.mimeType,
+        data: result.data.replace(/-/g, "+").replace(/_/g, "/"),
+      };
+    })
+  );
+
+  return {
+    to: parseAddressList(request.to || ""),
+    cc: parseAddressList(request.cc || ""),
+    bcc: parseAddressList(request.bcc || ""),
+    subject: request.subject || "",
+    text: request.text,
+    html: request.html,
+    attachments: [...(request.attachments || []), ...forwarded],
+    threadId: request.threadId,
+    inReplyTo: request.inReplyTo,
+    references: request.references,
+  };
+}
+
+// Gmail rejects messages over 25 MB; base64 adds about a third on top
+const MAX_ATTACHMENT_BASE64_LENGTH = 25 * 1024 * 1024 * (4 / 3);
+
+// Checks run before anything is sent - returns an error message or null
+export function validateOutgoingMessage(message: OutgoingMessage): string | null {
+  const recipients = [...message.to, ...(message.cc || []), ...(message.bcc || [])];
+
+  if (recipients.length === 0) {
+    return "At least one recipient is required";
   }
 
-  return results;
+  const invalid = recipients.filter((address) => !isValidAddress(address));
+  if (invalid.length > 0) {
+    return `Invalid address: ${invalid.join(", ")}`;
+  }
+
+  const totalAttachmentSize = (message.attachments || []).reduce(
+    (sum, a) => sum + a.data.length,
+    0
+  );
+  if (totalAttachmentSize > MAX_ATTACHMENT_BASE64_LENGTH) {
+    return "Attachments exceed the 25 MB limit";
+  }
+
+  return null;
+}
+
+export async function sendMessage(
+  accessToken: string,
+  message: OutgoingMessage
+): Promise<GmailMessage> {
+  const response = await gmailFetch(accessToken, "messages.send", "users/me/messages/send", {
+    method: "POST",
+    body: toRawMessage(message),
+  });
+
+  return response.json();
+}
+
+export interface GmailDraft {
+  id: string;
+  message: GmailMessage;
+}
+
+export async function createDraft(
+  accessToken: string,
+  message: OutgoingMessage
+): Promise<GmailDraft> {
+  const response = await gmailFetch(accessToken, "drafts.create", "users/me/drafts", {
+    method: "POST",
+    body: { message: toRawMessage(message) },
+  });
+
+  return response.json();
+}
+
+// Drafts are immutable in Gmail - an update replaces the whole message
+export async function updateDraft(
+  accessToken: string,
+  draftId: string,
+  message: OutgoingMessage
+): Promise<GmailDraft> {
+  const response = await gmailFetch(accessToken, "drafts.update", `users/me/drafts/${draftId}`, {
+    method: "PUT",
+    body: { id: draftId, message: toRawMessage(message) },
+  });
+
+  return response.json();
+}
+
+export async function getDraft(
+  accessToken: string,
+  draftId: string
+): Promise<{ id: string; message: FullMessage }> {
+  const params = new URLSearchParams({
+    format: "full",
+  });
+
+  const response = await gmailFetch(
+    accessToken,
+    "drafts.get",
+    `users/me/drafts/${draftId}?${params}`
+  );
+
+  const draft: GmailDraft = await response.json();
+  return { id: draft.id, message: formatFullMessage(draft.message) };
+}
+
+export async function listDrafts(
+  accessToken: string,
+  query?: string,
+  maxResults: number = 50,
+  pageToken?: string
+): Promise<{
+  messages: FormattedEmail[];
+  nextPageToken?: string;
+  resultSizeEstimate: number;
+}> {
+  const params = new URLSearchParams({
+    maxResults: maxResults.toString(),
+  });
+
+  if (query) {
+    params.set("q", query);
+  }
+
+  if (pageToken) {
+    params.set("pageToken", pageToken);
+  }
+
+  const response = await gmailFetch(accessToken, "drafts.list", `users/me/drafts?${params}`);
+
+  const list = (await response.json()) as {
+    drafts?: Array<{ id: string; message: { id: string; threadId: string } }>;
+    nextPageToken?: string;
+    resultSizeEstimate: number;
+  };
+
+  if (!list.drafts || list.drafts.length === 0) {
+    return { messages: [], resultSizeEstimate: 0 };
+  }
+
+  const messages = await getMessages(
+    accessToken,
+    list.drafts.map((draft) => draft.message.id)
+  );
+  const draftIds = new Map(list.drafts.map((draft) => [draft.message.id, draft.id]));
+
+  return {
+    messages: messages.map((msg) => ({
+      ...formatMessage(msg),
+      draftId: draftIds.get(msg.id),
+    })),
+    nextPageToken: list.nextPageToken,
+    resultSizeEstimate: list.resultSizeEstimate,
+  };
+}
+
+export async function sendDraft(
+  accessToken: string,
+  draftId: string
+): Promise<GmailMessage> {
+  const response = await gmailFetch(accessToken, "drafts.send", "users/me/drafts/send", {
+    method: "POST",
+    body: { id: draftId },
+  });
+
+  return response.json();
+}
+
+export async function deleteDraft(
+  accessToken: string,
+  draftId: string
+): Promise<void> {
+  await gmailFetch(accessToken, "drafts.delete", `users/me/drafts/${draftId}`, {
+    method: "DELETE",
+  });
+}
+
+function toRawMessage(message: OutgoingMessage): { raw: string; threadId?: string } {
+  return {
+    raw: toBase64Url(buildMimeMessage(message)),
+    ...(message.threadId && { threadId: message.threadId }),
+  };
+}
+
+function buildBodyPart(message: OutgoingMessage): {
+  headers: string[];
+  content: string;
+} {
+  const textPart = (mimeType: string, content: string) => ({
+    headers: [
+      `Content-Type: ${mimeType}; charset="UTF-8"`,
+      "Content-Transfer-Encoding: base64",
+    ],
+    content: wrapBase64(encodeUtf8Base64(content)),
+  });
+
+  if (message.text !== undefined && message.html !== undefined) {
+    const boundary = createBoundary();
+    const parts = [
+      textPart("text/plain", message.text),
+      textPart("text/html", message.html),
+    ].map((part) => [...part.headers, "", part.content].join("\r\n"));
+
+    return {
+      headers: [`Content-Type: multipart/alternative; boundary="${boundary}"`],
+      content: joinMultipart(parts, boundary),
+    };
+  }
+
+  if (message.html !== undefined) {
+    return textPart("text/html", message.html);
+  }
+
+  return textPart("text/plain", message.text || "");
+}
+
+function joinMultipart(parts: string[], boundary: string): string {
+  return (
+    parts.map((part) => `--${boundary}\r\n${part}`).join("\r\n") +
+    `\r\n--${boundary}--`
+  );
+}
+
+function createBoundary(): string {
+  return `=_Part_${crypto.randomUUID().replace(/-/g, "")}`;
+}
+
+// Header values must never contain CR/LF, or they could inject headers
+function stripLineBreaks(value: string): string {
+  return value.replace(/[\r\n]+/g, " ");
+}
+
+// RFC 2047 encoded-word for non-ASCII header values
+function encodeHeaderWord(value: string): string {
+  value = stripLineBreaks(value);
+  if (/^[\x20-\x7e]*$/.test(value)) return value;
+  return `=?UTF-8?B?${encodeUtf8Base64(value)}?=`;
+}
+
+function encodeAddress(address: string): string {
+  address = stripLineBreaks(address);
+  const match = address.match(/^\s*"?([^"<]*?)"?\s*<([^>]+)>\s*$/);
+  if (!match || !match[1]) return address.trim();
+
+  const name = match[1].trim();
+  const encodedName = /^[\x20-\x7e]*$/.test(name)
+    ? `"${name.replace(/"/g, '\\"')}"`
+    : encodeHeaderWord(name);
+  return `${encodedName} <${match[2].trim()}>`;
+}
+
+function encodeUtf8Base64(value: string): string {
+  const bytes = new TextEncoder().encode(value);
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+// Base64 body lines must not exceed 76 characters
+function wrapBase64(data: string): string {
+  return data.replace(/\s/g, "").replace(/.{1,76}/g, "$&\r\n").trimEnd();
+}
+
+function toBase64Url(value: string): string {
+  // The built message is pure ASCII, so btoa is safe here
+  return btoa(value).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+// Label changes behind each dashboard action. Trash/untrash have dedicated
+// endpoints and are handled separately.
+export const MESSAGE_ACTION_LABELS = {
+  read: { addLabelIds: [], removeLabelIds: ["UNREAD"] },
+  unread: { addLabelIds: ["UNREAD"], removeLabelIds: [] },
+  archive: { addLabelIds: [], removeLabelIds: ["INBOX"] },
+  unarchive: { addLabelIds: ["INBOX"], removeLabelIds: [] },
+} as const satisfies Record<string, { addLabelIds: string[]; removeLabelIds: string[] }>;
+
+export type MessageAction = keyof typeof MESSAGE_ACTION_LABELS | "trash" | "untrash";
+
+export function isMessageAction(value: unknown): value is MessageAction {
+  return (
+    typeof value === "string" &&
+    (value in MESSAGE_ACTION_LABELS || value === "trash" || value === "untrash")
+  );
+}
+
+// Apply a dashboard action to one or more messages
+export async function applyMessageAction(
+  accessToken: string,
+  messageIds: string[],
+  action: MessageAction
+): Promise<void> {
+  if (messageIds.length === 0) return;
+
+  if (action === "trash" || action === "untrash") {
+    // Gmail has no batchTrash, so send the per-message calls in one HTTP batch
+    const responses = await batchRequest(
+      accessToken,
+      messageIds.map((id) => ({
+        operation: action === "trash" ? ("messages.trash" as const) : ("messages.untrash" as const),
+        method: "POST" as const,
+        path: `users/me/messages/${id}/${action}`,
+      }))
+    );
+    const failed = responses.find((response) => response.status >= 300);
+    if (failed) {
+      throw batchError(failed);
+    }
+    return;
+  }
+
+  const { addLabelIds, removeLabelIds } = MESSAGE_ACTION_LABELS[action];
+  await batchModifyMessages(
+    accessToken,
+    messageIds,
+    [...addLabelIds],
+    [...removeLabelIds]
+  );
+}
+
+function messageParams(format: "metadata" | "full" | "raw"): URLSearchParams {
+  const params = new URLSearchParams({
+    format,
+  });
+
+  if (format === "metadata") {
+    params.append("metadataHeaders", "From");
+    params.append("metadataHeaders", "Subject");
+    params.append("metadataHeaders", "Date");
+    params.append("metadataHeaders", "To");
+    params.append("metadataHeaders", "List-Unsubscribe");
+    params.append("metadataHeaders", "List-Unsubscribe-Post");
+  }
+
+  return params;
+}
+
+// Fetch many messages through the HTTP batch endpoint. Messages deleted
+// since their IDs were listed (Gmail answers 404) are left out.
+async function getMessages(
+  accessToken: string,
+  messageIds: string[],
+  format: "metadata" | "full" | "raw" = "metadata"
+): Promise<GmailMessage[]> {
+  const params = messageParams(format);
+  const responses = await batchRequest(
+    accessToken,
+    messageIds.map((id) => ({
+      operation: "messages.get" as const,
+      method: "GET" as const,
+      path: `users/me/messages/${id}?${params}`,
+    }))
+  );
+
+  return responses
+    .filter((response) => response.status !== 404)
+    .map((response) => {
+      if (response.status >= 300) {
+        throw batchError(response);
+      }
+      return response.body as GmailMessage;
+    });
 }
 
 export async function getMessagesWithDetails(
@@ -150,11 +973,9 @@ export async function getMessagesWithDetails(
     return { messages: [], resultSizeEstimate: 0 };
   }
 
-  // Fetch messages in batches to avoid rate limiting
-  const messages = await fetchInBatches(
-    list.messages,
-    (msg) => getMessage(accessToken, msg.id, "metadata"),
-    10 // 10 messages per batch
+  const messages = await getMessages(
+    accessToken,
+    list.messages.map((msg) => msg.id)
   );
 
   return {
@@ -164,25 +985,151 @@ export async function getMessagesWithDetails(
   };
 }
 
+// Metadata for a set of message IDs. Messages deleted since their IDs were
+// seen are left out rather than failing the whole call.
+export async function getMessagesMetadata(
+  accessToken: string,
+  messageIds: string[]
+): Promise<FormattedEmail[]> {
+  const messages = await getMessages(accessToken, messageIds);
+  return messages.map((msg) => formatMessage(msg));
+}
+
+// Plain text of many messages, for the search index
+export async function getMessagesText(
+  accessToken: string,
+  messageIds: string[]
+): Promise<Array<{ id: string; text: string }>> {
+  const messages = await getMessages(accessToken, messageIds, "full");
+  return messages.map((msg) => ({ id: msg.id, text: extractText(msg) }));
+}
+
+export interface GmailProfile {
+  emailAddress: string;
+  messagesTotal: number;
+  threadsTotal: number;
+  historyId: string;
+}
+
+export async function getProfile(accessToken: string): Promise<GmailProfile> {
+  const response = await gmailFetch(accessToken, "getProfile", "users/me/profile");
+
+  return response.json();
+}
+
+type HistoryMessage = { message: { id: string; threadId: string; labelIds?: string[] } };
+
+export interface GmailHistoryRecord {
+  id: string;
+  messagesAdded?: HistoryMessage[];
+  messagesDeleted?: HistoryMessage[];
+  labelsAdded?: Array<HistoryMessage & { labelIds: string[] }>;
+  labelsRemoved?: Array<HistoryMessage & { labelIds: string[] }>;
+}
+
+export interface GmailHistoryList {
+  history?: GmailHistoryRecord[];
+  nextPageToken?: string;
+  historyId: string;
+}
+
+// List mailbox changes since startHistoryId. Returns null when Gmail no
+// longer has history that far back, in which case a full sync is needed.
+export async function listHistory(
+  accessToken: string,
+  startHistoryId: string,
+  pageToken?: string
+): Promise<GmailHistoryList | null> {
+  const params = new URLSearchParams({
+    startHistoryId,
+    maxResults: "500",
+  });
+
+  if (pageToken) {
+    params.set("pageToken", pageToken);
+  }
+
+  try {
+    const response = await gmailFetch(accessToken, "history.list", `users/me/history?${params}`);
+    return await response.json();
+  } catch (error) {
+    if (isGmailApiError(error, "not_found")) return null;
+    throw error;
+  }
+}
+
+// Ask Gmail to publish mailbox changes to a Pub/Sub topic. Watches expire
+// after 7 days and have to be renewed by calling this again.
+export async function watchMailbox(
+  accessToken: string,
+  topicName: string
+): Promise<{ historyId: string; expiration: string }> {
+  const response = await gmailFetch(accessToken, "watch", "users/me/watch", {
+    method: "POST",
+    body: { topicName },
+  });
+
+  return response.json();
+}
+
+// The message exactly as Gmail stores it, as RFC 822 bytes
+export async function getRawMessage(accessToken: string, messageId: string): Promise<Uint8Array> {
+  const msg = await getMessage(accessToken, messageId, "raw");
+  return decodeBase64UrlBytes(msg.raw || "");
+}
+
+// Many messages as RFC 822 bytes, with the time Gmail received each.
+// Messages deleted since their IDs were seen are left out.
+export async function getRawMessages(
+  accessToken: string,
+  messageIds: string[]
+): Promise<Array<{ id: string; internalDate?: string; raw: Uint8Array }>> {
+  const messages = await getMessages(accessToken, messageIds, "raw");
+  return messages.map((msg) => ({
+    id: msg.id,
+    internalDate: msg.internalDate,
+    raw: decodeBase64UrlBytes(msg.raw || ""),
+  }));
+}
+
 export async function getFullMessage(
   accessToken: string,
   messageId: string
-): Promise<{
-  id: string;
-  threadId: string;
-  from: string;
-  to: string;
-  subject: string;
-  date: string;
-  body: string;
-  isHtml: boolean;
-}> {
+): Promise<FullMessage> {
   const msg = await getMessage(accessToken, messageId, "full");
+  return formatFullMessage(msg);
+}
+
+// Fetch a whole conversation. Messages come back oldest first, as Gmail
+// returns them, each with its own headers and body.
+export async function getThread(
+  accessToken: string,
+  threadId: string
+): Promise<{ id: string; messages: FullMessage[] }> {
+  const params = new URLSearchParams({
+    format: "full",
+  });
+
+  const response = await gmailFetch(
+    accessToken,
+    "threads.get",
+    `users/me/threads/${threadId}?${params}`
+  );
+
+  const thread: GmailThread = await response.json();
 
+  return {
+    id: thread.id,
+    messages: (thread.messages || []).map((msg) => formatFullMessage(msg)),
+  };
+}
+
+function formatFullMessage(msg: GmailMessage): FullMessage {
   const headers = msg.payload?.headers || [];
-  const getHeader = (name: string) =>
-    headers.find((h) => h.name.toLowerCase() === name.toLowerCase())?.value ||
-    "";
+  const getRawHeader = (name: string) =>
+    headers.find((h) => h.name.toLowerCase() === name.toLowerCase())?.value || "";
+  const getHeader = (name: string) => decodeMimeHeader(getRawHeader(name));
+  const getAddresses = (name: string) => decodeAddressList(getRawHeader(name));
 
   // Extract body
   const { body, isHtml } = extractBody(msg);
@@ -190,30 +1137,106 @@ export async function getFullMessage(
   return {
     id: msg.id,
     threadId: msg.threadId,
-    from: getHeader("From"),
-    to: getHeader("To"),
+    from: getAddresses("From"),
+    to: getAddresses("To"),
+    cc: getAddresses("Cc"),
+    bcc: getAddresses("Bcc"),
+    replyTo: getAddresses("Reply-To"),
     subject: getHeader("Subject"),
     date: getHeader("Date"),
+    messageId: getHeader("Message-ID"),
+    inReplyTo: getHeader("In-Reply-To"),
+    references: getHeader("References"),
+    snippet: msg.snippet,
+    labelIds: msg.labelIds || [],
     body,
     isHtml,
+    attachments: findAttachments(msg.payload?.parts),
+    unsubscribe: parseListUnsubscribe(
+      getHeader("List-Unsubscribe"),
+      getHeader("List-Unsubscribe-Post")
+    ),
+    authentication: parseAuthentication(headers, getHeader("From")),
   };
 }
 
+// Fetch the raw bytes of an attachment. Looks the part up on a fresh copy of
+// the message so the metadata and attachment ID are current, which costs a
+// full message fetch; getAttachmentData skips it when the ID is known.
+export async function getAttachment(
+  accessToken: string,
+  messageId: string,
+  attachmentId: string,
+  partId?: string
+): Promise<{ attachment: EmailAttachment; data: string } | null> {
+  const msg = await getMessage(accessToken, messageId, "full");
+  const part = findAttachmentPart(msg.payload?.parts, attachmentId, partId);
+
+  if (!part) {
+    return null;
+  }
+
+  const attachment = toAttachment(part);
+
+  // Small attachments are returned inline with the message
+  if (part.body?.data) {
+    return { attachment, data: part.body.data };
+  }
+
+  const data = await getAttachmentData(accessToken, messageId, part.body?.attachmentId || "");
+  return { attachment, data };
+}
+
+// Fetch an attachment's base64url data by a Gmail attachment ID, without
+// looking the part up first
+export async function getAttachmentData(
+  accessToken: string,
+  messageId: string,
+  attachmentId: string
+): Promise<string> {
+  const response = await gmailFetch(
+    accessToken,
+    "messages.attachments.get",
+    `users/me/messages/${messageId}/attachments/${attachmentId}`
+  );
+
+  const { data } = (await response.json()) as { data: string; size: number };
+  return data;
+}
+
+// Decode an address header one address at a time, splitting on the raw
+// value. A decoded display name may hold a comma ("Doe, Jane"), so it is
+// quoted to keep the list splitting the same way.
+function decodeAddressList(value: string): string {
+  return parseAddressList(value)
+    .map((address) => {
+      const decoded = decodeMimeHeader(address);
+      if (decoded === address) return address;
+
+      const match = decoded.match(/^(.*?)\s*(<[^>]*>)$/);
+      if (!match || !/[,;"]/.test(match[1])) return decoded;
+      return `"${match[1].replace(/"/g, "")}" ${match[2]}`;
+    })
+    .join(", ");
+}
+
 function formatMessage(msg: GmailMessage): FormattedEmail {
   const headers = msg.payload?.headers || [];
   const getHeader = (name: string) =>
-    headers.find((h) => h.name.toLowerCase() === name.toLowerCase())?.value ||
-    "";
+    decodeMimeHeader(
+      headers.find((h) => h.name.toLowerCase() === name.toLowerCase())?.value || ""
+    );
 
   const labelIds = msg.labelIds || [];
   const isUnread = labelIds.includes("UNREAD");
 
   // Check for attachments - look for parts with filename or attachment disposition
-  const hasAttachment = checkForAttachments(msg.payload?.parts);
+  const hasAttachment = findAttachments(msg.payload?.parts).length > 0;
 
   return {
     id: msg.id,
     threadId: msg.threadId,
+    internalDate: msg.internalDate,
     from: getHeader("From"),
     subject: getHeader("Subject"),
     date: getHeader("Date"),
@@ -221,29 +1244,104 @@ function formatMessage(msg: GmailMessage): FormattedEmail {
     isUnread,
     hasAttachment,
     labelIds,
+    unsubscribe: parseListUnsubscribe(
+      getHeader("List-Unsubscribe"),
+      getHeader("List-Unsubscribe-Post")
+    ),
   };
 }
 
-function checkForAttachments(parts?: GmailMessagePart[]): boolean {
-  if (!parts) return false;
+// List-Unsubscribe holds one or more <URI>s, e.g.
+// "<mailto:leave@example.com?subject=unsubscribe>, <https://example.com/u/123>".
+// One-click needs both the POST header and an HTTPS URI (RFC 8058).
+export function parseListUnsubscribe(
+  header: string,
+  postHeader: string = ""
+): UnsubscribeOptions | undefined {
+  const uris = Array.from(header.matchAll(/<([^>]+)>/g), (m) => m[1].trim());
+  const url = uris.find((uri) => /^https?:\/\//i.test(uri));
+  const mailto = uris.find((uri) => /^mailto:/i.test(uri));
+
+  if (!url && !mailto) {
+    return undefined;
+  }
+
+  return {
+    url,
+    mailto,
+    oneClick:
+      !!url?.toLowerCase().startsWith("https:") &&
+      /List-Unsubscribe\s*=\s*One-Click/i.test(postHeader),
+  };
+}
+
+function isAttachmentPart(part: GmailMessagePart): boolean {
+  if (part.mimeType?.startsWith("multipart/")) return false;
+
+  // Anything with a filename or stored separately, plus non-text leaf parts
+  return (
+    !!part.filename ||
+    !!part.body?.attachmentId ||
+    (!!part.mimeType && !part.mimeType.startsWith("text/"))
+  );
+}
+
+function toAttachment(part: GmailMessagePart): EmailAttachment {
+  const contentId = part.headers
+    ?.find((h) => h.name.toLowerCase() === "content-id")
+    ?.value.trim()
+    .replace(/^<|>$/g, "");
+
+  return {
+    attachmentId: part.body?.attachmentId || `part-${part.partId}`,
+    partId: part.partId || "",
+    filename: decodeMimeHeader(part.filename || "") || "attachment",
+    mimeType: part.mimeType || "application/octet-stream",
+    size: part.body?.size || 0,
+    ...(contentId && { contentId }),
+  };
+}
 
+function findAttachments(parts?: GmailMessagePart[]): EmailAttachment[] {
+  if (!parts) return [];
+
+  const attachments: EmailAttachment[] = [];
   for (const part of parts) {
-    // Check if this part has a filename or is an attachment
-    if (
-      part.mimeType &&
-      !part.mimeType.startsWith("text/") &&
-      !part.mimeType.startsWith("multipart/")
-    ) {
-      return true;
+    if (isAttachmentPart(part)) {
+      attachments.push(toAttachment(part));
     }
 
     // Recursively check nested parts
-    if (part.parts && checkForAttachments(part.parts)) {
-      return true;
+    if (part.parts) {
+      attachments.push(...findAttachments(part.parts));
+    }
+  }
+
+  return attachments;
+}
+
+function findAttachmentPart(
+  parts: GmailMessagePart[] | undefined,
+  attachmentId: string,
+  partId?: string
+): GmailMessagePart | null {
+  if (!parts) return null;
+
+  for (const part of parts) {
+    if (
+      isAttachmentPart(part) &&
+      ((partId && part.partId === partId) ||
+        part.body?.attachmentId === attachmentId ||
+        attachmentId === `part-${part.partId}`)
+    ) {
+      return part;
     }
+
+    const found = findAttachmentPart(part.parts, attachmentId, partId);
+    if (found) return found;
   }
 
-  return false;
+  return null;
 }
 
 function extractBody(msg: GmailMessage): { body: string; isHtml: boolean } {
@@ -257,7 +1355,7 @@ function extractBody(msg: GmailMessage): { body: string; isHtml: boolean } {
   if (payload.body?.data) {
     const isHtml = payload.mimeType === "text/html";
     return {
-      body: decodeBase64Url(payload.body.data),
+      body: decodePartBody(payload),
       isHtml,
     };
   }
@@ -268,7 +1366,7 @@ function extractBody(msg: GmailMessage): { body: string; isHtml: boolean } {
     const htmlPart = findPart(payload.parts, "text/html");
     if (htmlPart?.body?.data) {
       return {
-        body: decodeBase64Url(htmlPart.body.data),
+        body: decodePartBody(htmlPart),
         isHtml: true,
       };
     }
@@ -276,7 +1374,7 @@ function extractBody(msg: GmailMessage): { body: string; isHtml: boolean } {
     const textPart = findPart(payload.parts, "text/plain");
     if (textPart?.body?.data) {
       return {
-        body: decodeBase64Url(textPart.body.data),
+        body: decodePartBody(textPart),
         isHtml: false,
       };
     }
@@ -285,6 +1383,17 @@ function extractBody(msg: GmailMessage): { body: string; isHtml: boolean } {
   return { body: msg.snippet || "", isHtml: false };
 }
 
+// Prefer the text/plain alternative; HTML-only mail is reduced to its text
+function extractText(msg: GmailMessage): string {
+  const textPart = msg.payload?.parts && findPart(msg.payload.parts, "text/plain");
+  if (textPart?.body?.data) {
+    return decodePartBody(textPart);
+  }
+
+  const { body, isHtml } = extractBody(msg);
+  return isHtml ? htmlToText(body) : body;
+}
+
 function findPart(
   parts: GmailMessagePart[],
   mimeType: string
@@ -303,21 +1412,3 @@ function findPart(
 
   return null;
 }
-
-function decodeBase64Url(data: string): string {
-  // Replace URL-safe characters
-  const base64 = data.replace(/-/g, "+").replace(/_/g, "/");
-
-  // Decode
-  try {
-    return decodeURIComponent(
-      atob(base64)
-        .split("")
-        .map((c) => "%" + ("00" + c.charCodeAt(0).toString(16)).slice(-2))
-        .join("")
-    );
-  } catch {
-    // Fallback for non-UTF8 content
-    return atob(base64);
-  }
-}
@@ -0,0 +1,488 @@
+import type { MailboxMessage, Prisma } from "@prisma/client";
+import { accountKey, type AccountRef } from "@/lib/accounts";
+import { prisma } from "@/lib/db";
+import { publishMailboxEvent } from "@/lib/events";
+import { applyLabelChangesToTags } from "@/lib/tags";
+import { pruneSearchIndex, queueSearchIndexing, removeFromSearchIndex } from "@/lib/search";
+import {
+  getMessagesMetadata,
+  getProfile,
+  listHistory,
+  listMessages,
+  type FormattedEmail,
+} from "@/lib/gmail";
+
+// The first sync copies this many of the newest messages. Older mail is
+// mirrored a page at a time as the user scrolls back to it.
+const SEED_SIZE = 200;
+const BACKFILL_PAGE_SIZE = 100;
+const MAX_BACKFILL_PAGES_PER_REQUEST = 3;
+
+const PAGE_TOKEN_PREFIX = "mirror:";
+
+// Label on messages imported from mbox files. They live only in the mirror,
+// under IDs Gmail never hands out.
+export const IMPORTED_LABEL = "IMPORTED";
+const IMPORTED_ID_PREFIX = "mbox-";
+
+// Accounts whose mirror is being seeded right now, so overlapping requests
+// during a cold start don't each run a full sync
+const seeding = new Set<string>();
+const syncing = new Map<string, Promise<boolean>>();
+
+export interface MessagePage {
+  messages: FormattedEmail[];
+  nextPageToken?: string;
+  // Token that continues right after each message, by message id
+  resumeTokens?: Record<string, string>;
+  resultSizeEstimate: number;
+}
+
+// The part of Gmail's search syntax the mirror can answer exactly. Free
+// text needs message bodies, and has:attachment needs MIME parts, which
+// metadata doesn't include - those queries still go to Gmail.
+interface MirrorQuery {
+  labels: string[];
+  excludeLabels: string[];
+  after?: Date;
+  before?: Date;
+}
+
+const LABEL_OPERATORS: Record<string, { label: string; exclude?: boolean }> = {
+  "is:unread": { label: "UNREAD" },
+  "is:read": { label: "UNREAD", exclude: true },
+  "is:starred": { label: "STARRED" },
+  "is:important": { label: "IMPORTANT" },
+  "in:inbox": { label: "INBOX" },
+  "in:sent": { label: "SENT" },
+  "in:spam": { label: "SPAM" },
+  "in:trash": { label: "TRASH" },
+  "in:imported": { label: IMPORTED_LABEL },
+};
+
+export function parseMirrorQuery(query?: string): MirrorQuery | null {
+  const result: MirrorQuery = { labels: [], excludeLabels: [] };
+  const terms = (query || "").trim().split(/\s+/).filter(Boolean);
+
+  for (const term of terms) {
+    const operator = LABEL_OPERATORS[term.toLowerCase()];
+    if (operator) {
+      (operator.exclude ? result.excludeLabels : result.labels).push(operator.label);
+      continue;
+    }
+
+    const date = term.toLowerCase().match(/^(after|before):(\d{4})[/-](\d{1,2})[/-](\d{1,2})$/);
+    if (date) {
+      result[date[1] as "after" | "before"] = new Date(
+        Number(date[2]),
+        Number(date[3]) - 1,
+        Number(date[4])
+      );
+      continue;
+    }
+
+    return null;
+  }
+
+  return result;
+}
+
+export async function hasMailboxMirror({ userId, accountId }: AccountRef): Promise<boolean> {
+  const state = await prisma.mailboxSync.findUnique({
+    where: { userId_accountId: { userId, accountId } },
+  });
+  return !!state;
+}
+
+// Serve a page of the message list from the mirror. Returns null when the
+// mirror can't answer - not seeded yet, history expired, a query it doesn't
+// understand, or a Gmail page token - and the caller should ask Gmail.
+export async function listMirroredMessages(
+  accessToken: string,
+  account: AccountRef,
+  query: string | undefined,
+  maxResults: number,
+  pageToken?: string
+): Promise<MessagePage | null> {
+  if (pageToken && !pageToken.startsWith(PAGE_TOKEN_PREFIX)) return null;
+
+  const filter = parseMirrorQuery(query);
+  if (!filter) return null;
+
+  // Bring the mirror up to date whenever the list is loaded from the top
+  if (!pageToken) {
+    const synced = await syncMailbox(accessToken, account);
+    if (!synced) return null;
+  } else if (!(await hasMailboxMirror(account))) {
+    return null;
+  }
+
+  const where = buildWhere(account, filter);
+  const cursor = pageToken ? decodePageToken(pageToken) : null;
+  const findPage = () =>
+    prisma.mailboxMessage.findMany({
+      where: cursor ? { AND: [where, cursorWhere(cursor)] } : where,
+      orderBy: [{ internalDate: "desc" }, { messageId: "desc" }],
+      take: maxResults + 1,
+    });
+
+  let rows = await findPage();
+
+  // The page runs past the oldest mirrored message: copy the next stretch
+  // of the mailbox from Gmail and try again
+  // Imported mail is all in the mirror already, so backfilling can't add to it
+  let complete = filter.labels.includes(IMPORTED_LABEL);
+  for (
+    let i = 0;
+    !complete && rows.length <= maxResults && i < MAX_BACKFILL_PAGES_PER_REQUEST;
+    i++
+  ) {
+    complete = await backfillMailbox(accessToken, account);
+    if (complete) break;
+    rows = await findPage();
+  }
+  if (complete) {
+    rows = await findPage();
+  }
+
+  const hasMore = rows.length > maxResults || !complete;
+  const page = rows.slice(0, maxResults);
+
+  // Nothing mirrored yet for this view - let Gmail answer the first page
+  if (page.length === 0 && !complete && !pageToken) return null;
+
+  const last = page[page.length - 1];
+  const nextPageToken = !hasMore ? undefined : last ? encodePageToken(last) : pageToken;
+
+  return {
+    messages: page.map(toFormattedEmail),
+    nextPageToken,
+    resumeTokens: Object.fromEntries(page.map((row) => [row.messageId, encodePageToken(row)])),
+    resultSizeEstimate: await prisma.mailboxMessage.count({ where }),
+  };
+}
+
+// First sync for an account. The historyId is read before listing so
+// changes made while the messages are copied are picked up by the next sync.
+export async function seedMailbox(accessToken: string, account: AccountRef): Promise<void> {
+  const { userId, accountId } = account;
+  const key = accountKey(account);
+  if (seeding.has(key)) return;
+  seeding.add(key);
+
+  try {
+    const { historyId } = await getProfile(accessToken);
+    const list = await listMessages(accessToken, undefined, SEED_SIZE);
+    const emails = await getMessagesMetadata(
+      accessToken,
+      (list.messages || []).map((m) => m.id)
+    );
+
+    await storeMessages(account, emails);
+
+    const state = {
+      historyId,
+      backfillPageToken: list.nextPageToken ?? null,
+      backfillComplete: !list.nextPageToken,
+      lastSyncedAt: new Date(),
+    };
+    await prisma.mailboxSync.upsert({
+      where: { userId_accountId: { userId, accountId } },
+      create: { userId, accountId, ...state },
+      update: state,
+    });
+
+    queueSearchIndexing(accessToken, account);
+  } finally {
+    seeding.delete(key);
+  }
+}
+
+// Apply Gmail's history since the stored historyId. Returns false if the
+// mirror isn't seeded, or if the history has expired - the mirror is then
+// dropped so the next request reseeds it.
+export function syncMailbox(accessToken: string, account: AccountRef): Promise<boolean> {
+  // Requests, open event streams and push notifications can all ask for a
+  // sync at once; let them share the one already running
+  const key = accountKey(account);
+  const running = syncing.get(key);
+  if (running) return running;
+
+  const sync = applyHistory(accessToken, account).finally(() => syncing.delete(key));
+  syncing.set(key, sync);
+  return sync;
+}
+
+async function applyHistory(accessToken: string, account: AccountRef): Promise<boolean> {
+  const { userId, accountId } = account;
+  const state = await prisma.mailboxSync.findUnique({
+    where: { userId_accountId: { userId, accountId } },
+  });
+  if (!state) return false;
+
+  const added = new Set<string>();
+  const deleted = new Set<string>();
+  // History messages carry their full label list after each change, so only
+  // the latest one per message matters
+  const labelUpdates = new Map<string, string[]>();
+  let historyId = state.historyId;
+  let pageToken: string | undefined;
+
+  do {
+    const page = await listHistory(accessToken, state.historyId, pageToken);
+    if (!page) {
+      await resetMailbox(account);
+      return false;
+    }
+
+    for (const record of page.history || []) {
+      for (const { message } of record.messagesAdded || []) {
+        added.add(message.id);
+        deleted.delete(message.id);
+      }
+      for (const { message } of record.messagesDeleted || []) {
+        deleted.add(message.id);
+        added.delete(message.id);
+        labelUpdates.delete(message.id);
+      }
+      for (const { message } of [...(record.labelsAdded || []), ...(record.labelsRemoved || [])]) {
+        if (message.labelIds && !deleted.has(message.id)) {
+          labelUpdates.set(message.id, message.labelIds);
+        }
+      }
+    }
+
+    historyId = page.historyId;
+    pageToken = page.nextPageToken;
+  } while (pageToken);
+
+  // New messages need their headers; anything already mirrored only needs labels
+  const known = await prisma.mailboxMessage.findMany({
+    where: { userId, accountId, messageId: { in: [...added] } },
+    select: { messageId: true },
+  });
+  const knownIds = new Set(known.map((m) => m.messageId));
+  const fetched = await getMessagesMetadata(
+    accessToken,
+    [...added].filter((id) => !knownIds.has(id))
+  );
+  const fetchedIds = new Set(fetched.map((email) => email.id));
+  const labelChanges = [...labelUpdates].filter(([messageId]) => !fetchedIds.has(messageId));
+
+  await prisma.$transaction([
+    ...fetched.map((email) => upsertMessage(account, email)),
+    prisma.mailboxMessage.deleteMany({
+      where: { userId, accountId, messageId: { in: [...deleted] } },
+    }),
+    // updateMany so changes to messages older than the mirror are skipped
+    ...labelChanges.map(([messageId, labelIds]) =>
+      prisma.mailboxMessage.updateMany({
+        where: { userId, accountId, messageId },
+        data: { labelIds: JSON.stringify(labelIds) },
+      })
+    ),
+    prisma.mailboxSync.update({
+      where: { id: state.id },
+      data: { historyId, lastSyncedAt: new Date() },
+    }),
+  ]);
+
+  // Labels added or removed in Gmail carry over to synced tags
+  await applyLabelChangesToTags(account, [
+    ...fetched.map((email) => ({ id: email.id, labelIds: email.labelIds || [] })),
+    ...labelChanges.map(([id, labelIds]) => ({ id, labelIds })),
+  ]);
+
+  if (deleted.size > 0) {
+    await removeFromSearchIndex(account, [...deleted]);
+  }
+  if (fetched.length > 0) {
+    queueSearchIndexing(accessToken, account);
+  }
+
+  // Tell open tabs what changed
+  if (fetched.length > 0) {
+    publishMailboxEvent(userId, {
+      type: "messages.added",
+      messages: fetched.map((email) => ({ ...email, accountId })),
+    });
+  }
+  if (labelChanges.length > 0) {
+    publishMailboxEvent(userId, {
+      type: "messages.labels",
+      accountId,
+      messages: labelChanges.map(([id, labelIds]) => ({ id, labelIds })),
+    });
+  }
+  if (deleted.size > 0) {
+    publishMailboxEvent(userId, { type: "messages.deleted", accountId, ids: [...deleted] });
+  }
+
+  return true;
+}
+
+// Copy the next page of older mail into the mirror. Returns true once the
+// whole mailbox is mirrored.
+async function backfillMailbox(accessToken: string, account: AccountRef): Promise<boolean> {
+  const { userId, accountId } = account;
+  const state = await prisma.mailboxSync.findUnique({
+    where: { userId_accountId: { userId, accountId } },
+  });
+  if (!state || state.backfillComplete || !state.backfillPageToken) return true;
+
+  const list = await listMessages(
+    accessToken,
+    undefined,
+    BACKFILL_PAGE_SIZE,
+    state.backfillPageToken
+  );
+  const emails = await getMessagesMetadata(
+    accessToken,
+    (list.messages || []).map((m) => m.id)
+  );
+
+  await storeMessages(account, emails);
+  await prisma.mailboxSync.update({
+    where: { id: state.id },
+    data: {
+      backfillPageToken: list.nextPageToken ?? null,
+      backfillComplete: !list.nextPageToken,
+    },
+  });
+  queueSearchIndexing(accessToken, account);
+
+  return !list.nextPageToken;
+}
+
+// Drop the mirror of the Gmail mailbox. Imported mail has no copy in Gmail
+// to reseed from, so it stays.
+async function resetMailbox(account: AccountRef): Promise<void> {
+  const where = { userId: account.userId, accountId: account.accountId };
+  await prisma.$transaction([
+    prisma.mailboxMessage.deleteMany({ where: { ...where, NOT: labelWhere(IMPORTED_LABEL) } }),
+    prisma.mailboxSync.deleteMany({ where }),
+  ]);
+  await pruneSearchIndex(account);
+}
+
+export function isImportedMessageId(messageId: string): boolean {
+  return messageId.startsWith(IMPORTED_ID_PREFIX);
+}
+
+// Mirror ID for an imported message, derived from its content so importing
+// the same file twice doesn't duplicate it
+export function importedMessageId(hash: string): string {
+  return `${IMPORTED_ID_PREFIX}${hash}`;
+}
+
+// Mirrored messages by ID, in the order given. Unknown IDs are skipped.
+export async function getMirroredMessages(
+  { userId, accountId }: AccountRef,
+  messageIds: string[]
+): Promise<FormattedEmail[]> {
+  const rows = await prisma.mailboxMessage.findMany({
+    where: { userId, accountId, messageId: { in: messageIds } },
+  });
+  const byId = new Map(rows.map((row) => [row.messageId, row]));
+
+  return messageIds.flatMap((id) => {
+    const row = byId.get(id);
+    return row ? [toFormattedEmail(row)] : [];
+  });
+}
+
+export async function storeMessages(account: AccountRef, emails: FormattedEmail[]): Promise<void> {
+  if (emails.length === 0) return;
+  await prisma.$transaction(emails.map((email) => upsertMessage(account, email)));
+}
+
+function upsertMessage({ userId, accountId }: AccountRef, email: FormattedEmail) {
+  const data = {
+    threadId: email.threadId,
+    from: email.from,
+    subject: email.subject,
+    date: email.date,
+    internalDate: new Date(Number(email.internalDate || Date.parse(email.date) || 0)),
+    snippet: email.snippet,
+    labelIds: JSON.stringify(email.labelIds || []),
+    hasAttachment: !!email.hasAttachment,
+    unsubscribe: email.unsubscribe ? JSON.stringify(email.unsubscribe) : null,
+  };
+
+  return prisma.mailboxMessage.upsert({
+    where: { userId_accountId_messageId: { userId, accountId, messageId: email.id } },
+    create: { userId, accountId, messageId: email.id, ...data },
+    update: data,
+  });
+}
+
+function toFormattedEmail(row: MailboxMessage): FormattedEmail {
+  const labelIds = JSON.parse(row.labelIds) as string[];
+
+  return {
+    id: row.messageId,
+    threadId: row.threadId,
+    internalDate: String(row.internalDate.getTime()),
+    from: row.from,
+    subject: row.subject,
+    date: row.date,
+    snippet: row.snippet,
+    isUnread: labelIds.includes("UNREAD"),
+    hasAttachment: row.hasAttachment,
+    labelIds,
+    unsubscribe: row.unsubscribe ? JSON.parse(row.unsubscribe) : undefined,
+    accountId: row.accountId,
+  };
+}
+
+// Labels are stored as a JSON string array, so match the quoted ID
+function labelWhere(label: string): Prisma.MailboxMessageWhereInput {
+  return { labelIds: { contains: `"${label}"` } };
+}
+
+function buildWhere(
+  { userId, accountId }: AccountRef,
+  filter: MirrorQuery
+): Prisma.MailboxMessageWhereInput {
+  // Like messages.list, leave spam and trash out unless they're asked for.
+  // Imported mail isn't part of the Gmail mailbox, so it stays out too.
+  const excluded = [
+    ...filter.excludeLabels,
+    ...["SPAM", "TRASH", IMPORTED_LABEL].filter((label) => !filter.labels.includes(label)),
+  ];
+
+  return {
+    userId,
+    accountId,
+    internalDate: { gte: filter.after, lt: filter.before },
+    AND: [
+      ...filter.labels.map(labelWhere),
+      ...excluded.map((label) => ({ NOT: labelWhere(label) })),
+    ],
+  };
+}
+
+// Page tokens point at the last message served rather than an offset, so
+// mail arriving between pages doesn't shift the list
+interface PageCursor {
+  internalDate: Date;
+  messageId: string;
+}
+
+function encodePageToken(row: MailboxMessage): string {
+  return `${PAGE_TOKEN_PREFIX}${row.internalDate.getTime()}:${row.messageId}`;
+}
+
+function decodePageToken(token: string): PageCursor {
+  const [time, messageId] = token.slice(PAGE_TOKEN_PREFIX.length).split(":");
+  return { internalDate: new Date(Number(time)), messageId: messageId || "" };
+}
+
+function cursorWhere(cursor: PageCursor): Prisma.MailboxMessageWhereInput {
+  return {
+    OR: [
+      { internalDate: { lt: cursor.internalDate } },
+      { internalDate: cursor.internalDate, messageId: { lt: cursor.messageId } },
+    ],
+  };
+}
@@ -0,0 +1,599 @@
+import { createHash } from "crypto";
+import { mkdir, open, readdir, rm, stat } from "fs/promises";
+import os from "os";
+import path from "path";
+import type { MailboxExport } from "@prisma/client";
+import type { AccountRef } from "@/lib/accounts";
+import { getStoredAccessToken } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { getRawMessages, listMessages, type FormattedEmail, type FullMessage } from "@/lib/gmail";
+import {
+  IMPORTED_LABEL,
+  getMirroredMessages,
+  importedMessageId,
+  isImportedMessageId,
+  storeMessages,
+} from "@/lib/mailbox";
+import { readRawMessage } from "@/lib/mime";
+import { addToSearchIndex, getIndexedBody, removeFromSearchIndex } from "@/lib/search";
+import { extractEmail } from "@/lib/utils";
+
+// Mailboxes in and out as mbox files, the format Google Takeout and most
+// mail clients use: messages one after another, each starting with a
+// "From " line. Exports run in the background and are written to a temp
+// directory for download; imports go into the local mirror, where they can
+// be searched and classified like any other mail.
+
+const EXPORT_DIR = path.join(os.tmpdir(), "mailbox-exports");
+
+// How often the worker looks for queued exports and expired files
+const EXPORT_SWEEP_INTERVAL_MS = 60 * 1000;
+
+// Finished exports are kept this long for download
+const EXPORT_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Raw messages can be up to 25 MB each, so fetch them a few at a time
+const EXPORT_FETCH_SIZE = 10;
+const LIST_PAGE_SIZE = 500;
+
+// Imported messages are written to the mirror in groups of this many
+const IMPORT_BATCH_SIZE = 100;
+
+// Largest file accepted for import, and largest single message in it.
+// Gmail caps messages at 25 MB, which encoding can grow by a third.
+export const MAX_IMPORT_BYTES = 2 * 1024 * 1024 * 1024;
+const MAX_IMPORT_MESSAGE_BYTES = 40 * 1024 * 1024;
+
+// An mbox file's first line is a "From " separator, well under this long
+const MAX_SEPARATOR_BYTES = 64 * 1024;
+
+const SNIPPET_LENGTH = 200;
+
+export interface ExportSelection {
+  query?: string;
+  category?: string;
+  tag?: string;
+}
+
+// A file that can't be imported, with a message for the user
+export class MboxImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MboxImportError";
+  }
+}
+
+export interface ImportResult {
+  imported: number;
+  // Entries that weren't messages, such as an empty file's lone separator
+  skipped: number;
+}
+
+// Queue an export. The worker starts on it right away if it's idle.
+export async function createExport(
+  { userId, accountId }: AccountRef,
+  selection: ExportSelection
+): Promise<MailboxExport> {
+  const created = await prisma.mailboxExport.create({
+    data: {
+      userId,
+      accountId,
+      query: selection.query || null,
+      category: selection.category || null,
+      tag: selection.tag || null,
+    },
+  });
+
+  processExports();
+  return created;
+}
+
+// A user's exports from all accounts, newest first
+export async function listExports(userId: string): Promise<MailboxExport[]> {
+  return prisma.mailboxExport.findMany({
+    where: { userId },
+    orderBy: { createdAt: "desc" },
+  });
+}
+
+// The file of a finished export, or null if there's none to download
+export async function getExportFile(
+  userId: string,
+  id: string
+): Promise<{ export: MailboxExport; path: string; size: number } | null> {
+  const found = await prisma.mailboxExport.findFirst({ where: { id, userId, status: "done" } });
+  if (!found) return null;
+
+  try {
+    const { size } = await stat(exportPath(id));
+    return { export: found, path: exportPath(id), size };
+  } catch {
+    return null;
+  }
+}
+
+// Cancel a queued or running export, or delete a finished one. A running
+// export notices the next time it reports progress and stops.
+export async function deleteExport(userId: string, id: string): Promise<boolean> {
+  const { count } = await prisma.mailboxExport.deleteMany({ where: { id, userId } });
+  if (count === 0) return false;
+
+  await rm(exportPath(id), { force: true });
+  return true;
+}
+
+// Delete every export of an account, for unlinking it. A file still being
+// written is removed by the worker's sweep.
+export async function deleteAccountExports({ userId, accountId }: AccountRef): Promise<void> {
+  const exports = await prisma.mailboxExport.findMany({
+    where: { userId, accountId },
+    select: { id: true },
+  });
+  await prisma.mailboxExport.deleteMany({ where: { userId, accountId } });
+
+  for (const { id } of exports) {
+    await rm(exportPath(id), { force: true });
+  }
+}
+
+// A name for the downloaded file that says what's in it
+export function exportFileName(found: MailboxExport): string {
+  const label = [found.category, found.tag, found.query]
+    .filter(Boolean)
+    .join(" ")
+    .replace(/[^\w@.-]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 80);
+  return `${label || "mailbox"}-${found.createdAt.toISOString().slice(0, 10)}.mbox`;
+}
+
+function exportPath(id: string): string {
+  return path.join(EXPORT_DIR, `${id}.mbox`);
+}
+
+// Run queued exports one at a time until none are left
+async function runPendingExports(): Promise<void> {
+  for (;;) {
+    const next = await prisma.mailboxExport.findFirst({
+      where: { status: "pending" },
+      orderBy: { createdAt: "asc" },
+    });
+    if (!next) return;
+
+    // Claim it, unless it was cancelled in the meantime
+    const { count } = await prisma.mailboxExport.updateMany({
+      where: { id: next.id, status: "pending" },
+      data: { status: "running" },
+    });
+    if (count === 0) continue;
+
+    try {
+      await runExport(next);
+    } catch (error) {
+      console.error("Mailbox export error:", error);
+      await rm(exportPath(next.id), { force: true });
+      await prisma.mailboxExport.updateMany({
+        where: { id: next.id },
+        data: {
+          status: "failed",
+          error: error instanceof Error ? error.message : "Export failed",
+        },
+      });
+    }
+  }
+}
+
+async function runExport(job: MailboxExport): Promise<void> {
+  const account = { userId: job.userId, accountId: job.accountId };
+
+  // Runs without a session, so use the credentials stored at sign-in
+  const accessToken = await getStoredAccessToken(job.userId, job.accountId);
+  if (!accessToken) {
+    throw new Error("No stored Gmail credentials; sign in again to export");
+  }
+
+  const messageIds = await selectMessageIds(accessToken, account, {
+    query: job.query ?? undefined,
+    category: job.category ?? undefined,
+    tag: job.tag ?? undefined,
+  });
+  if (!(await reportProgress(job.id, { total: messageIds.length }))) return;
+
+  await mkdir(EXPORT_DIR, { recursive: true });
+  const file = await open(exportPath(job.id), "w");
+  let cancelled = false;
+
+  try {
+    let exported = 0;
+    for (let i = 0; i < messageIds.length && !cancelled; i += EXPORT_FETCH_SIZE) {
+      const messages = await getRawMessages(
+        accessToken,
+        messageIds.slice(i, i + EXPORT_FETCH_SIZE)
+      );
+      for (const message of messages) {
+        await file.write(toMboxEntry(message.raw, message.internalDate));
+      }
+
+      exported += messages.length;
+      cancelled = !(await reportProgress(job.id, { exported }));
+    }
+  } finally {
+    await file.close();
+  }
+
+  if (cancelled) {
+    await rm(exportPath(job.id), { force: true });
+  } else {
+    await reportProgress(job.id, { status: "done" });
+  }
+}
+
+// Record progress. Returns false if the export has been cancelled.
+async function reportProgress(
+  id: string,
+  data: { total?: number; exported?: number; status?: string }
+): Promise<boolean> {
+  const { count } = await prisma.mailboxExport.updateMany({ where: { id }, data });
+  return count > 0;
+}
+
+// IDs of the messages matching every part of the selection. A Gmail query
+// is answered by Gmail; categories and tags come from the local tables.
+// Imported messages can't be exported, as Gmail has no copy of them.
+async function selectMessageIds(
+  accessToken: string,
+  { userId, accountId }: AccountRef,
+  selection: ExportSelection
+): Promise<string[]> {
+  const sets: Array<Set<string>> = [];
+
+  if (selection.category) {
+    const rows = await prisma.emailClassification.findMany({
+      where: { userId, accountId, category: selection.category },
+      select: { emailId: true },
+    });
+    sets.push(new Set(rows.map((r) => r.emailId)));
+  }
+
+  if (selection.tag) {
+    const tag = await prisma.userTag.findUnique({
+      where: { userId_accountId_name: { userId, accountId, name: selection.tag } },
+    });
+    const rows = tag
+      ? await prisma.emailTag.findMany({
+          where: { tagId: tag.id },
+          select: { emailId: true },
+        })
+      : [];
+    sets.push(new Set(rows.map((r) => r.emailId)));
+  }
+
+  let ids: string[];
+  if (selection.query) {
+    ids = [];
+    let pageToken: string | undefined;
+    do {
+      const page = await listMessages(accessToken, selection.query, LIST_PAGE_SIZE, pageToken);
+      ids.push(...(page.messages || []).map((m) => m.id));
+      pageToken = page.nextPageToken;
+    } while (pageToken);
+  } else {
+    ids = [...(sets.shift() || [])];
+  }
+
+  return ids.filter((id) => !isImportedMessageId(id) && sets.every((set) => set.has(id)));
+}
+
+// One message in mboxrd form: a "From sender date" separator, the message
+// with Unix line endings, and a blank line. Lines that already look like
+// a separator, even behind ">" quoting, get one more ">".
+function toMboxEntry(raw: Uint8Array, internalDate?: string): Buffer {
+  // latin1 maps bytes to characters one to one, so 8-bit content survives
+  const message = Buffer.from(raw).toString("latin1").replace(/\r\n/g, "\n");
+  const head = message.split("\n\n", 1)[0];
+
+  const sender =
+    head.match(/^Return-Path:\s*<([^<>\s]+)>/im)?.[1] ||
+    extractEmail(head.match(/^From:(.*(?:\n[ \t].*)*)/im)?.[1] || "") ||
+    "MAILER-DAEMON";
+  const date = new Date(Number(internalDate) || Date.now());
+  const body = message.replace(/^(>*From )/gm, ">$1");
+
+  return Buffer.from(
+    `From ${sender.replace(/\s+/g, "")} ${asctime(date)}\n${body}${body.endsWith("\n") ? "" : "\n"}\n`,
+    "latin1"
+  );
+}
+
+// The date format of mbox separator lines, e.g. "Mon Oct  5 09:30:00 2026"
+function asctime(date: Date): string {
+  const [weekday, day, month, year, time] = date.toUTCString().replace(",", "").split(" ");
+  return `${weekday} ${month} ${day.replace(/^0/, " ")} ${time} ${year}`;
+}
+
+// Load an mbox file into the mirror, labelled IMPORTED, and index it for
+// search. The file is read as it streams in, so large archives don't have
+// to fit in memory. Importing a file again updates the same messages.
+export async function importMbox(
+  account: AccountRef,
+  stream: ReadableStream<Uint8Array>
+): Promise<ImportResult> {
+  const result: ImportResult = { imported: 0, skipped: 0 };
+  let batch: ImportedMessage[] = [];
+
+  const flush = async () => {
+    if (batch.length === 0) return;
+    await storeImported(account, batch);
+    result.imported += batch.length;
+    batch = [];
+  };
+
+  for await (const entry of splitMbox(stream)) {
+    const message = parseImported(entry);
+    if (!message) {
+      result.skipped++;
+      continue;
+    }
+
+    batch.push(message);
+    if (batch.length >= IMPORT_BATCH_SIZE) await flush();
+  }
+  await flush();
+
+  return result;
+}
+
+interface ImportedMessage {
+  email: FormattedEmail;
+  body: string;
+}
+
+async function storeImported(account: AccountRef, messages: ImportedMessage[]): Promise<void> {
+  await storeMessages(account, messages.map((m) => m.email));
+
+  // Messages imported before are indexed again rather than twice
+  await removeFromSearchIndex(account, messages.map((m) => m.email.id));
+  await addToSearchIndex(
+    account,
+    messages.map((m) => ({
+      messageId: m.email.id,
+      subject: m.email.subject,
+      from: m.email.from,
+      snippet: m.email.snippet,
+      body: m.body,
+    }))
+  );
+}
+
+// Split an mbox stream into its messages, as binary strings. A line
+// starting with "From " after a blank line (or at the very start) begins
+// a new message; ">From " quoting inside messages is undone.
+async function* splitMbox(
+  stream: ReadableStream<Uint8Array>
+): AsyncGenerator<{ separator: string; message: string }> {
+  let separator: string | null = null;
+  let lines: string[] = [];
+  let messageBytes = 0;
+  let pending = "";
+  let previousBlank = true;
+
+  const finish = () => {
+    // The blank line before the next separator belongs to the format
+    while (lines.length > 0 && lines[lines.length - 1] === "") lines.pop();
+    return { separator: separator || "", message: lines.join("\n") };
+  };
+
+  async function* readLines() {
+    const reader = stream.getReader();
+    let total = 0;
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        total += value.byteLength;
+        if (total > MAX_IMPORT_BYTES) {
+          throw new MboxImportError("The file is too large to import");
+        }
+        const text = pending + Buffer.from(value).toString("latin1");
+        const split = text.split("\n");
+        pending = split.pop() || "";
+        yield* split;
+
+        // A file without line breaks would otherwise be held here whole
+        if (separator === null && pending.length > MAX_SEPARATOR_BYTES) {
+          throw new MboxImportError("This isn't an mbox file");
+        }
+        if (pending.length > MAX_IMPORT_MESSAGE_BYTES) {
+          throw new MboxImportError("The file has a message too large to import");
+        }
+      }
+      if (pending) yield pending;
+    } finally {
+      // Stop reading the upload when the import ends early
+      await reader.cancel();
+    }
+  }
+
+  for await (const rawLine of readLines()) {
+    const line = rawLine.replace(/\r$/, "");
+
+    if (previousBlank && line.startsWith("From ")) {
+      if (separator !== null) yield finish();
+      separator = line;
+      lines = [];
+      messageBytes = 0;
+      previousBlank = false;
+      continue;
+    }
+
+    // An mbox file starts with a separator. Anything else, such as a single
+    // .eml message, is turned away before it is read into memory.
+    if (separator === null) {
+      if (line.trim() === "") continue;
+      throw new MboxImportError("This isn't an mbox file");
+    }
+
+    messageBytes += line.length + 1;
+    if (messageBytes > MAX_IMPORT_MESSAGE_BYTES) {
+      throw new MboxImportError("The file has a message too large to import");
+    }
+
+    lines.push(line.replace(/^>(>*From )/, "$1"));
+    previousBlank = line === "";
+  }
+
+  if (separator !== null) yield finish();
+}
+
+// Turn an mbox entry into a mirror row and its indexed text. Returns null
+// for entries without any headers.
+function parseImported({
+  separator,
+  message,
+}: {
+  separator: string;
+  message: string;
+}): ImportedMessage | null {
+  const { headers, text, hasAttachment } = readRawMessage(message);
+  if (headers.length === 0) return null;
+
+  const header = (name: string) =>
+    headers.find((h) => h.name.toLowerCase() === name.toLowerCase())?.value || "";
+
+  // Identify the message by its Message-ID where it has one, so the same
+  // mail imported from two archives is stored once
+  const id = importedMessageId(
+    createHash("sha256")
+      .update(header("Message-ID") || message, "latin1")
+      .digest("hex")
+      .slice(0, 32)
+  );
+
+  // Date header, or the separator's date when that's missing or unreadable
+  const date = header("Date");
+  const received =
+    Date.parse(date) || Date.parse(separator.split(/\s+/).slice(2).join(" ")) || Date.now();
+
+  return {
+    email: {
+      id,
+      threadId: id,
+      internalDate: String(received),
+      from: header("From"),
+      subject: header("Subject"),
+      date: date || new Date(received).toUTCString(),
+      snippet: text.replace(/\s+/g, " ").trim().slice(0, SNIPPET_LENGTH),
+      isUnread: false,
+      hasAttachment,
+      labelIds: [IMPORTED_LABEL],
+    },
+    body: text,
+  };
+}
+
+// An imported message in the shape the detail view expects. Only the text
+// kept in the search index is available, so it is shown as plain text.
+export async function getImportedMessage(
+  account: AccountRef,
+  messageId: string
+): Promise<FullMessage | null> {
+  const [email] = await getMirroredMessages(account, [messageId]);
+  if (!email) return null;
+
+  return {
+    id: email.id,
+    threadId: email.threadId,
+    from: email.from,
+    to: "",
+    cc: "",
+    bcc: "",
+    replyTo: "",
+    subject: email.subject,
+    date: email.date,
+    messageId: "",
+    inReplyTo: "",
+    references: "",
+    snippet: email.snippet,
+    labelIds: email.labelIds,
+    body: (await getIndexedBody(account, messageId)) ?? email.snippet,
+    isHtml: false,
+    attachments: [],
+  };
+}
+
+// Delete export files past their time, along with their records
+async function deleteExpiredExports(): Promise<void> {
+  const expired = await prisma.mailboxExport.findMany({
+    where: {
+      status: { in: ["done", "failed"] },
+      updatedAt: { lt: new Date(Date.now() - EXPORT_TTL_MS) },
+    },
+    select: { id: true },
+  });
+
+  for (const { id } of expired) {
+    await rm(exportPath(id), { force: true });
+  }
+  if (expired.length > 0) {
+    await prisma.mailboxExport.deleteMany({ where: { id: { in: expired.map((e) => e.id) } } });
+  }
+
+  // Files whose record is gone, e.g. left by a crash mid-cancel
+  const files = await readdir(EXPORT_DIR).catch(() => [] as string[]);
+  const known = new Set(
+    (
+      await prisma.mailboxExport.findMany({
+        where: { id: { in: files.map((f) => path.basename(f, ".mbox")) } },
+        select: { id: true },
+      })
+    ).map((e) => e.id)
+  );
+  for (const file of files) {
+    if (!known.has(path.basename(file, ".mbox"))) {
+      await rm(path.join(EXPORT_DIR, file), { force: true });
+    }
+  }
+}
+
+// Kept on globalThis so dev-server reloads don't start a second worker
+const globalForExports = globalThis as unknown as {
+  exportTimer?: ReturnType<typeof setInterval>;
+  exportsRunning?: boolean;
+};
+
+// Work through the export queue unless that's already happening
+function processExports(): void {
+  if (globalForExports.exportsRunning) return;
+  globalForExports.exportsRunning = true;
+
+  runPendingExports()
+    .catch((error) => console.error("Mailbox export error:", error))
+    .finally(() => {
+      globalForExports.exportsRunning = false;
+    });
+}
+
+// Started once per server process, from instrumentation.ts
+export function startExportWorker(): void {
+  if (globalForExports.exportTimer) return;
+
+  // Exports interrupted by a restart start over; the file is rewritten
+  prisma.mailboxExport
+    .updateMany({ where: { status: "running" }, data: { status: "pending", exported: 0 } })
+    .then(() => processExports())
+    .catch((error) => console.error("Mailbox export error:", error));
+
+  let running = false;
+  globalForExports.exportTimer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      processExports();
+      await deleteExpiredExports();
+    } catch (error) {
+      console.error("Mailbox export error:", error);
+    } finally {
+      running = false;
+    }
+  }, EXPORT_SWEEP_INTERVAL_MS);
+}
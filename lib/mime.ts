@@ -0,0 +1,250 @@
+// Decoding for MIME message content: body parts in whatever charset they
+// declare, RFC 2047 encoded words in headers, and the quoted-printable and
+// base64 transfer encodings.
+import { decodeHtmlEntities } from "@/lib/utils";
+
+// What mail without a usable charset is read as. Mislabeled "ISO-8859-1"
+// and unlabeled 8-bit mail is nearly always windows-1252 in practice, which
+// is also what browsers do with both.
+const FALLBACK_CHARSET = "windows-1252";
+
+// Decode bytes in the given charset. Unknown charsets are read as UTF-8, and
+// "UTF-8" that isn't valid UTF-8 as windows-1252.
+export function decodeCharset(bytes: Uint8Array, charset?: string): string {
+  const label = charset?.trim().toLowerCase() || "utf-8";
+
+  if (label === "utf-8" || label === "utf8" || label === "us-ascii") {
+    try {
+      return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+    } catch {
+      return new TextDecoder(FALLBACK_CHARSET).decode(bytes);
+    }
+  }
+
+  try {
+    return new TextDecoder(label).decode(bytes);
+  } catch {
+    // Not a charset TextDecoder knows
+    return new TextDecoder("utf-8").decode(bytes);
+  }
+}
+
+// The charset parameter of a Content-Type header value, if any
+export function getCharset(contentType: string | undefined): string | undefined {
+  return contentType?.match(/;\s*charset\s*=\s*"?([^";\s]+)"?/i)?.[1];
+}
+
+// Gmail returns part bodies as base64url of the original bytes, with the
+// transfer encoding already undone
+export function decodeBase64UrlBytes(data: string): Uint8Array {
+  return decodeBase64Bytes(data.replace(/-/g, "+").replace(/_/g, "/"));
+}
+
+export function decodeBase64Bytes(data: string): Uint8Array {
+  const clean = data.replace(/[^A-Za-z0-9+/]/g, "");
+  const padded = clean + "=".repeat((4 - (clean.length % 4)) % 4);
+
+  try {
+    return Uint8Array.from(atob(padded), (c) => c.charCodeAt(0));
+  } catch {
+    return new Uint8Array();
+  }
+}
+
+export function decodeQuotedPrintableBytes(data: string): Uint8Array {
+  // Soft line breaks only exist to keep lines short
+  const text = data.replace(/=\r?\n/g, "");
+  const bytes: number[] = [];
+
+  for (let i = 0; i < text.length; i++) {
+    const hex = text[i] === "=" ? text.slice(i + 1, i + 3) : "";
+    if (/^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(text.charCodeAt(i) & 0xff);
+    }
+  }
+
+  return new Uint8Array(bytes);
+}
+
+// Undo a Content-Transfer-Encoding. The body is the text as it appears in
+// the raw message; 7bit, 8bit and binary bodies are taken byte for byte.
+export function decodeTransferEncoding(body: string, encoding: string | undefined): Uint8Array {
+  switch (encoding?.trim().toLowerCase()) {
+    case "base64":
+      return decodeBase64Bytes(body);
+    case "quoted-printable":
+      return decodeQuotedPrintableBytes(body);
+    default:
+      return Uint8Array.from(body, (c) => c.charCodeAt(0) & 0xff);
+  }
+}
+
+export interface MimeHeader {
+  name: string;
+  value: string;
+}
+
+// Body text of a part as returned by the Gmail API, decoded with the charset
+// from its Content-Type header
+export function decodePartBody(part: {
+  headers?: MimeHeader[];
+  body?: { data?: string };
+}): string {
+  if (!part.body?.data) return "";
+
+  const contentType = part.headers?.find((h) => h.name.toLowerCase() === "content-type")?.value;
+  return decodeCharset(decodeBase64UrlBytes(part.body.data), getCharset(contentType));
+}
+
+// =?charset?encoding?text?= - charset may carry an RFC 2231 language suffix
+const ENCODED_WORD = /=\?([^?\s]+?)(?:\*[^?\s]*)?\?([BbQq])\?([^?\s]*)\?=/g;
+
+// Decode RFC 2047 encoded words in a header value, e.g.
+// "=?UTF-8?B?w6l0w6k=?=" to "été". Whitespace between adjacent encoded words
+// is dropped, as the RFC requires, so long words split across lines rejoin.
+export function decodeMimeHeader(value: string): string {
+  if (!value.includes("=?")) return value;
+
+  return value
+    .replace(/(\?=)\s+(?==\?)/g, "$1")
+    .replace(ENCODED_WORD, (word, charset: string, encoding: string, text: string) => {
+      const bytes =
+        encoding.toUpperCase() === "B"
+          ? decodeBase64Bytes(text)
+          : // In headers, Q encoding uses "_" for space
+            decodeQuotedPrintableBytes(text.replace(/_/g, " "));
+      return decodeCharset(bytes, charset);
+    });
+}
+
+// Split a raw RFC 822 message into its headers, in order and with encoded
+// words decoded, and the body that follows the first blank line
+export function parseRawMessage(source: string): { headers: MimeHeader[]; body: string } {
+  const match = source.match(/\r?\n\r?\n/);
+  const head = match?.index !== undefined ? source.slice(0, match.index) : source;
+  const body = match?.index !== undefined ? source.slice(match.index + match[0].length) : "";
+
+  const headers: MimeHeader[] = [];
+  // Lines starting with whitespace continue the previous header
+  for (const line of head.split(/\r?\n(?![ \t])/)) {
+    const colon = line.indexOf(":");
+    if (colon <= 0) continue;
+    headers.push({
+      name: line.slice(0, colon).trim(),
+      value: decodeMimeHeader(line.slice(colon + 1).replace(/\r?\n[ \t]+/g, " ").trim()),
+    });
+  }
+
+  return { headers, body };
+}
+
+// Readable text of an HTML body: markup dropped, block ends as line breaks
+export function htmlToText(html: string): string {
+  return decodeHtmlEntities(
+    html
+      .replace(/<(style|script|head)[^>]*>[\s\S]*?<\/\1>/gi, " ")
+      .replace(/<br\s*\/?>|<\/(p|div|tr|li|h\d)>/gi, "\n")
+      .replace(/<[^>]+>/g, " ")
+  )
+    .replace(/[ \t]+/g, " ")
+    .replace(/\s*\n\s*/g, "\n")
+    .trim();
+}
+
+// Multipart nesting deeper than this is treated as an opaque part
+const MAX_PART_DEPTH = 10;
+
+// Headers, body text and whether there are attachments, read from a raw
+// RFC 822 message held as a binary string (one character per byte, as read
+// from an mbox file). The text is the first text/plain part, or else the
+// first HTML part reduced to text.
+export function readRawMessage(source: string): {
+  headers: MimeHeader[];
+  text: string;
+  hasAttachment: boolean;
+} {
+  let plain: string | undefined;
+  let html: string | undefined;
+  let hasAttachment = false;
+
+  const { headers } = walkParts(source, 0, (partHeaders, body) => {
+    const header = (name: string) =>
+      partHeaders.find((h) => h.name.toLowerCase() === name)?.value || "";
+    const contentType = header("content-type") || "text/plain";
+    const type = contentType.split(";")[0].trim().toLowerCase();
+    const disposition = header("content-disposition");
+
+    if (/^attachment/i.test(disposition) || !type.startsWith("text/")) {
+      hasAttachment = true;
+      return;
+    }
+    if (type !== "text/plain" && type !== "text/html") return;
+
+    const text = decodeCharset(
+      decodeTransferEncoding(body, header("content-transfer-encoding")),
+      getCharset(contentType)
+    );
+    if (type === "text/plain") plain ??= text;
+    else html ??= text;
+  });
+
+  return {
+    headers,
+    text: plain ?? (html !== undefined ? htmlToText(html) : ""),
+    hasAttachment,
+  };
+}
+
+// Call visit with the headers and undecoded body of every leaf part,
+// returning the entity's own headers
+function walkParts(
+  source: string,
+  depth: number,
+  visit: (headers: MimeHeader[], body: string) => void
+): { headers: MimeHeader[] } {
+  const match = source.match(/\r?\n\r?\n/);
+  const head = match?.index !== undefined ? source.slice(0, match.index) : source;
+  const body = match?.index !== undefined ? source.slice(match.index + match[0].length) : "";
+
+  // Headers should be ASCII, but 8-bit ones turn up; read them as UTF-8
+  // where they are, windows-1252 otherwise
+  const { headers } = parseRawMessage(
+    decodeCharset(Uint8Array.from(head, (c) => c.charCodeAt(0) & 0xff))
+  );
+
+  const contentType = headers.find((h) => h.name.toLowerCase() === "content-type")?.value || "";
+  const boundary = contentType.match(/boundary\s*=\s*"?([^";]+)"?/i)?.[1];
+
+  if (/^multipart\//i.test(contentType) && boundary && depth < MAX_PART_DEPTH) {
+    for (const part of splitMultipart(body, boundary)) {
+      walkParts(part, depth + 1, visit);
+    }
+  } else {
+    visit(headers, body);
+  }
+
+  return { headers };
+}
+
+// The parts between --boundary delimiter lines, up to the closing --boundary--
+function splitMultipart(body: string, boundary: string): string[] {
+  const parts: string[] = [];
+  let current: string[] | null = null;
+
+  for (const line of body.split(/\r?\n/)) {
+    const delimiter = line.trimEnd();
+    if (delimiter === `--${boundary}--`) break;
+    if (delimiter === `--${boundary}`) {
+      if (current) parts.push(current.join("\n"));
+      current = [];
+      continue;
+    }
+    current?.push(line);
+  }
+  if (current) parts.push(current.join("\n"));
+
+  return parts;
+}
@@ -0,0 +1,110 @@
+import type { AccountRef } from "@/lib/accounts";
+import { getStoredAccessToken } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { watchMailbox } from "@/lib/gmail";
+import { seedMailbox, syncMailbox } from "@/lib/mailbox";
+
+// Watches last 7 days; renewing once less than 6 remain means Gmail is
+// called about once a day, as it recommends
+const WATCH_RENEW_BEFORE_MS = 6 * 24 * 60 * 60 * 1000;
+
+export interface PushNotification {
+  emailAddress: string;
+  historyId: string;
+}
+
+// Register (or renew) the users.watch subscription. Does nothing unless
+// GMAIL_PUBSUB_TOPIC is set, e.g. "projects/my-project/topics/gmail".
+export async function ensureMailboxWatch(
+  accessToken: string,
+  { userId, accountId }: AccountRef
+): Promise<void> {
+  const topicName = process.env.GMAIL_PUBSUB_TOPIC;
+  if (!topicName) return;
+
+  const existing = await prisma.mailboxWatch.findUnique({
+    where: { userId_accountId: { userId, accountId } },
+  });
+  if (
+    existing &&
+    existing.topicName === topicName &&
+    existing.expiration.getTime() - Date.now() > WATCH_RENEW_BEFORE_MS
+  ) {
+    return;
+  }
+
+  const watch = await watchMailbox(accessToken, topicName);
+  const data = {
+    topicName,
+    historyId: watch.historyId,
+    expiration: new Date(Number(watch.expiration)),
+  };
+
+  await prisma.mailboxWatch.upsert({
+    where: { userId_accountId: { userId, accountId } },
+    create: { userId, accountId, ...data },
+    update: data,
+  });
+}
+
+// Pub/Sub push requests wrap Gmail's notification as base64 JSON:
+// { message: { data: base64('{"emailAddress":...,"historyId":...}') } }
+export function parsePushNotification(body: unknown): PushNotification | null {
+  const data = (body as { message?: { data?: unknown } } | null)?.message?.data;
+  if (typeof data !== "string") return null;
+
+  try {
+    const notification = JSON.parse(Buffer.from(data, "base64").toString("utf8"));
+    // History IDs are unsigned 64-bit numbers, compared as BigInts later
+    if (
+      typeof notification?.emailAddress !== "string" ||
+      !/^\d+$/.test(String(notification.historyId ?? ""))
+    ) {
+      return null;
+    }
+    return {
+      emailAddress: notification.emailAddress,
+      historyId: String(notification.historyId),
+    };
+  } catch {
+    return null;
+  }
+}
+
+// Pull the changes a notification announces into the local mirror of every
+// user the account is linked to - a shared mailbox can be linked by several.
+// One user failing (say, a revoked grant) is logged without holding back
+// the others. Returns false when the address belongs to no linked account.
+export async function handlePushNotification(notification: PushNotification): Promise<boolean> {
+  const accountId = notification.emailAddress.toLowerCase();
+  const linked = await prisma.gmailCredential.findMany({
+    where: { accountId },
+    select: { userId: true },
+  });
+
+  for (const { userId } of linked) {
+    try {
+      await syncLinkedAccount({ userId, accountId }, notification.historyId);
+    } catch (error) {
+      console.error(`Push sync failed for ${accountId} (user ${userId}):`, error);
+    }
+  }
+  return linked.length > 0;
+}
+
+async function syncLinkedAccount(account: AccountRef, historyId: string): Promise<void> {
+  const { userId, accountId } = account;
+  const state = await prisma.mailboxSync.findUnique({
+    where: { userId_accountId: { userId, accountId } },
+  });
+  // Pub/Sub delivers at least once - skip notifications already applied
+  if (state && BigInt(state.historyId) >= BigInt(historyId)) return;
+
+  const accessToken = await getStoredAccessToken(userId, accountId);
+  if (!accessToken) return;
+
+  const synced = await syncMailbox(accessToken, account);
+  if (!synced) {
+    await seedMailbox(accessToken, account);
+  }
+}
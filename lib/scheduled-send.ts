@@ -0,0 +1,211 @@
+import type { ScheduledSend } from "@prisma/client";
+import type { AccountRef } from "@/lib/accounts";
+import { getStoredAccessToken } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import {
+  getDraft,
+  parseAddressList,
+  sendDraft,
+  UNDO_SEND_SECONDS,
+  validateOutgoingMessage,
+} from "@/lib/gmail";
+
+// Sends due within this long get a timer of their own so the undo window
+// ends on time; later ones are picked up by the periodic sweep
+const SEND_SWEEP_INTERVAL_MS = 15 * 1000;
+
+// When a message sent now goes out: once the undo window, clamped to the
+// choices offered, has passed
+export function undoSendTime(undoSeconds?: number): Date {
+  const seconds = Math.min(
+    Math.max(Number(undoSeconds) || UNDO_SEND_SECONDS.default, UNDO_SEND_SECONDS.min),
+    UNDO_SEND_SECONDS.max
+  );
+  return new Date(Date.now() + seconds * 1000);
+}
+
+// Queue a saved draft to be sent at sendAt. Queuing the same draft again
+// replaces its earlier send time. A draft that can't be sent comes back as
+// an error message for the user instead.
+export async function queueSend(
+  accessToken: string,
+  { userId, accountId }: AccountRef,
+  draftId: string,
+  sendAt: Date
+): Promise<{ scheduled: ScheduledSend } | { error: string }> {
+  // Validate recipients now rather than failing in the background later
+  const { message } = await getDraft(accessToken, draftId);
+  const validationError = validateOutgoingMessage({
+    to: parseAddressList(message.to),
+    cc: parseAddressList(message.cc),
+    bcc: parseAddressList(message.bcc),
+    subject: message.subject,
+  });
+  if (validationError) {
+    return { error: validationError };
+  }
+
+  const data = {
+    to: message.to,
+    subject: message.subject,
+    sendAt,
+    status: "pending",
+    error: null,
+  };
+  const scheduled = await prisma.scheduledSend.upsert({
+    where: { userId_accountId_draftId: { userId, accountId, draftId } },
+    create: { userId, accountId, draftId, ...data },
+    update: data,
+  });
+
+  scheduleDelivery(scheduled);
+  return { scheduled };
+}
+
+// Queued sends from all of a user's accounts
+export async function listScheduledSends(userId: string): Promise<ScheduledSend[]> {
+  return prisma.scheduledSend.findMany({
+    where: { userId },
+    orderBy: { sendAt: "asc" },
+  });
+}
+
+// Take a message back before it is sent. The draft stays in Gmail so it can
+// be edited. Returns null once sending has started.
+export async function cancelScheduledSend(
+  userId: string,
+  id: string
+): Promise<ScheduledSend | null> {
+  const scheduled = await prisma.scheduledSend.findFirst({ where: { id, userId } });
+  if (!scheduled) return null;
+
+  // Delete only if the worker hasn't claimed it in the meantime
+  const { count } = await prisma.scheduledSend.deleteMany({
+    where: { id, status: { in: ["pending", "failed"] } },
+  });
+  if (count === 0) return null;
+
+  clearTimeout(sendTimers.get(id));
+  sendTimers.delete(id);
+  return scheduled;
+}
+
+// Leave queued drafts out of the Drafts view, as Gmail does
+export async function withoutQueued<T extends { draftId?: string }>(
+  { userId, accountId }: AccountRef,
+  drafts: T[]
+): Promise<T[]> {
+  const draftIds = drafts.flatMap((d) => (d.draftId ? [d.draftId] : []));
+  if (draftIds.length === 0) return drafts;
+
+  const queued = await prisma.scheduledSend.findMany({
+    where: { userId, accountId, draftId: { in: draftIds } },
+    select: { draftId: true },
+  });
+  const queuedIds = new Set(queued.map((q) => q.draftId));
+
+  return drafts.filter((d) => !d.draftId || !queuedIds.has(d.draftId));
+}
+
+// Send every queued message that is due
+export async function deliverDueSends(): Promise<void> {
+  const due = await prisma.scheduledSend.findMany({
+    where: { status: "pending", sendAt: { lte: new Date() } },
+    orderBy: { sendAt: "asc" },
+    select: { id: true },
+  });
+
+  for (const { id } of due) {
+    await deliver(id);
+  }
+}
+
+async function deliver(id: string): Promise<void> {
+  // Claim the send so a timer and the sweep can't both deliver it. A send
+  // time moved later after the timer was set is left for the sweep.
+  const { count } = await prisma.scheduledSend.updateMany({
+    where: { id, status: "pending", sendAt: { lte: new Date() } },
+    data: { status: "sending" },
+  });
+  if (count === 0) return;
+
+  const scheduled = await prisma.scheduledSend.findUnique({ where: { id } });
+  if (!scheduled) return;
+
+  try {
+    // Runs without a session, so use the credentials stored at sign-in
+    const accessToken = await getStoredAccessToken(scheduled.userId, scheduled.accountId);
+    if (!accessToken) {
+      throw new Error("No stored Gmail credentials; sign in again to send");
+    }
+
+    await sendDraft(accessToken, scheduled.draftId);
+    await prisma.scheduledSend.delete({ where: { id } });
+  } catch (error) {
+    console.error("Scheduled send error:", error);
+    await prisma.scheduledSend.update({
+      where: { id },
+      data: {
+        status: "failed",
+        error: error instanceof Error ? error.message : "Failed to send",
+      },
+    });
+  }
+}
+
+// Kept on globalThis so dev-server reloads don't start a second worker
+const globalForSends = globalThis as unknown as {
+  sendSweepTimer?: ReturnType<typeof setInterval>;
+  sendTimers?: Map<string, ReturnType<typeof setTimeout>>;
+};
+
+const sendTimers = globalForSends.sendTimers || new Map<string, ReturnType<typeof setTimeout>>();
+globalForSends.sendTimers = sendTimers;
+
+function scheduleDelivery(scheduled: ScheduledSend): void {
+  const delay = scheduled.sendAt.getTime() - Date.now();
+  if (delay > SEND_SWEEP_INTERVAL_MS) return;
+
+  clearTimeout(sendTimers.get(scheduled.id));
+  sendTimers.set(
+    scheduled.id,
+    setTimeout(() => {
+      sendTimers.delete(scheduled.id);
+      deliver(scheduled.id).catch((error) => console.error("Scheduled send error:", error));
+    }, Math.max(delay, 0))
+  );
+}
+
+// Started once per server process, from instrumentation.ts
+export function startSendScheduler(): void {
+  if (globalForSends.sendSweepTimer) return;
+
+  // A send interrupted by a restart may or may not have reached Gmail.
+  // Retrying is safe: a draft that was sent no longer exists, so the retry
+  // fails instead of sending twice.
+  prisma.scheduledSend
+    .updateMany({ where: { status: "sending" }, data: { status: "pending" } })
+    .catch((error) => console.error("Scheduled send error:", error));
+
+  let running = false;
+  globalForSends.sendSweepTimer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await deliverDueSends();
+
+      // Give sends coming due before the next sweep a timer of their own
+      const upcoming = await prisma.scheduledSend.findMany({
+        where: {
+          status: "pending",
+          sendAt: { lte: new Date(Date.now() + SEND_SWEEP_INTERVAL_MS) },
+        },
+      });
+      upcoming.forEach(scheduleDelivery);
+    } catch (error) {
+      console.error("Scheduled send error:", error);
+    } finally {
+      running = false;
+    }
+  }, SEND_SWEEP_INTERVAL_MS);
+}
@@ -0,0 +1,328 @@
+import { accountKey, type AccountRef } from "@/lib/accounts";
+import { prisma } from "@/lib/db";
+import { getMessagesText } from "@/lib/gmail";
+import { parseGmailQuery } from "@/lib/gmail-query";
+
+// Full-text index over the local mirror, in an SQLite FTS5 table next to
+// the Prisma models. Prisma can't describe virtual tables, so it is created
+// and queried with raw SQL. Bodies aren't part of the mirror, so indexing
+// fetches each message once more in full, in the background after syncs.
+// Mail imported from mbox files is indexed as it is imported instead.
+
+const INDEX_BATCH_SIZE = 100;
+
+// Marks SQLite puts around matched text (char(2) and char(3)). Control
+// characters don't occur in mail text, so splitting on them is safe.
+const HIGHLIGHT_START = "\u0002";
+const HIGHLIGHT_END = "\u0003";
+
+// bm25 weights per column: userId, accountId, messageId, subject, sender,
+// snippet, body
+const RANK_WEIGHTS = "0, 0, 0, 10, 5, 2, 1";
+
+export interface SearchQuery {
+  // Free text, optionally limited to one column by from: or subject:
+  terms: Array<{ column?: "sender" | "subject"; value: string }>;
+  categories: string[];
+  tags: string[];
+}
+
+// Text split into runs, with the runs that matched the search marked
+export type HighlightedText = Array<{ text: string; match: boolean }>;
+
+export interface SearchHit {
+  accountId: string;
+  messageId: string;
+  // Subject and the best-matching excerpt
+  subject: HighlightedText;
+  snippet: HighlightedText;
+}
+
+interface SearchRow {
+  accountId: string;
+  messageId: string;
+  subject: string;
+  snippet: string;
+}
+
+let tableReady: Promise<unknown> | null = null;
+
+function ensureSearchTable(): Promise<unknown> {
+  tableReady ??= prisma
+    .$executeRawUnsafe(
+      `CREATE VIRTUAL TABLE IF NOT EXISTS mail_search USING fts5(
+        userId UNINDEXED,
+        accountId UNINDEXED,
+        messageId UNINDEXED,
+        subject,
+        sender,
+        snippet,
+        body,
+        tokenize = 'unicode61 remove_diacritics 2'
+      )`
+    )
+    .catch((error) => {
+      tableReady = null;
+      throw error;
+    });
+  return tableReady;
+}
+
+// Split a search into FTS terms and the category:/tag: filters, which are
+// answered from the classification and tag tables. Values may be quoted:
+// from:"jane doe". Negations, OR and other Gmail operators only apply to
+// Gmail search and are left out here.
+export function parseSearchQuery(query: string): SearchQuery {
+  const result: SearchQuery = { terms: [], categories: [], tags: [] };
+
+  for (const node of parseGmailQuery(query).nodes) {
+    if (node.type !== "term" || node.negated || !node.value.trim()) continue;
+    const value = node.value.trim();
+
+    if (!node.operator) {
+      result.terms.push({ value });
+    } else if (node.operator === "from") {
+      result.terms.push({ column: "sender", value });
+    } else if (node.operator === "subject") {
+      result.terms.push({ column: "subject", value });
+    } else if (node.operator === "category") {
+      result.categories.push(value.toLowerCase());
+    } else if (node.operator === "tag") {
+      result.tags.push(value.toLowerCase());
+    }
+  }
+
+  return result;
+}
+
+// Each word becomes a quoted prefix query, so results show up while the
+// last word is still being typed
+function toMatchExpression(terms: SearchQuery["terms"]): string {
+  return terms
+    .flatMap(({ column, value }) =>
+      value
+        .split(/\s+/)
+        // Punctuation on its own would be an empty phrase, a syntax error
+        .filter((word) => /[A-Za-z0-9\u00C0-\uFFFF]/.test(word))
+        .map((word) => `${column ? `${column} : ` : ""}"${word.replace(/"/g, "")}"*`)
+    )
+    .join(" ");
+}
+
+// Search the given accounts of one user together, best matches first
+export async function searchMailbox(
+  userId: string,
+  accountIds: string[],
+  query: SearchQuery,
+  limit: number
+): Promise<SearchHit[]> {
+  if (accountIds.length === 0) return [];
+  await ensureSearchTable();
+
+  // Spam and trash stay out of results, as in the message list
+  const conditions = [
+    `accountId IN (${accountIds.map(() => "?").join(", ")})`,
+    `(accountId, messageId) IN (SELECT accountId, messageId FROM MailboxMessage WHERE userId = ?
+      AND labelIds NOT LIKE '%"SPAM"%' AND labelIds NOT LIKE '%"TRASH"%')`,
+  ];
+  const params: unknown[] = [...accountIds, userId];
+
+  for (const category of query.categories) {
+    conditions.push(
+      `(accountId, messageId) IN (SELECT accountId, emailId FROM EmailClassification
+        WHERE userId = ? AND category = ?)`
+    );
+    params.push(userId, category);
+  }
+  for (const tag of query.tags) {
+    conditions.push(
+      `(accountId, messageId) IN (SELECT et.accountId, et.emailId FROM EmailTag et
+        JOIN UserTag t ON t.id = et.tagId WHERE t.userId = ? AND t.name = ?)`
+    );
+    params.push(userId, tag);
+  }
+
+  const match = toMatchExpression(query.terms);
+
+  // Only filters: newest first, nothing to highlight
+  if (!match) {
+    const rows = await prisma.$queryRawUnsafe<SearchRow[]>(
+      `SELECT accountId, messageId, subject, snippet FROM MailboxMessage
+       WHERE userId = ? AND ${conditions.join(" AND ")}
+       ORDER BY internalDate DESC LIMIT ?`,
+      userId,
+      ...params,
+      limit
+    );
+    return rows.map(toSearchHit);
+  }
+
+  const rows = await prisma.$queryRawUnsafe<SearchRow[]>(
+    `SELECT accountId, messageId,
+       highlight(mail_search, 3, char(2), char(3)) AS subject,
+       snippet(mail_search, -1, char(2), char(3), '…', 16) AS snippet
+     FROM mail_search
+     WHERE mail_search MATCH ? AND userId = ? AND ${conditions.join(" AND ")}
+     ORDER BY bm25(mail_search, ${RANK_WEIGHTS})
+     LIMIT ?`,
+    match,
+    userId,
+    ...params,
+    limit
+  );
+  return rows.map(toSearchHit);
+}
+
+function toSearchHit(row: SearchRow): SearchHit {
+  return {
+    accountId: row.accountId,
+    messageId: row.messageId,
+    subject: splitHighlights(row.subject),
+    snippet: splitHighlights(row.snippet),
+  };
+}
+
+function splitHighlights(text: string): HighlightedText {
+  const runs: HighlightedText = [];
+  for (const part of text.split(HIGHLIGHT_START)) {
+    const [matched, rest] = part.includes(HIGHLIGHT_END)
+      ? part.split(HIGHLIGHT_END, 2)
+      : [null, part];
+    if (matched) runs.push({ text: matched, match: true });
+    if (rest) runs.push({ text: rest, match: false });
+  }
+  return runs;
+}
+
+// Accounts whose messages are being indexed right now
+const indexing = new Map<string, Promise<void>>();
+
+// Index mirrored messages that aren't in the search table yet. Runs in the
+// background; calls made while a run is going share it.
+export function queueSearchIndexing(accessToken: string, account: AccountRef): void {
+  const key = accountKey(account);
+  if (indexing.has(key)) return;
+
+  const run = indexMailbox(accessToken, account)
+    .catch((error) => console.error("Search indexing error:", error))
+    .finally(() => indexing.delete(key));
+  indexing.set(key, run);
+}
+
+async function indexMailbox(accessToken: string, { userId, accountId }: AccountRef): Promise<void> {
+  await ensureSearchTable();
+
+  for (;;) {
+    // Newest first, so recent mail is searchable soonest
+    const pending = await prisma.$queryRawUnsafe<
+      Array<{ messageId: string; from: string; subject: string; snippet: string }>
+    >(
+      `SELECT m.messageId, m."from", m.subject, m.snippet FROM MailboxMessage m
+       WHERE m.userId = ? AND m.accountId = ? AND m.labelIds NOT LIKE '%"IMPORTED"%'
+       AND NOT EXISTS (
+         SELECT 1 FROM mail_search s WHERE s.userId = m.userId
+           AND s.accountId = m.accountId AND s.messageId = m.messageId
+       )
+       ORDER BY m.internalDate DESC LIMIT ?`,
+      userId,
+      accountId,
+      INDEX_BATCH_SIZE
+    );
+    if (pending.length === 0) return;
+
+    const texts = new Map(
+      (await getMessagesText(accessToken, pending.map((m) => m.messageId))).map((t) => [
+        t.id,
+        t.text,
+      ])
+    );
+
+    // Messages deleted in the meantime are indexed without a body. Searches
+    // only return messages still in the mirror, so they never show up.
+    await addToSearchIndex(
+      { userId, accountId },
+      pending.map((m) => ({ ...m, body: texts.get(m.messageId) || "" }))
+    );
+  }
+}
+
+// Index messages whose text is already at hand, such as imported mail that
+// Gmail doesn't have
+export async function addToSearchIndex(
+  { userId, accountId }: AccountRef,
+  messages: Array<{ messageId: string; subject: string; from: string; snippet: string; body: string }>
+): Promise<void> {
+  if (messages.length === 0) return;
+  await ensureSearchTable();
+
+  await prisma.$transaction(
+    messages.map((m) =>
+      prisma.$executeRawUnsafe(
+        `INSERT INTO mail_search (userId, accountId, messageId, subject, sender, snippet, body)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        userId,
+        accountId,
+        m.messageId,
+        m.subject,
+        m.from,
+        m.snippet,
+        m.body
+      )
+    )
+  );
+}
+
+// Body text a message was indexed with, or null if it isn't indexed
+export async function getIndexedBody(
+  { userId, accountId }: AccountRef,
+  messageId: string
+): Promise<string | null> {
+  await ensureSearchTable();
+
+  const rows = await prisma.$queryRawUnsafe<Array<{ body: string }>>(
+    "SELECT body FROM mail_search WHERE userId = ? AND accountId = ? AND messageId = ? LIMIT 1",
+    userId,
+    accountId,
+    messageId
+  );
+  return rows[0]?.body ?? null;
+}
+
+export async function removeFromSearchIndex(
+  { userId, accountId }: AccountRef,
+  messageIds: string[]
+): Promise<void> {
+  if (messageIds.length === 0) return;
+  await ensureSearchTable();
+
+  await prisma.$executeRawUnsafe(
+    `DELETE FROM mail_search WHERE userId = ? AND accountId = ?
+     AND messageId IN (${messageIds.map(() => "?").join(", ")})`,
+    userId,
+    accountId,
+    ...messageIds
+  );
+}
+
+export async function clearSearchIndex({ userId, accountId }: AccountRef): Promise<void> {
+  await ensureSearchTable();
+  await prisma.$executeRawUnsafe(
+    "DELETE FROM mail_search WHERE userId = ? AND accountId = ?",
+    userId,
+    accountId
+  );
+}
+
+// Drop entries for messages no longer in the mirror
+export async function pruneSearchIndex({ userId, accountId }: AccountRef): Promise<void> {
+  await ensureSearchTable();
+  await prisma.$executeRawUnsafe(
+    `DELETE FROM mail_search WHERE userId = ? AND accountId = ? AND messageId NOT IN (
+       SELECT messageId FROM MailboxMessage WHERE userId = ? AND accountId = ?
+     )`,
+    userId,
+    accountId,
+    userId,
+    accountId
+  );
+}
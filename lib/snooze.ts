@@ -0,0 +1,203 @@
+import type { AccountRef } from "@/lib/accounts";
+import { getStoredAccessToken } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { publishMailboxEvent } from "@/lib/events";
+import { isGmailApiError } from "@/lib/gmail-client";
+import {
+  applyMessageAction,
+  batchModifyMessages,
+  getMessagesMetadata,
+  type FormattedEmail,
+} from "@/lib/gmail";
+
+// How often the scheduler looks for emails whose snooze is over
+const SNOOZE_CHECK_INTERVAL_MS = 60 * 1000;
+
+// Wake at most this many emails per account per check, well under
+// batchModify's limit
+const WAKE_BATCH_SIZE = 500;
+
+export interface SnoozedEmail extends FormattedEmail {
+  snoozedUntil: string;
+}
+
+// Archive the emails and remember when to bring them back
+export async function snoozeEmails(
+  accessToken: string,
+  { userId, accountId }: AccountRef,
+  messageIds: string[],
+  wakeAt: Date
+): Promise<void> {
+  await applyMessageAction(accessToken, messageIds, "archive");
+
+  await prisma.$transaction(
+    messageIds.map((messageId) =>
+      prisma.snoozedEmail.upsert({
+        where: { userId_accountId_messageId: { userId, accountId, messageId } },
+        create: { userId, accountId, messageId, wakeAt },
+        update: { wakeAt },
+      })
+    )
+  );
+}
+
+// Snoozed emails, soonest to wake first. Snoozes on messages deleted since
+// are dropped.
+export async function listSnoozedEmails(
+  accessToken: string,
+  { userId, accountId }: AccountRef
+): Promise<SnoozedEmail[]> {
+  const rows = await prisma.snoozedEmail.findMany({
+    where: { userId, accountId },
+    orderBy: { wakeAt: "asc" },
+  });
+  if (rows.length === 0) return [];
+
+  const emails = new Map(
+    (await getMessagesMetadata(accessToken, rows.map((r) => r.messageId))).map((e) => [e.id, e])
+  );
+
+  const gone = rows.filter((r) => !emails.has(r.messageId));
+  if (gone.length > 0) {
+    await prisma.snoozedEmail.deleteMany({
+      where: { id: { in: gone.map((r) => r.id) } },
+    });
+  }
+
+  return rows
+    .filter((r) => emails.has(r.messageId))
+    .map((r) => ({ ...emails.get(r.messageId)!, snoozedUntil: r.wakeAt.toISOString() }));
+}
+
+// Cancel a snooze early: the email goes back to the inbox as it was
+export async function unsnoozeEmails(
+  accessToken: string,
+  { userId, accountId }: AccountRef,
+  messageIds: string[]
+): Promise<void> {
+  await applyMessageAction(accessToken, messageIds, "unarchive");
+  await prisma.snoozedEmail.deleteMany({
+    where: { userId, accountId, messageId: { in: messageIds } },
+  });
+}
+
+// Leave snoozed emails out of a message list until they wake
+export async function withoutSnoozed<T extends { id: string }>(
+  { userId, accountId }: AccountRef,
+  messages: T[]
+): Promise<T[]> {
+  if (messages.length === 0) return messages;
+
+  const snoozed = await prisma.snoozedEmail.findMany({
+    where: { userId, accountId, messageId: { in: messages.map((m) => m.id) } },
+    select: { messageId: true },
+  });
+  const snoozedIds = new Set(snoozed.map((s) => s.messageId));
+
+  return messages.filter((m) => !snoozedIds.has(m.id));
+}
+
+// Move every email whose snooze is over back to the inbox, unread, and put
+// it at the top of any open list. Runs without a session, so it uses the
+// credentials stored at sign-in. Each account gets its own batch, so one
+// with a large backlog doesn't hold up the rest.
+export async function wakeSnoozedEmails(): Promise<void> {
+  const now = new Date();
+  const accounts = await prisma.snoozedEmail.groupBy({
+    by: ["userId", "accountId"],
+    where: { wakeAt: { lte: now } },
+  });
+
+  for (const account of accounts) {
+    const { userId, accountId } = account;
+    const due = await prisma.snoozedEmail.findMany({
+      where: { userId, accountId, wakeAt: { lte: now } },
+      orderBy: { wakeAt: "asc" },
+      take: WAKE_BATCH_SIZE,
+      select: { messageId: true },
+    });
+    const messageIds = due.map((row) => row.messageId);
+
+    try {
+      const accessToken = await getStoredAccessToken(userId, accountId);
+      if (!accessToken) {
+        // Nothing can be done without credentials; don't retry forever
+        console.error(`No stored Gmail credentials for ${accountId}; dropping snoozes`);
+      } else {
+        await wakeEmails(accessToken, { userId, accountId }, messageIds);
+      }
+    } catch (error) {
+      if (!isRevokedAccess(error)) {
+        console.error("Snooze wake-up error:", error);
+        continue;
+      }
+      // Retrying can't succeed until the account is linked again
+      console.error(`Gmail access revoked for ${accountId}; dropping snoozes`);
+    }
+
+    await prisma.snoozedEmail.deleteMany({
+      where: { userId, accountId, messageId: { in: messageIds } },
+    });
+  }
+}
+
+// Google refuses the stored refresh token ("invalid_grant") once access is
+// revoked, and Gmail answers 401 for a token it no longer accepts
+function isRevokedAccess(error: unknown): boolean {
+  return (
+    isGmailApiError(error, "auth_expired") ||
+    (error instanceof Error && error.message === "invalid_grant")
+  );
+}
+
+async function wakeEmails(
+  accessToken: string,
+  { userId, accountId }: AccountRef,
+  messageIds: string[]
+) {
+  // Messages deleted or binned while snoozed stay where they are
+  const emails = (await getMessagesMetadata(accessToken, messageIds)).filter(
+    (email) => !email.labelIds.some((label) => label === "TRASH" || label === "SPAM")
+  );
+  if (emails.length === 0) return;
+
+  await batchModifyMessages(
+    accessToken,
+    emails.map((email) => email.id),
+    ["INBOX", "UNREAD"]
+  );
+
+  publishMailboxEvent(userId, {
+    type: "messages.added",
+    messages: emails.map((email) => ({
+      ...email,
+      accountId,
+      isUnread: true,
+      labelIds: [...new Set([...email.labelIds, "INBOX", "UNREAD"])],
+    })),
+  });
+}
+
+// Kept on globalThis so dev-server reloads don't start a second timer
+const globalForSnooze = globalThis as unknown as {
+  snoozeTimer?: ReturnType<typeof setInterval>;
+};
+
+// Started once per server process, from instrumentation.ts
+export function startSnoozeScheduler(): void {
+  if (globalForSnooze.snoozeTimer) return;
+
+  let running = false;
+  globalForSnooze.snoozeTimer = setInterval(async () => {
+    // A slow check must not overlap the next one
+    if (running) return;
+    running = true;
+    try {
+      await wakeSnoozedEmails();
+    } catch (error) {
+      console.error("Snooze scheduler error:", error);
+    } finally {
+      running = false;
+    }
+  }, SNOOZE_CHECK_INTERVAL_MS);
+}
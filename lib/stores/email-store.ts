@@ -1,7 +1,10 @@
 import { create } from "zustand";
+import { MESSAGE_ACTION_LABELS, type UnsubscribeOptions } from "@/lib/gmail";
 
 export interface Email {
   id: string;
+  // Gmail address of the linked account the email belongs to
+  accountId: string;
   threadId: string;
   from: string;
   subject: string;
@@ -10,12 +13,17 @@ export interface Email {
   isUnread?: boolean;
   hasAttachment?: boolean;
   labelIds?: string[];
+  draftId?: string;
+  unsubscribe?: UnsubscribeOptions;
+  // ISO time a snoozed email comes back, in the Snoozed view
+  snoozedUntil?: string;
 }
 
 export interface EmailClassification {
   id: string;
   emailId: string;
   userId: string;
+  accountId: string;
   category: string;
   priority: "high" | "medium" | "low";
   isRedundant: boolean;
@@ -28,11 +36,15 @@ export interface EmailClassification {
 export interface UserTag {
   id: string;
   userId: string;
+  accountId: string;
   name: string;
   color: string;
+  syncToGmail: boolean;
+  gmailLabelId?: string | null;
 }
 
 export interface EmailFilters {
+  view: "mail" | "drafts" | "snoozed" | "scheduled";
   search: string;
   unreadOnly: boolean;
   hasAttachment: boolean;
@@ -64,6 +76,7 @@ interface EmailState {
   isLoading: boolean;
   isLoadingMore: boolean;
   error: string | null;
+  actionError: string | null;
 
   // Filters
   filters: EmailFilters;
@@ -71,6 +84,9 @@ interface EmailState {
   // Actions
   setEmails: (emails: Email[]) => void;
   appendEmails: (emails: Email[], pageToken: string | null) => void;
+  mergeNewEmails: (emails: Email[]) => void;
+  applyLabelChanges: (changes: Array<{ id: string; labelIds: string[] }>) => void;
+  removeEmailsById: (ids: string[]) => void;
   selectEmail: (id: string | null) => void;
   toggleEmailSelection: (id: string) => void;
   selectAllEmails: () => void;
@@ -84,9 +100,18 @@ interface EmailState {
     key: K,
     value: EmailFilters[K]
   ) => void;
+  updateFilters: (filters: Partial<EmailFilters>) => void;
   resetFilters: () => void;
-  markAsRead: (ids: string[]) => void;
-  markAsUnread: (ids: string[]) => void;
+  setActionError: (error: string | null) => void;
+
+  // Gmail actions - applied optimistically and rolled back if the API call fails
+  markAsRead: (ids: string[]) => Promise<void>;
+  markAsUnread: (ids: string[]) => Promise<void>;
+  archiveEmails: (ids: string[]) => Promise<void>;
+  trashEmails: (ids: string[]) => Promise<void>;
+  snoozeEmails: (ids: string[], until: Date) => Promise<void>;
+  unsnoozeEmails: (ids: string[]) => Promise<void>;
+  removeDraft: (draftId: string) => void;
 
   // Classification actions
   setClassifications: (classifications: Record<string, EmailClassification>) => void;
@@ -96,7 +121,110 @@ interface EmailState {
   getFilteredEmails: () => Email[];
 }
 
+// An API path for one linked account. Without an account the server uses
+// the primary one (or, for lists, all of them).
+export function accountUrl(path: string, accountId?: string | null): string {
+  if (!accountId) return path;
+  return `${path}${path.includes("?") ? "&" : "?"}accountId=${encodeURIComponent(accountId)}`;
+}
+
+// Emails grouped by the account they belong to, for per-account API calls
+function groupByAccount(emails: Email[]): Map<string, string[]> {
+  const groups = new Map<string, string[]>();
+  for (const email of emails) {
+    groups.set(email.accountId, [...(groups.get(email.accountId) || []), email.id]);
+  }
+  return groups;
+}
+
+type PersistedAction = keyof typeof MESSAGE_ACTION_LABELS | "trash";
+
+// Send an action to Gmail, one call per account. Single messages use the
+// per-message routes, multi-selections go through the batch route.
+async function persistMessageAction(
+  emails: Email[],
+  action: PersistedAction
+): Promise<void> {
+  await Promise.all(
+    [...groupByAccount(emails)].map(([accountId, ids]) =>
+      persistAccountAction(accountId, ids, action)
+    )
+  );
+}
+
+async function persistAccountAction(
+  accountId: string,
+  ids: string[],
+  action: PersistedAction
+): Promise<void> {
+  let response: Response;
+
+  if (ids.length > 1) {
+    response = await fetch(accountUrl("/api/gmail/messages/batch", accountId), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ids, action }),
+    });
+  } else if (action === "trash") {
+    response = await fetch(accountUrl(`/api/gmail/messages/${ids[0]}/trash`, accountId), {
+      method: "POST",
+    });
+  } else {
+    response = await fetch(accountUrl(`/api/gmail/messages/${ids[0]}/modify`, accountId), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(MESSAGE_ACTION_LABELS[action]),
+    });
+  }
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || "Failed to update emails in Gmail");
+  }
+}
+
+async function persistSnooze(emails: Email[], until: Date): Promise<void> {
+  await Promise.all(
+    [...groupByAccount(emails)].map(async ([accountId, ids]) => {
+      const response = await fetch(accountUrl("/api/gmail/snooze", accountId), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ids, until: until.toISOString() }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to snooze emails");
+      }
+    })
+  );
+}
+
+async function persistUnsnooze(email: Email): Promise<void> {
+  const response = await fetch(accountUrl(`/api/gmail/snooze/${email.id}`, email.accountId), {
+    method: "DELETE",
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || "Failed to unsnooze email");
+  }
+}
+
+function setUnreadFlag(emails: Email[], ids: string[], isUnread: boolean): Email[] {
+  return emails.map((email) => {
+    if (!ids.includes(email.id)) return email;
+    const labelIds = (email.labelIds || []).filter((l) => l !== "UNREAD");
+    return {
+      ...email,
+      isUnread,
+      labelIds: isUnread ? [...labelIds, "UNREAD"] : labelIds,
+    };
+  });
+}
+
 const defaultFilters: EmailFilters = {
+  view: "mail",
   search: "",
   unreadOnly: false,
   hasAttachment: false,
@@ -107,151 +235,304 @@ const defaultFilters: EmailFilters = {
   excludeRedundant: false,
 };
 
-export const useEmailStore = create<EmailState>((set, get) => ({
-  // Initial state
-  emails: [],
-  selectedEmailId: null,
-  selectedEmailIds: new Set(),
-  classifications: new Map(),
-  userTags: [],
-  emailTags: new Map(),
-  isClassifying: false,
-  pageToken: null,
-  hasMore: false,
-  isLoading: true,
-  isLoadingMore: false,
-  error: null,
-  filters: defaultFilters,
+export const useEmailStore = create<EmailState>((set, get) => {
+  // Archive, trash and snooze all take the email out of the current view. On
+  // failure the removed emails are put back at their original positions.
+  const removeWithRollback = async (
+    ids: string[],
+    action: string,
+    persist: (emails: Email[]) => Promise<void>
+  ) => {
+    const { emails, selectedEmailId } = get();
+    const removed = emails
+      .map((email, index) => ({ email, index }))
+      .filter(({ email }) => ids.includes(email.id));
+    if (removed.length === 0) return;
+
+    // Move the active email to the next remaining one, like Gmail does
+    let nextSelectedId = selectedEmailId;
+    if (selectedEmailId && ids.includes(selectedEmailId)) {
+      const currentIndex = emails.findIndex((e) => e.id === selectedEmailId);
+      const isKept = (e: Email) => !ids.includes(e.id);
+      nextSelectedId =
+        emails.slice(currentIndex + 1).find(isKept)?.id ??
+        emails.slice(0, currentIndex).reverse().find(isKept)?.id ??
+        null;
+    }
 
-  // Actions
-  setEmails: (emails) =>
-    set({
-      emails,
-      selectedEmailId: null,
-      selectedEmailIds: new Set(),
-    }),
-
-  appendEmails: (newEmails, pageToken) =>
-    set((state) => ({
-      emails: [...state.emails, ...newEmails],
-      pageToken,
-      hasMore: !!pageToken,
-    })),
-
-  selectEmail: (id) => set({ selectedEmailId: id }),
-
-  toggleEmailSelection: (id) =>
     set((state) => {
-      const newSelection = new Set(state.selectedEmailIds);
-      if (newSelection.has(id)) {
-        newSelection.delete(id);
-      } else {
-        newSelection.add(id);
+      const selectedEmailIds = new Set(state.selectedEmailIds);
+      ids.forEach((id) => selectedEmailIds.delete(id));
+      return {
+        emails: state.emails.filter((e) => !ids.includes(e.id)),
+        selectedEmailId: nextSelectedId,
+        selectedEmailIds,
+      };
+    });
+
+    try {
+      await persist(removed.map(({ email }) => email));
+    } catch (err) {
+      set((state) => {
+        const restored = [...state.emails];
+        for (const { email, index } of removed) {
+          if (!restored.some((e) => e.id === email.id)) {
+            restored.splice(Math.min(index, restored.length), 0, email);
+          }
+        }
+        return {
+          emails: restored,
+          actionError:
+            err instanceof Error ? err.message : `Failed to ${action} emails`,
+        };
+      });
+    }
+  };
+
+  return {
+    // Initial state
+    emails: [],
+    selectedEmailId: null,
+    selectedEmailIds: new Set(),
+    classifications: new Map(),
+    userTags: [],
+    emailTags: new Map(),
+    isClassifying: false,
+    pageToken: null,
+    hasMore: false,
+    isLoading: true,
+    isLoadingMore: false,
+    error: null,
+    actionError: null,
+    filters: defaultFilters,
+
+    // Actions
+    setEmails: (emails) =>
+      set({
+        emails,
+        selectedEmailId: null,
+        selectedEmailIds: new Set(),
+      }),
+
+    appendEmails: (newEmails, pageToken) =>
+      set((state) => ({
+        emails: [...state.emails, ...newEmails],
+        pageToken,
+        hasMore: !!pageToken,
+      })),
+
+    // Put newly arrived emails on top without disturbing the rest of the list
+    mergeNewEmails: (newEmails) =>
+      set((state) => {
+        const known = new Set(state.emails.map((e) => e.id));
+        const fresh = newEmails.filter((e) => !known.has(e.id));
+        return fresh.length > 0 ? { emails: [...fresh, ...state.emails] } : {};
+      }),
+
+    // Label changes made outside this tab. Emails moved to spam or trash
+    // leave the list; everything else is updated in place.
+    applyLabelChanges: (changes) => {
+      const labelsById = new Map(changes.map((c) => [c.id, c.labelIds]));
+      const removed: string[] = [];
+
+      set((state) => ({
+        emails: state.emails.map((email) => {
+          const labelIds = labelsById.get(email.id);
+          if (!labelIds) return email;
+          if (labelIds.includes("SPAM") || labelIds.includes("TRASH")) {
+            removed.push(email.id);
+          }
+          return { ...email, labelIds, isUnread: labelIds.includes("UNREAD") };
+        }),
+      }));
+
+      if (removed.length > 0) {
+        get().removeEmailsById(removed);
       }
-      return { selectedEmailIds: newSelection };
-    }),
+    },
+
+    removeEmailsById: (ids) =>
+      set((state) => {
+        if (!state.emails.some((e) => ids.includes(e.id))) return {};
+
+        const selectedEmailIds = new Set(state.selectedEmailIds);
+        ids.forEach((id) => selectedEmailIds.delete(id));
+        return {
+          emails: state.emails.filter((e) => !ids.includes(e.id)),
+          selectedEmailId:
+            state.selectedEmailId && ids.includes(state.selectedEmailId)
+              ? null
+              : state.selectedEmailId,
+          selectedEmailIds,
+        };
+      }),
+
+    selectEmail: (id) => set({ selectedEmailId: id }),
+
+    toggleEmailSelection: (id) =>
+      set((state) => {
+        const newSelection = new Set(state.selectedEmailIds);
+        if (newSelection.has(id)) {
+          newSelection.delete(id);
+        } else {
+          newSelection.add(id);
+        }
+        return { selectedEmailIds: newSelection };
+      }),
 
-  selectAllEmails: () =>
-    set((state) => ({
-      selectedEmailIds: new Set(state.emails.map((e) => e.id)),
-    })),
+    selectAllEmails: () =>
+      set((state) => ({
+        selectedEmailIds: new Set(state.emails.map((e) => e.id)),
+      })),
 
-  clearSelection: () => set({ selectedEmailIds: new Set() }),
+    clearSelection: () => set({ selectedEmailIds: new Set() }),
 
-  setLoading: (isLoading) => set({ isLoading }),
+    setLoading: (isLoading) => set({ isLoading }),
 
-  setLoadingMore: (isLoadingMore) => set({ isLoadingMore }),
+    setLoadingMore: (isLoadingMore) => set({ isLoadingMore }),
 
-  setError: (error) => set({ error }),
+    setError: (error) => set({ error }),
 
-  setPageToken: (pageToken) => set({ pageToken, hasMore: !!pageToken }),
+    setPageToken: (pageToken) => set({ pageToken, hasMore: !!pageToken }),
 
-  setHasMore: (hasMore) => set({ hasMore }),
+    setHasMore: (hasMore) => set({ hasMore }),
 
-  updateFilter: (key, value) =>
-    set((state) => ({
-      filters: { ...state.filters, [key]: value },
-    })),
+    updateFilter: (key, value) =>
+      set((state) => ({
+        filters: { ...state.filters, [key]: value },
+      })),
 
-  resetFilters: () =>
-    set({
-      filters: defaultFilters,
-      pageToken: null,
-    }),
+    updateFilters: (filters) =>
+      set((state) => ({
+        filters: { ...state.filters, ...filters },
+      })),
 
-  markAsRead: (ids) =>
-    set((state) => ({
-      emails: state.emails.map((email) =>
-        ids.includes(email.id) ? { ...email, isUnread: false } : email
-      ),
-    })),
+    resetFilters: () =>
+      set({
+        filters: defaultFilters,
+        pageToken: null,
+      }),
 
-  markAsUnread: (ids) =>
-    set((state) => ({
-      emails: state.emails.map((email) =>
-        ids.includes(email.id) ? { ...email, isUnread: true } : email
-      ),
-    })),
+    setActionError: (actionError) => set({ actionError }),
 
-  // Classification actions
-  setClassifications: (newClassifications) =>
-    set((state) => {
-      // Merge new classifications with existing ones instead of replacing
-      const merged = new Map(state.classifications);
-      for (const [emailId, classification] of Object.entries(newClassifications)) {
-        merged.set(emailId, classification);
+    markAsRead: async (ids) => {
+      const targets = get().emails.filter((e) => ids.includes(e.id) && e.isUnread);
+      const targetIds = targets.map((e) => e.id);
+      if (targets.length === 0) return;
+
+      set((state) => ({ emails: setUnreadFlag(state.emails, targetIds, false) }));
+
+      try {
+        await persistMessageAction(targets, "read");
+      } catch (err) {
+        set((state) => ({
+          emails: setUnreadFlag(state.emails, targetIds, true),
+          actionError: err instanceof Error ? err.message : "Failed to mark as read",
+        }));
+      }
+    },
+
+    markAsUnread: async (ids) => {
+      const targets = get().emails.filter((e) => ids.includes(e.id) && !e.isUnread);
+      const targetIds = targets.map((e) => e.id);
+      if (targets.length === 0) return;
+
+      set((state) => ({ emails: setUnreadFlag(state.emails, targetIds, true) }));
+
+      try {
+        await persistMessageAction(targets, "unread");
+      } catch (err) {
+        set((state) => ({
+          emails: setUnreadFlag(state.emails, targetIds, false),
+          actionError: err instanceof Error ? err.message : "Failed to mark as unread",
+        }));
       }
-      return { classifications: merged };
-    }),
+    },
 
-  setUserTags: (tags) => set({ userTags: tags }),
+    archiveEmails: (ids) =>
+      removeWithRollback(ids, "archive", (removed) => persistMessageAction(removed, "archive")),
 
-  setEmailTags: (emailId, tagIds) =>
-    set((state) => {
-      const newEmailTags = new Map(state.emailTags);
-      newEmailTags.set(emailId, tagIds);
-      return { emailTags: newEmailTags };
-    }),
-
-  setClassifying: (isClassifying) => set({ isClassifying }),
-
-  getFilteredEmails: () => {
-    const { emails, filters, classifications, emailTags } = get();
-
-    return emails.filter((email) => {
-      // Category filter
-      if (filters.categories.length > 0) {
-        const classification = classifications.get(email.id);
-        if (!classification || !filters.categories.includes(classification.category)) {
-          return false;
+    trashEmails: (ids) =>
+      removeWithRollback(ids, "trash", (removed) => persistMessageAction(removed, "trash")),
+
+    snoozeEmails: (ids, until) =>
+      removeWithRollback(ids, "snooze", (removed) => persistSnooze(removed, until)),
+
+    unsnoozeEmails: (ids) =>
+      removeWithRollback(ids, "unsnooze", (removed) =>
+        Promise.all(removed.map((email) => persistUnsnooze(email))).then(() => undefined)
+      ),
+
+    // Drafts get a new message ID on every save, so match on the draft ID
+    removeDraft: (draftId) =>
+      set((state) => ({
+        emails: state.emails.filter((e) => e.draftId !== draftId),
+        selectedEmailId:
+          state.emails.find((e) => e.id === state.selectedEmailId)?.draftId === draftId
+            ? null
+            : state.selectedEmailId,
+      })),
+
+    // Classification actions
+    setClassifications: (newClassifications) =>
+      set((state) => {
+        // Merge new classifications with existing ones instead of replacing
+        const merged = new Map(state.classifications);
+        for (const [emailId, classification] of Object.entries(newClassifications)) {
+          merged.set(emailId, classification);
+        }
+        return { classifications: merged };
+      }),
+
+    setUserTags: (tags) => set({ userTags: tags }),
+
+    setEmailTags: (emailId, tagIds) =>
+      set((state) => {
+        const newEmailTags = new Map(state.emailTags);
+        newEmailTags.set(emailId, tagIds);
+        return { emailTags: newEmailTags };
+      }),
+
+    setClassifying: (isClassifying) => set({ isClassifying }),
+
+    getFilteredEmails: () => {
+      const { emails, filters, classifications, emailTags } = get();
+
+      return emails.filter((email) => {
+        // Category filter
+        if (filters.categories.length > 0) {
+          const classification = classifications.get(email.id);
+          if (!classification || !filters.categories.includes(classification.category)) {
+            return false;
+          }
         }
-      }
 
-      // Priority filter
-      if (filters.priorities.length > 0) {
-        const classification = classifications.get(email.id);
-        if (!classification || !filters.priorities.includes(classification.priority)) {
-          return false;
+        // Priority filter
+        if (filters.priorities.length > 0) {
+          const classification = classifications.get(email.id);
+          if (!classification || !filters.priorities.includes(classification.priority)) {
+            return false;
+          }
         }
-      }
 
-      // Exclude redundant
-      if (filters.excludeRedundant) {
-        const classification = classifications.get(email.id);
-        if (classification?.isRedundant) {
-          return false;
+        // Exclude redundant
+        if (filters.excludeRedundant) {
+          const classification = classifications.get(email.id);
+          if (classification?.isRedundant) {
+            return false;
+          }
         }
-      }
 
-      // Tag filter
-      if (filters.tags.length > 0) {
-        const tags = emailTags.get(email.id) || [];
-        if (!filters.tags.some((tagId) => tags.includes(tagId))) {
-          return false;
+        // Tag filter
+        if (filters.tags.length > 0) {
+          const tags = emailTags.get(email.id) || [];
+          if (!filters.tags.some((tagId) => tags.includes(tagId))) {
+            return false;
+          }
         }
-      }
 
-      return true;
-    });
-  },
-}));
+        return true;
+      });
+    },
+  };
+});
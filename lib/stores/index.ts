@@ -1,11 +1,18 @@
 export {
   useEmailStore,
+  accountUrl,
   type Email,
   type EmailFilters,
   type EmailClassification,
   type UserTag,
 } from "./email-store";
-export { useUIStore, type Widget } from "./ui-store";
+export {
+  useUIStore,
+  type Widget,
+  type ComposeValues,
+  type ForwardedAttachment,
+  type PendingSend,
+} from "./ui-store";
 export {
   useAIStore,
   type ChatMessage,
@@ -1,9 +1,53 @@
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
+import type { LinkedAccount } from "@/lib/accounts";
+import { UNDO_SEND_SECONDS, type EmailAttachment } from "@/lib/gmail";
+import { buildFromDraft } from "@/lib/compose";
+import { accountUrl } from "./email-store";
 
 export type Widget = "email" | "calendar" | "tasks" | "notes";
 
+export interface ForwardedAttachment {
+  messageId: string;
+  attachment: EmailAttachment;
+}
+
+export interface ComposeValues {
+  to: string;
+  cc: string;
+  bcc: string;
+  subject: string;
+  body: string;
+  // HTML of a reopened draft, sent as it was until the body is edited
+  bodyHtml?: string;
+  // Set when replying or forwarding
+  threadId?: string;
+  inReplyTo?: string;
+  references?: string;
+  forwardedAttachments?: ForwardedAttachment[];
+  // Gmail draft backing this compose session, once autosaved
+  draftId?: string;
+  // Linked account the message is sent from; the primary one if unset
+  accountId?: string;
+}
+
+// A message handed to the send queue, shown with an Undo button until it
+// goes out (or, for scheduled sends, until dismissed)
+export interface PendingSend {
+  id: string;
+  draftId: string;
+  // Account the draft belongs to, for reopening it
+  accountId: string;
+  sendAt: string;
+  scheduled: boolean;
+}
+
 interface UIState {
+  // Linked Google accounts. activeAccountId picks one inbox; null shows
+  // all of them together.
+  accounts: LinkedAccount[];
+  activeAccountId: string | null;
+
   // Sidebar
   sidebarExpanded: boolean;
   activeWidget: Widget;
@@ -14,7 +58,21 @@ interface UIState {
   // Keyboard shortcuts help
   shortcutsModalOpen: boolean;
 
+  // Compose sheet
+  composeOpen: boolean;
+  composeInitial: Partial<ComposeValues> | null;
+  // Local copy of the open compose session, so it survives a reload even
+  // when autosaving to Gmail fails (e.g. an expired session)
+  composeBackup: Partial<ComposeValues> | null;
+
+  // Send queue
+  undoSendSeconds: number;
+  pendingSend: PendingSend | null;
+
   // Actions
+  loadAccounts: () => Promise<void>;
+  setActiveAccount: (accountId: string | null) => void;
+  unlinkAccount: (accountId: string) => Promise<void>;
   toggleSidebar: () => void;
   setSidebarExpanded: (expanded: boolean) => void;
   setActiveWidget: (widget: Widget) => void;
@@ -23,18 +81,68 @@ interface UIState {
   toggleDetailPanel: () => void;
   openShortcutsModal: () => void;
   closeShortcutsModal: () => void;
+  openCompose: (initial?: Partial<ComposeValues>) => void;
+  closeCompose: () => void;
+  setComposeBackup: (backup: Partial<ComposeValues> | null) => void;
+  openDraft: (draftId: string, accountId?: string) => Promise<void>;
+  setUndoSendSeconds: (seconds: number) => void;
+  setPendingSend: (pendingSend: PendingSend | null) => void;
 }
 
 export const useUIStore = create<UIState>()(
   persist(
-    (set) => ({
+    (set, get) => ({
       // Initial state
+      accounts: [],
+      activeAccountId: null,
       sidebarExpanded: true,
       activeWidget: "email",
       detailPanelOpen: false,
       shortcutsModalOpen: false,
+      composeOpen: false,
+      composeInitial: null,
+      composeBackup: null,
+      undoSendSeconds: UNDO_SEND_SECONDS.default,
+      pendingSend: null,
 
       // Actions
+      loadAccounts: async () => {
+        const response = await fetch("/api/accounts");
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load accounts");
+        }
+
+        const accounts = data.accounts as LinkedAccount[];
+        const { activeAccountId } = get();
+        set({
+          accounts,
+          // A remembered account may have been unlinked in another browser
+          activeAccountId: accounts.some((a) => a.accountId === activeAccountId)
+            ? activeAccountId
+            : null,
+        });
+      },
+
+      setActiveAccount: (activeAccountId) => set({ activeAccountId }),
+
+      unlinkAccount: async (accountId) => {
+        const response = await fetch(`/api/accounts/${encodeURIComponent(accountId)}`, {
+          method: "DELETE",
+        });
+        const data = await response.json().catch(() => ({}));
+
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to unlink account");
+        }
+
+        set((state) => ({
+          accounts: state.accounts.filter((a) => a.accountId !== accountId),
+          activeAccountId: state.activeAccountId === accountId ? null : state.activeAccountId,
+        }));
+      },
+
       toggleSidebar: () =>
         set((state) => ({ sidebarExpanded: !state.sidebarExpanded })),
 
@@ -52,12 +160,41 @@ export const useUIStore = create<UIState>()(
       openShortcutsModal: () => set({ shortcutsModalOpen: true }),
 
       closeShortcutsModal: () => set({ shortcutsModalOpen: false }),
+
+      openCompose: (initial) =>
+        set({ composeOpen: true, composeInitial: initial ?? null }),
+
+      closeCompose: () => set({ composeOpen: false, composeInitial: null }),
+
+      setComposeBackup: (composeBackup) => set({ composeBackup }),
+
+      // Load a Gmail draft into the compose sheet
+      openDraft: async (draftId, accountId) => {
+        const response = await fetch(accountUrl(`/api/gmail/drafts/${draftId}`, accountId));
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to open draft");
+        }
+
+        set({
+          composeOpen: true,
+          composeInitial: { ...buildFromDraft(draftId, data.message), accountId },
+        });
+      },
+
+      setUndoSendSeconds: (undoSendSeconds) => set({ undoSendSeconds }),
+
+      setPendingSend: (pendingSend) => set({ pendingSend }),
     }),
     {
       name: "dashboard-ui-state",
       partialize: (state) => ({
+        activeAccountId: state.activeAccountId,
         sidebarExpanded: state.sidebarExpanded,
         activeWidget: state.activeWidget,
+        composeBackup: state.composeBackup,
+        undoSendSeconds: state.undoSendSeconds,
       }),
     }
   )
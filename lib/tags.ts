@@ -0,0 +1,169 @@
+import type { UserTag } from "@prisma/client";
+import type { AccountRef } from "@/lib/accounts";
+import { prisma } from "@/lib/db";
+import {
+  batchModifyMessages,
+  createLabel,
+  deleteLabel,
+  listLabelMessageIds,
+  listLabels,
+  modifyMessage,
+  renameLabel,
+} from "@/lib/gmail";
+
+// Tags with syncToGmail on are mirrored as Gmail labels. Local changes are
+// written to Gmail before they are saved here, so Gmail sees the changes
+// from both sides in order and its current state is always the most recent
+// change. Changes made in Gmail come back through the mailbox history
+// (labels on messages) and reconcileTagLabels (label names and deletions).
+
+// batchModify takes at most 1000 message IDs per call
+const BATCH_MODIFY_LIMIT = 1000;
+
+// Link a tag to the Gmail label of the same name, creating the label if
+// needed. Turning sync on merges both sides: messages tagged here get the
+// label, and messages labelled in Gmail get the tag.
+export async function linkTagToLabel(accessToken: string, tag: UserTag): Promise<UserTag> {
+  const labels = await listLabels(accessToken);
+  const label =
+    labels.find((l) => l.type === "user" && l.name.toLowerCase() === tag.name) ||
+    (await createLabel(accessToken, tag.name));
+
+  const taggedIds = new Set(
+    (
+      await prisma.emailTag.findMany({ where: { tagId: tag.id }, select: { emailId: true } })
+    ).map((et) => et.emailId)
+  );
+  const labelledIds = new Set(await listLabelMessageIds(accessToken, label.id));
+
+  const toLabel = [...taggedIds].filter((id) => !labelledIds.has(id));
+  for (let i = 0; i < toLabel.length; i += BATCH_MODIFY_LIMIT) {
+    await batchModifyMessages(accessToken, toLabel.slice(i, i + BATCH_MODIFY_LIMIT), [label.id]);
+  }
+
+  const toTag = [...labelledIds].filter((id) => !taggedIds.has(id));
+  const [linked] = await prisma.$transaction([
+    prisma.userTag.update({
+      where: { id: tag.id },
+      data: { syncToGmail: true, gmailLabelId: label.id },
+    }),
+    prisma.emailTag.createMany({
+      data: toTag.map((emailId) => ({ accountId: tag.accountId, emailId, tagId: tag.id })),
+    }),
+  ]);
+
+  return linked;
+}
+
+// Stop mirroring a tag. The Gmail label and its messages are left alone.
+export async function unlinkTag(tag: UserTag): Promise<UserTag> {
+  return prisma.userTag.update({
+    where: { id: tag.id },
+    data: { syncToGmail: false, gmailLabelId: null },
+  });
+}
+
+// Write a tag change to Gmail ahead of saving it locally. No-op for tags
+// that aren't synced.
+export async function pushTagRename(accessToken: string, tag: UserTag, name: string) {
+  if (!tag.syncToGmail || !tag.gmailLabelId) return;
+  await renameLabel(accessToken, tag.gmailLabelId, name);
+}
+
+export async function pushTagDelete(accessToken: string, tag: UserTag) {
+  if (!tag.syncToGmail || !tag.gmailLabelId) return;
+  await deleteLabel(accessToken, tag.gmailLabelId);
+}
+
+export async function pushEmailTag(
+  accessToken: string,
+  tag: UserTag,
+  emailId: string,
+  applied: boolean
+) {
+  if (!tag.syncToGmail || !tag.gmailLabelId) return;
+  await modifyMessage(
+    accessToken,
+    emailId,
+    applied ? [tag.gmailLabelId] : [],
+    applied ? [] : [tag.gmailLabelId]
+  );
+}
+
+// Bring synced tags in line with label renames and deletions made in
+// Gmail. A deleted label deletes its tag, as deleting the tag here deletes
+// the label there.
+export async function reconcileTagLabels(
+  accessToken: string,
+  { userId, accountId }: AccountRef
+): Promise<void> {
+  const tags = await prisma.userTag.findMany({ where: { userId, accountId, syncToGmail: true } });
+  if (tags.length === 0) return;
+
+  const labels = new Map((await listLabels(accessToken)).map((l) => [l.id, l]));
+
+  for (const tag of tags) {
+    const label = tag.gmailLabelId ? labels.get(tag.gmailLabelId) : undefined;
+
+    if (!label) {
+      await prisma.$transaction([
+        prisma.emailTag.deleteMany({ where: { tagId: tag.id } }),
+        prisma.userTag.delete({ where: { id: tag.id } }),
+      ]);
+      continue;
+    }
+
+    // Tag names are stored lowercased, so only a real rename counts
+    const name = label.name.toLowerCase().trim();
+    if (name !== tag.name) {
+      const clash = await prisma.userTag.findFirst({ where: { userId, accountId, name } });
+      if (clash) {
+        console.error(`Gmail label "${label.name}" clashes with an existing tag; not renamed`);
+        continue;
+      }
+      await prisma.userTag.update({ where: { id: tag.id }, data: { name } });
+    }
+  }
+}
+
+// Apply label changes seen in the mailbox history to the tags of synced
+// labels. Each change carries the message's full label list after the change.
+export async function applyLabelChangesToTags(
+  { userId, accountId }: AccountRef,
+  changes: Array<{ id: string; labelIds: string[] }>
+): Promise<void> {
+  if (changes.length === 0) return;
+
+  const tags = await prisma.userTag.findMany({ where: { userId, accountId, syncToGmail: true } });
+  if (tags.length === 0) return;
+
+  const existing = await prisma.emailTag.findMany({
+    where: {
+      emailId: { in: changes.map((c) => c.id) },
+      tagId: { in: tags.map((t) => t.id) },
+    },
+  });
+  const has = new Set(existing.map((et) => `${et.emailId}:${et.tagId}`));
+
+  const toCreate: Array<{ accountId: string; emailId: string; tagId: string }> = [];
+  const toDelete: Array<{ emailId: string; tagId: string }> = [];
+
+  for (const change of changes) {
+    for (const tag of tags) {
+      if (!tag.gmailLabelId) continue;
+
+      const labelled = change.labelIds.includes(tag.gmailLabelId);
+      const tagged = has.has(`${change.id}:${tag.id}`);
+
+      if (labelled && !tagged) toCreate.push({ accountId, emailId: change.id, tagId: tag.id });
+      if (!labelled && tagged) toDelete.push({ emailId: change.id, tagId: tag.id });
+    }
+  }
+
+  if (toCreate.length === 0 && toDelete.length === 0) return;
+
+  await prisma.$transaction([
+    prisma.emailTag.createMany({ data: toCreate }),
+    ...toDelete.map((et) => prisma.emailTag.deleteMany({ where: et })),
+  ]);
+}
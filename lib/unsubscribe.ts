@@ -0,0 +1,174 @@
+import type { LookupAddress } from "dns";
+import { lookup } from "dns/promises";
+import { request } from "https";
+import { isIP, type LookupFunction } from "net";
+import type { Unsubscription } from "@prisma/client";
+import type { AccountRef } from "@/lib/accounts";
+import { prisma } from "@/lib/db";
+import { getMessagesMetadata, parseAddressList, sendMessage } from "@/lib/gmail";
+import { extractEmail } from "@/lib/utils";
+
+// Leave the mailing list a message came from. Headers are read from Gmail
+// rather than taken from the browser, so only the list's own URI is used.
+// Returns null if the message has no way to unsubscribe without a browser.
+export async function unsubscribeFromMessage(
+  accessToken: string,
+  { userId, accountId }: AccountRef,
+  messageId: string
+): Promise<Unsubscription | null> {
+  const [email] = await getMessagesMetadata(accessToken, [messageId]);
+  const options = email?.unsubscribe;
+
+  let method: string;
+  let target: string;
+
+  if (options?.oneClick && options.url) {
+    await postOneClick(options.url);
+    method = "one-click";
+    target = options.url;
+  } else if (options?.mailto) {
+    target = await sendUnsubscribeMail(accessToken, options.mailto);
+    method = "mailto";
+  } else {
+    return null;
+  }
+
+  return prisma.unsubscription.create({
+    data: {
+      userId,
+      accountId,
+      messageId,
+      sender: extractEmail(email.from),
+      method,
+      target,
+    },
+  });
+}
+
+// The list's server gets this long to answer before the request is dropped
+const ONE_CLICK_TIMEOUT_MS = 10_000;
+
+const ONE_CLICK_BODY = "List-Unsubscribe=One-Click";
+
+// RFC 8058: a POST with exactly this body, no cookies or redirects to a
+// confirmation page needed. The URL comes from the sender, so it must be
+// https on a public host, and redirects aren't followed anywhere else.
+async function postOneClick(url: string): Promise<void> {
+  const target = new URL(url);
+  const address = target.protocol === "https:" ? await resolvePublicAddress(target.hostname) : null;
+  if (!address) {
+    throw new Error("Unsubscribe link doesn't point to a public https server");
+  }
+
+  // Connect to the address that was checked rather than resolving the name
+  // again, which a rebinding host could answer with an internal address
+  const pinnedLookup: LookupFunction = (_hostname, options, callback) => {
+    if (options.all) {
+      callback(null, [address]);
+    } else {
+      callback(null, address.address, address.family);
+    }
+  };
+
+  const status = await new Promise<number>((resolve, reject) => {
+    const req = request(
+      target,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/x-www-form-urlencoded",
+          "Content-Length": Buffer.byteLength(ONE_CLICK_BODY),
+        },
+        lookup: pinnedLookup,
+        signal: AbortSignal.timeout(ONE_CLICK_TIMEOUT_MS),
+      },
+      (response) => {
+        response.resume();
+        resolve(response.statusCode || 0);
+      }
+    );
+    req.on("error", reject);
+    req.end(ONE_CLICK_BODY);
+  });
+
+  // A redirect means the request was received; where it points is ignored
+  if (status < 200 || status >= 400) {
+    throw new Error(`Unsubscribe request failed: ${status}`);
+  }
+}
+
+// The address to connect to, if every address a host name resolves to is
+// on the public internet
+async function resolvePublicAddress(hostname: string): Promise<LookupAddress | null> {
+  const host = hostname.replace(/^\[|\]$/g, "");
+  try {
+    const addresses = await lookup(host, { all: true, verbatim: true });
+    if (addresses.length === 0 || !addresses.every(({ address }) => isPublicAddress(address))) {
+      return null;
+    }
+    return addresses[0];
+  } catch {
+    return null;
+  }
+}
+
+// Not loopback, private, link-local, shared (CGNAT), multicast or reserved
+function isPublicAddress(address: string): boolean {
+  const version = isIP(address);
+
+  if (version === 6) {
+    // Compress to one spelling, e.g. 0:0:0:0:0:ffff:7f00:1 becomes ::ffff:7f00:1
+    const lower = new URL(`http://[${address}]`).hostname.slice(1, -1);
+
+    // IPv4-mapped (::ffff:10.0.0.1 or ::ffff:a00:1) is judged by the IPv4 address
+    const mapped = lower.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+    if (mapped) return isPublicAddress(mapped[1]);
+    const mappedHex = lower.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+    if (mappedHex) {
+      const high = parseInt(mappedHex[1], 16);
+      const low = parseInt(mappedHex[2], 16);
+      return isPublicAddress(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+    }
+
+    return !(
+      lower === "::" ||
+      lower === "::1" ||
+      // NAT64 and 6to4 can carry any IPv4 address, private ones included
+      lower.startsWith("64:ff9b:") ||
+      lower.startsWith("2002:") ||
+      /^f[cd]/.test(lower) ||
+      /^fe[89ab]/.test(lower) ||
+      lower.startsWith("ff")
+    );
+  }
+
+  if (version !== 4) return false;
+
+  const [a, b] = address.split(".").map(Number);
+  return !(
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19)) ||
+    a >= 224
+  );
+}
+
+// mailto URIs may carry the subject and body the list expects
+// (RFC 6068), e.g. mailto:leave@example.com?subject=unsubscribe
+async function sendUnsubscribeMail(accessToken: string, mailto: string): Promise<string> {
+  const uri = new URL(mailto);
+  const address = decodeURIComponent(uri.pathname);
+
+  await sendMessage(accessToken, {
+    to: parseAddressList(address),
+    subject: uri.searchParams.get("subject") || "unsubscribe",
+    text: uri.searchParams.get("body") || "unsubscribe",
+  });
+
+  return address;
+}
@@ -76,3 +76,9 @@ export function extractName(from: string): string {
   const match = from.match(/^([^<]+)/);
   return match ? match[1].trim().replace(/"/g, "") : from;
 }
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
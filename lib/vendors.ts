@@ -0,0 +1,73 @@
+import type { AccountRef } from "@/lib/accounts";
+import { prisma } from "@/lib/db";
+import { checkSender, organizationalDomain, senderDomain } from "@/lib/email-auth";
+import type { FullMessage } from "@/lib/gmail";
+
+// Vendors a mailbox deals with, for spotting mail that poses as one of them.
+// They're learned from mail the AI classified as vendor, billing or order
+// mail, and can be listed in KNOWN_VENDOR_DOMAINS (comma separated) too.
+
+const VENDOR_CATEGORIES = ["vendors", "billing", "orders"];
+
+// A domain has to have sent this many classified messages to count. One
+// convincing fake invoice mustn't make its own domain a known vendor.
+const MIN_VENDOR_MESSAGES = 3;
+
+// Mailbox providers anyone can send from, never a vendor's own domain
+const FREEMAIL_DOMAINS = new Set([
+  "gmail.com",
+  "googlemail.com",
+  "outlook.com",
+  "hotmail.com",
+  "live.com",
+  "yahoo.com",
+  "icloud.com",
+  "aol.com",
+  "proton.me",
+]);
+
+export async function getVendorDomains({ userId, accountId }: AccountRef): Promise<string[]> {
+  const rows = await prisma.$queryRawUnsafe<Array<{ from: string }>>(
+    `SELECT m."from" FROM MailboxMessage m
+     JOIN EmailClassification c ON c.userId = m.userId AND c.accountId = m.accountId
+       AND c.emailId = m.messageId
+     WHERE m.userId = ? AND m.accountId = ?
+       AND c.category IN (${VENDOR_CATEGORIES.map(() => "?").join(", ")})`,
+    userId,
+    accountId,
+    ...VENDOR_CATEGORIES
+  );
+
+  const counts = new Map<string, number>();
+  for (const { from } of rows) {
+    const organization = organizationalDomain(senderDomain(from));
+    if (!organization || FREEMAIL_DOMAINS.has(organization)) continue;
+    counts.set(organization, (counts.get(organization) || 0) + 1);
+  }
+
+  const configured = (process.env.KNOWN_VENDOR_DOMAINS || "")
+    .split(",")
+    .map((domain) => domain.trim().toLowerCase())
+    .filter(Boolean);
+
+  return [
+    ...new Set([
+      ...configured,
+      ...[...counts].filter(([, count]) => count >= MIN_VENDOR_MESSAGES).map(([domain]) => domain),
+    ]),
+  ];
+}
+
+// Add warnings to messages whose sender poses as a known vendor
+export async function withSenderWarnings(
+  account: AccountRef,
+  messages: FullMessage[]
+): Promise<FullMessage[]> {
+  const vendorDomains = await getVendorDomains(account);
+  if (vendorDomains.length === 0) return messages;
+
+  return messages.map((message) => ({
+    ...message,
+    senderWarnings: checkSender(message.from, message.authentication, vendorDomains),
+  }));
+}
@@ -0,0 +1,41 @@
+// Stand-in for Pub/Sub when developing locally: posts a Gmail push
+// notification to the webhook the way a push subscription would.
+//
+//   GMAIL_PUSH_TOKEN=secret node scripts/fake-pubsub-push.mjs you@gmail.com 123456
+//
+// Use a historyId newer than the mirror's (see GET /api/gmail/sync) or the
+// notification is treated as already applied.
+
+const [emailAddress, historyId] = process.argv.slice(2);
+const baseUrl = process.env.PUSH_BASE_URL || "http://localhost:3000";
+const token = process.env.GMAIL_PUSH_TOKEN;
+
+if (!emailAddress || !historyId || !token) {
+  console.error(
+    "Usage: GMAIL_PUSH_TOKEN=<token> node scripts/fake-pubsub-push.mjs <emailAddress> <historyId>"
+  );
+  process.exit(1);
+}
+
+const data = Buffer.from(JSON.stringify({ emailAddress, historyId: Number(historyId) })).toString(
+  "base64"
+);
+
+const response = await fetch(`${baseUrl}/api/gmail/push?token=${encodeURIComponent(token)}`, {
+  method: "POST",
+  headers: { "Content-Type": "application/json" },
+  body: JSON.stringify({
+    message: {
+      data,
+      messageId: `fake-${Date.now()}`,
+      publishTime: new Date().toISOString(),
+    },
+    subscription: "projects/local/subscriptions/gmail-push",
+  }),
+});
+
+console.log(`${response.status} ${response.statusText}`);
+if (response.status >= 400) {
+  console.log(await response.text());
+  process.exit(1);
+}